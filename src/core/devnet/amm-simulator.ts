@@ -0,0 +1,1377 @@
+import {
+  ABI,
+  ABIContract,
+  ABIEvent,
+  ABIFunction,
+  Address,
+  Blake2b256,
+  ERC20_ABI,
+  Hex,
+  Transaction,
+  TransactionBody,
+  TransactionClause,
+  Txt,
+  VTHO_ADDRESS
+} from '@vechain/sdk-core';
+import {
+  AccountDetail,
+  CompressedBlockDetail,
+  Contract,
+  ContractCallResult,
+  ContractClause,
+  EstimateGasResult,
+  Event,
+  EventLogs,
+  FilterRawEventLogsOptions,
+  SimulateTransactionOptions,
+  ThorClient,
+  TransactionBodyOptions,
+  TransactionReceipt,
+  TransactionSimulationResult,
+  Transfer
+} from '@vechain/sdk-network';
+import { createBackendNetworkContext, getChainTagFromGenesisId, NetworkContracts } from '../../utils/contracts/network-context';
+import { IndexedLogMeta, IndexedLogsOptions } from '../trading/pair-events';
+import { getAmountIn, getAmountOut } from '../trading/reserve-pricing';
+import { factoryABI } from '../../utils/abis/factory';
+import { pairABI } from '../../utils/abis/pair';
+import { RouterABI } from '../../utils/abis/router';
+import { vVETABI } from '../../utils/abis/vvet';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const MAX_UINT256 = 2n ** 256n - 1n;
+const MINIMUM_LIQUIDITY = 1000n;
+
+// Chain defaults: fixed start time so runs are reproducible, Thor's 10 s block interval
+const DEFAULT_CHAIN_TAG = 0xaa;
+const DEFAULT_START_TIMESTAMP = 1_700_000_000;
+const DEFAULT_BLOCK_INTERVAL = 10;
+
+// Legacy base gas price (wei of VTHO per gas unit) used to charge transaction fees
+const BASE_GAS_PRICE = 10n ** 13n;
+
+// Gas model: intrinsic gas per transaction and clause, plus a fixed execution cost per function
+const TX_GAS = 5000;
+const CLAUSE_GAS = 16000;
+const EXECUTION_GAS: Record<string, number> = {
+  approve: 25000,
+  transfer: 35000,
+  transferFrom: 40000,
+  deposit: 30000,
+  withdraw: 35000,
+  addLiquidity: 180000,
+  addLiquidityETH: 190000,
+  createPair: 2000000
+};
+const SWAP_GAS = 60000;             // Per swap plus SWAP_HOP_GAS per pool crossed
+const SWAP_HOP_GAS = 55000;
+const DEFAULT_EXECUTION_GAS = 30000;
+
+/**
+ * Interface for the options of an AMM simulator
+ */
+export interface AmmSimulatorOptions {
+  name?: string;                  // Network name used in logs and cache keys (defaults to simulator-N)
+  chainTag?: number;
+  startTimestamp?: number;        // Timestamp of the genesis block
+  blockInterval?: number;         // Seconds between blocks
+  autoMine?: boolean;             // Mine a block for every sent transaction (defaults to true)
+  chargeGas?: boolean;            // Charge transaction fees in VTHO to the gas payer (defaults to true)
+}
+
+/**
+ * Interface for a token registered in the simulator
+ */
+export interface SimulatedTokenOptions {
+  symbol: string;
+  name?: string;
+  decimals?: number;
+  transferFeeBps?: number;        // Share of every transfer burned, for fee-on-transfer tokens
+  address?: string;
+}
+
+/**
+ * Interface for the state of a simulated pool
+ */
+export interface SimulatedPool {
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  blockTimestampLast: number;
+}
+
+/**
+ * ThorClient subset answered by the simulator: what createContractInterface, createTransactionManager,
+ * the block and log readers and the health checks call
+ */
+export interface SimulatedThorClient {
+  contracts: Pick<ThorClient['contracts'], 'load' | 'executeMultipleClausesCall'>;
+  transactions: Pick<ThorClient['transactions'],
+    'simulateTransaction' | 'buildTransactionBody' | 'sendTransaction' | 'getTransactionReceipt' | 'waitForTransaction'>;
+  gas: Pick<ThorClient['gas'], 'estimateGas'>;
+  accounts: Pick<ThorClient['accounts'], 'getAccount'>;
+  blocks: Pick<ThorClient['blocks'], 'getBestBlockCompressed' | 'getBlockCompressed' | 'getGenesisBlock' | 'getBestBlockRef'>;
+  logs: Pick<ThorClient['logs'], 'filterRawEventLogs'>;
+  nodes: Pick<ThorClient['nodes'], 'isHealthy'>;
+}
+
+/**
+ * Interface for the state of a simulated ERC20 token
+ */
+interface TokenState {
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: bigint;
+  transferFeeBps: bigint;
+  balances: Map<string, bigint>;
+  allowances: Map<string, bigint>;  // Keyed by owner:spender
+}
+
+/**
+ * Interface for the reserves and oracle state of a simulated pool
+ */
+interface PoolState {
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  blockTimestampLast: number;
+  price0CumulativeLast: bigint;
+  price1CumulativeLast: bigint;
+}
+
+/**
+ * Interface for the balances held by the simulator; copied to roll back reverted transactions
+ */
+interface WorldState {
+  vet: Map<string, bigint>;
+  tokens: Map<string, TokenState>;
+  pools: Map<string, PoolState>;
+  poolOrder: string[];
+}
+
+// Event log as stored by the node, with its position in the block
+type IndexedEventLogs = EventLogs & { meta: EventLogs['meta'] & IndexedLogMeta };
+
+// ABI shapes accepted by the SDK's ABI classes (the JSON ABIs of the project are cast to them)
+type ContractAbi = Parameters<typeof ABIContract.ofAbi>[0];
+type FunctionSignature = ConstructorParameters<typeof ABIFunction>[0];
+type EventSignature = ConstructorParameters<typeof ABIEvent>[0];
+
+/**
+ * Interface for the side effects of one executed clause
+ */
+interface ClauseFrame {
+  events: Event[];
+  transfers: Transfer[];
+}
+
+/**
+ * Interface for a clause as executed by the simulator
+ */
+interface ClauseInput {
+  to: string | null;
+  value: bigint;
+  data: string;
+}
+
+/**
+ * Interface for the outcome of a list of clauses
+ */
+interface ExecutionResult {
+  results: TransactionSimulationResult[];
+  reverted: boolean;
+  revertReason?: string;
+  gasUsed: number;
+}
+
+/**
+ * Build the function lookup of a contract ABI, keyed by selector
+ * @param abi Contract ABI
+ * @returns Functions by selector
+ */
+function indexFunctions(abi: ContractAbi): Map<string, ABIFunction> {
+  return new Map(
+    abi
+      .filter((entry): entry is FunctionSignature => entry.type === 'function')
+      .map(entry => {
+        const fn = new ABIFunction(entry);
+        return [fn.signatureHash.toLowerCase(), fn] as [string, ABIFunction];
+      })
+  );
+}
+
+const FUNCTIONS = {
+  router: indexFunctions(RouterABI as ContractAbi),
+  factory: indexFunctions(factoryABI as ContractAbi),
+  pool: indexFunctions(pairABI as ContractAbi),
+  vVET: indexFunctions(vVETABI as ContractAbi),
+  token: indexFunctions(ERC20_ABI)
+};
+
+type ContractKind = keyof typeof FUNCTIONS;
+
+// Decoded arguments of the router swaps: [amount, amount, path, to, deadline] and the VET-in variants
+type SwapArgs = [bigint, bigint, string[], string, bigint];
+type SwapETHArgs = [bigint, string[], string, bigint];
+
+// Event definitions emitted by the simulated contracts
+const EVENTS = {
+  token: ABIContract.ofAbi(ERC20_ABI as ContractAbi),
+  vVET: ABIContract.ofAbi(vVETABI as ContractAbi),
+  pool: ABIContract.ofAbi(pairABI as ContractAbi),
+  factory: ABIContract.ofAbi(factoryABI as ContractAbi)
+};
+
+/**
+ * ABI-encode a revert reason the way Solidity's require does (Error(string))
+ * @param reason Revert reason
+ * @returns Encoded revert data
+ */
+function encodeRevertReason(reason: string): string {
+  return `0x08c379a0${ABI.of([{ type: 'string', name: '' }], [reason]).toHex().toString().slice(2)}`;
+}
+
+/**
+ * Integer square root (Babylonian method, as in Uniswap's Math.sqrt)
+ * @param value Value
+ * @returns Floor of the square root
+ */
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (value / y + y) / 2n;
+  }
+  return x;
+}
+
+// Simulator counter, used for default network names
+let simulatorCount = 0;
+
+/**
+ * Create an in-memory VeChain chain with a Uniswap V2 style DEX (router, factory, vVET and pools)
+ * Requests go through a ThorClient look-alike, so createContractInterface, createTransactionManager and every
+ * module taking a network context run unchanged against `simulator.network`, without a node.
+ * Pools use constant-product math with the 0.3% fee; transactions are signed, mined into blocks and produce receipts and logs.
+ * @param options Chain settings
+ * @returns AMM simulator
+ */
+export function createAmmSimulator(options: AmmSimulatorOptions = {}) {
+  const name = options.name || `simulator-${++simulatorCount}`;
+  const chainTag = options.chainTag ?? DEFAULT_CHAIN_TAG;
+  const blockInterval = options.blockInterval ?? DEFAULT_BLOCK_INTERVAL;
+  const chargeGas = options.chargeGas ?? true;
+  let autoMine = options.autoMine ?? true;
+
+  let addressCount = 0;
+  let nonceCount = 0;
+
+  /**
+   * Derive a new contract address
+   */
+  const newAddress = (label: string): string =>
+    `0x${Blake2b256.of(Txt.of(`${name}:${label}:${addressCount++}`).bytes).toString().slice(-40)}`;
+
+  const key = (address: string) => address.toLowerCase();
+
+  let world: WorldState = { vet: new Map(), tokens: new Map(), pools: new Map(), poolOrder: [] };
+
+  // Chain history
+  const blocks: CompressedBlockDetail[] = [];
+  const receipts = new Map<string, TransactionReceipt>();
+  const revertReasons = new Map<string, string>();
+  const logs: IndexedEventLogs[] = [];
+  let pending: Transaction[] = [];
+
+  const router = newAddress('router');
+  const factory = newAddress('factory');
+  const vVET = newAddress('vVET');
+  const kinds = new Map<string, ContractKind>([[router, 'router'], [factory, 'factory'], [vVET, 'vVET']]);
+
+  /**
+   * Create the header of a block
+   */
+  const createBlock = (number: number, parentID: string, timestamp: number, transactions: string[]): CompressedBlockDetail => {
+    const hash = Blake2b256.of(Txt.of(`${name}:${parentID}:${number}`).bytes).toString().slice(2);
+    const id = `0x${number.toString(16).padStart(8, '0')}${hash.slice(8, number === 0 ? 62 : 64)}${number === 0 ? chainTag.toString(16).padStart(2, '0') : ''}`;
+    return {
+      id,
+      number,
+      size: 0,
+      parentID,
+      timestamp,
+      gasLimit: 40_000_000,
+      beneficiary: ZERO_ADDRESS,
+      gasUsed: 0,
+      totalScore: number,
+      txsRoot: `0x${'0'.repeat(64)}`,
+      txsFeatures: 1,
+      stateRoot: `0x${'0'.repeat(64)}`,
+      receiptsRoot: `0x${'0'.repeat(64)}`,
+      com: true,
+      signer: ZERO_ADDRESS,
+      isTrunk: true,
+      isFinalized: false,
+      transactions
+    };
+  };
+
+  blocks.push(createBlock(0, `0xffffffff${'0'.repeat(56)}`, options.startTimestamp ?? DEFAULT_START_TIMESTAMP, []));
+  const head = () => blocks[blocks.length - 1];
+  const blockRefOf = (block: CompressedBlockDetail) => block.id.slice(0, 18);
+
+  // ----- State helpers -----
+
+  const fail = (reason: string): never => {
+    throw new Error(reason);
+  };
+
+  const requireThat = (condition: boolean, reason: string) => {
+    if (!condition) {
+      fail(reason);
+    }
+  };
+
+  const getVet = (address: string) => world.vet.get(key(address)) || 0n;
+
+  const getToken = (token: string): TokenState => world.tokens.get(key(token)) || fail(`Unknown token ${token}`);
+
+  const tokenBalance = (token: string, owner: string) => getToken(token).balances.get(key(owner)) || 0n;
+
+  const getPoolState = (pool: string): PoolState => world.pools.get(key(pool)) || fail(`Unknown pool ${pool}`);
+
+  const findPool = (tokenA: string, tokenB: string): string | undefined => {
+    const [token0, token1] = [key(tokenA), key(tokenB)].sort();
+    return world.poolOrder.find(pool => world.pools.get(pool)!.token0 === token0 && world.pools.get(pool)!.token1 === token1);
+  };
+
+  const emit = (frame: ClauseFrame, address: string, contract: ABIContract<ContractAbi>, eventName: string, values: unknown[]) => {
+    const event = contract.getEvent(eventName);
+    const inputs = (event.signature as EventSignature).inputs;
+    const topics = event.encodeFilterTopics(values.filter((_, i) => inputs[i].indexed)) as string[];
+    frame.events.push({
+      address: Address.of(address).toString(),
+      topics: topics.map(topic => String(topic)),
+      data: ABI.of(inputs.filter(input => !input.indexed), values.filter((_, i) => !inputs[i].indexed)).toHex().toString()
+    });
+  };
+
+  const moveVet = (frame: ClauseFrame, from: string, to: string, amount: bigint) => {
+    if (amount === 0n) {
+      return;
+    }
+    requireThat(getVet(from) >= amount, 'insufficient balance for transfer');
+    world.vet.set(key(from), getVet(from) - amount);
+    world.vet.set(key(to), getVet(to) + amount);
+    frame.transfers.push({ sender: Address.of(from).toString(), recipient: Address.of(to).toString(), amount: `0x${amount.toString(16)}` });
+  };
+
+  const tokenEvents = (token: string) => key(token) === vVET ? EVENTS.vVET : world.pools.has(key(token)) ? EVENTS.pool : EVENTS.token;
+
+  const mintTokens = (frame: ClauseFrame, token: string, to: string, amount: bigint) => {
+    const state = getToken(token);
+    state.totalSupply += amount;
+    state.balances.set(key(to), tokenBalance(token, to) + amount);
+    emit(frame, token, tokenEvents(token), 'Transfer', [ZERO_ADDRESS, to, amount]);
+  };
+
+  const burnTokens = (frame: ClauseFrame, token: string, from: string, amount: bigint) => {
+    const state = getToken(token);
+    requireThat(tokenBalance(token, from) >= amount, 'ERC20: burn amount exceeds balance');
+    state.totalSupply -= amount;
+    state.balances.set(key(from), tokenBalance(token, from) - amount);
+    emit(frame, token, tokenEvents(token), 'Transfer', [from, ZERO_ADDRESS, amount]);
+  };
+
+  /**
+   * Move tokens, burning the transfer fee of fee-on-transfer tokens
+   */
+  const moveTokens = (frame: ClauseFrame, token: string, from: string, to: string, amount: bigint) => {
+    const state = getToken(token);
+    requireThat(tokenBalance(token, from) >= amount, 'ERC20: transfer amount exceeds balance');
+    const fee = amount * state.transferFeeBps / 10000n;
+    state.balances.set(key(from), tokenBalance(token, from) - amount);
+    state.balances.set(key(to), tokenBalance(token, to) + amount - fee);
+    state.totalSupply -= fee;
+    emit(frame, token, tokenEvents(token), 'Transfer', [from, to, amount - fee]);
+  };
+
+  const allowanceOf = (token: string, owner: string, spender: string) =>
+    getToken(token).allowances.get(`${key(owner)}:${key(spender)}`) || 0n;
+
+  const approveTokens = (frame: ClauseFrame, token: string, owner: string, spender: string, amount: bigint) => {
+    getToken(token).allowances.set(`${key(owner)}:${key(spender)}`, amount);
+    emit(frame, token, tokenEvents(token), 'Approval', [owner, spender, amount]);
+  };
+
+  const transferFrom = (frame: ClauseFrame, token: string, spender: string, from: string, to: string, amount: bigint) => {
+    if (key(spender) !== key(from)) {
+      const allowance = allowanceOf(token, from, spender);
+      requireThat(allowance >= amount, 'ERC20: insufficient allowance');
+      if (allowance !== MAX_UINT256) {
+        getToken(token).allowances.set(`${key(from)}:${key(spender)}`, allowance - amount);
+      }
+    }
+    moveTokens(frame, token, from, to, amount);
+  };
+
+  const registerToken = (address: string, token: Partial<TokenState> & { symbol: string }) => {
+    world.tokens.set(key(address), {
+      name: token.name || token.symbol,
+      symbol: token.symbol,
+      decimals: token.decimals ?? 18,
+      totalSupply: 0n,
+      transferFeeBps: token.transferFeeBps ?? 0n,
+      balances: new Map(),
+      allowances: new Map()
+    });
+    kinds.set(key(address), key(address) === vVET ? 'vVET' : 'token');
+  };
+
+  registerToken(VTHO_ADDRESS, { name: 'VeThor', symbol: 'VTHO' });
+  registerToken(vVET, { name: 'Wrapped VET', symbol: 'VVET' });
+
+  // ----- vVET -----
+
+  const deposit = (frame: ClauseFrame, account: string, amount: bigint) => {
+    const state = getToken(vVET);
+    state.totalSupply += amount;
+    state.balances.set(key(account), tokenBalance(vVET, account) + amount);
+    emit(frame, vVET, EVENTS.vVET, 'Deposit', [account, amount]);
+  };
+
+  const withdraw = (frame: ClauseFrame, account: string, amount: bigint) => {
+    const state = getToken(vVET);
+    requireThat(tokenBalance(vVET, account) >= amount, 'VVET: insufficient balance');
+    state.totalSupply -= amount;
+    state.balances.set(key(account), tokenBalance(vVET, account) - amount);
+    emit(frame, vVET, EVENTS.vVET, 'Withdrawal', [account, amount]);
+    moveVet(frame, vVET, account, amount);
+  };
+
+  // ----- Pools (UniswapV2Pair) -----
+
+  const createPool = (frame: ClauseFrame, tokenA: string, tokenB: string): string => {
+    requireThat(key(tokenA) !== key(tokenB), 'UniswapV2: IDENTICAL_ADDRESSES');
+    const [token0, token1] = [key(tokenA), key(tokenB)].sort();
+    requireThat(token0 !== ZERO_ADDRESS, 'UniswapV2: ZERO_ADDRESS');
+    requireThat(!findPool(token0, token1), 'UniswapV2: PAIR_EXISTS');
+    getToken(token0);
+    getToken(token1);
+
+    const pool = newAddress('pool');
+    registerToken(pool, { name: 'Uniswap V2', symbol: 'UNI-V2' });
+    kinds.set(pool, 'pool');
+    world.pools.set(pool, { token0, token1, reserve0: 0n, reserve1: 0n, blockTimestampLast: 0, price0CumulativeLast: 0n, price1CumulativeLast: 0n });
+    world.poolOrder.push(pool);
+    emit(frame, factory, EVENTS.factory, 'PairCreated', [token0, token1, pool, BigInt(world.poolOrder.length)]);
+    return pool;
+  };
+
+  const updatePool = (frame: ClauseFrame, pool: string, timestamp: number) => {
+    const state = getPoolState(pool);
+    const elapsed = BigInt(timestamp - state.blockTimestampLast);
+    if (elapsed > 0n && state.reserve0 > 0n && state.reserve1 > 0n) {
+      state.price0CumulativeLast += ((state.reserve1 << 112n) / state.reserve0) * elapsed;
+      state.price1CumulativeLast += ((state.reserve0 << 112n) / state.reserve1) * elapsed;
+    }
+    state.reserve0 = tokenBalance(state.token0, pool);
+    state.reserve1 = tokenBalance(state.token1, pool);
+    state.blockTimestampLast = timestamp;
+    emit(frame, pool, EVENTS.pool, 'Sync', [state.reserve0, state.reserve1]);
+  };
+
+  const poolMint = (frame: ClauseFrame, pool: string, sender: string, to: string, timestamp: number): bigint => {
+    const state = getPoolState(pool);
+    const amount0 = tokenBalance(state.token0, pool) - state.reserve0;
+    const amount1 = tokenBalance(state.token1, pool) - state.reserve1;
+    const totalSupply = getToken(pool).totalSupply;
+
+    let liquidity: bigint;
+    if (totalSupply === 0n) {
+      liquidity = sqrt(amount0 * amount1) - MINIMUM_LIQUIDITY;
+      mintTokens(frame, pool, ZERO_ADDRESS, MINIMUM_LIQUIDITY);
+    } else {
+      const liquidity0 = amount0 * totalSupply / state.reserve0;
+      const liquidity1 = amount1 * totalSupply / state.reserve1;
+      liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+    }
+    requireThat(liquidity > 0n, 'UniswapV2: INSUFFICIENT_LIQUIDITY_MINTED');
+    mintTokens(frame, pool, to, liquidity);
+    updatePool(frame, pool, timestamp);
+    emit(frame, pool, EVENTS.pool, 'Mint', [sender, amount0, amount1]);
+    return liquidity;
+  };
+
+  const poolSwap = (frame: ClauseFrame, pool: string, sender: string, amount0Out: bigint, amount1Out: bigint, to: string, timestamp: number) => {
+    const state = getPoolState(pool);
+    requireThat(amount0Out > 0n || amount1Out > 0n, 'UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT');
+    requireThat(amount0Out < state.reserve0 && amount1Out < state.reserve1, 'UniswapV2: INSUFFICIENT_LIQUIDITY');
+    requireThat(key(to) !== state.token0 && key(to) !== state.token1, 'UniswapV2: INVALID_TO');
+
+    if (amount0Out > 0n) {
+      moveTokens(frame, state.token0, pool, to, amount0Out);
+    }
+    if (amount1Out > 0n) {
+      moveTokens(frame, state.token1, pool, to, amount1Out);
+    }
+    const balance0 = tokenBalance(state.token0, pool);
+    const balance1 = tokenBalance(state.token1, pool);
+    const amount0In = balance0 > state.reserve0 - amount0Out ? balance0 - (state.reserve0 - amount0Out) : 0n;
+    const amount1In = balance1 > state.reserve1 - amount1Out ? balance1 - (state.reserve1 - amount1Out) : 0n;
+    requireThat(amount0In > 0n || amount1In > 0n, 'UniswapV2: INSUFFICIENT_INPUT_AMOUNT');
+
+    const balance0Adjusted = balance0 * 1000n - amount0In * 3n;
+    const balance1Adjusted = balance1 * 1000n - amount1In * 3n;
+    requireThat(balance0Adjusted * balance1Adjusted >= state.reserve0 * state.reserve1 * 1000n ** 2n, 'UniswapV2: K');
+
+    updatePool(frame, pool, timestamp);
+    emit(frame, pool, EVENTS.pool, 'Swap', [sender, amount0In, amount1In, amount0Out, amount1Out, to]);
+  };
+
+  // ----- Router (UniswapV2Router02 / UniswapV2Library) -----
+
+  const pairFor = (tokenA: string, tokenB: string): string => findPool(tokenA, tokenB) || fail('UniswapV2Library: PAIR_NOT_FOUND');
+
+  const reservesFor = (tokenA: string, tokenB: string): [bigint, bigint] => {
+    const state = getPoolState(pairFor(tokenA, tokenB));
+    return key(tokenA) === state.token0 ? [state.reserve0, state.reserve1] : [state.reserve1, state.reserve0];
+  };
+
+  const quoteOut = (amountIn: bigint, reserveIn: bigint, reserveOut: bigint) => {
+    requireThat(amountIn > 0n, 'UniswapV2Library: INSUFFICIENT_INPUT_AMOUNT');
+    requireThat(reserveIn > 0n && reserveOut > 0n, 'UniswapV2Library: INSUFFICIENT_LIQUIDITY');
+    return getAmountOut(amountIn, reserveIn, reserveOut);
+  };
+
+  const quoteIn = (amountOut: bigint, reserveIn: bigint, reserveOut: bigint) => {
+    requireThat(amountOut > 0n, 'UniswapV2Library: INSUFFICIENT_OUTPUT_AMOUNT');
+    requireThat(reserveIn > 0n && reserveOut > amountOut, 'UniswapV2Library: INSUFFICIENT_LIQUIDITY');
+    return getAmountIn(amountOut, reserveIn, reserveOut);
+  };
+
+  const amountsOut = (amountIn: bigint, path: string[]): bigint[] => {
+    requireThat(path.length >= 2, 'UniswapV2Library: INVALID_PATH');
+    const amounts = [amountIn];
+    for (let i = 0; i < path.length - 1; i++) {
+      const [reserveIn, reserveOut] = reservesFor(path[i], path[i + 1]);
+      amounts.push(quoteOut(amounts[i], reserveIn, reserveOut));
+    }
+    return amounts;
+  };
+
+  const amountsIn = (amountOut: bigint, path: string[]): bigint[] => {
+    requireThat(path.length >= 2, 'UniswapV2Library: INVALID_PATH');
+    const amounts = [amountOut];
+    for (let i = path.length - 1; i > 0; i--) {
+      const [reserveIn, reserveOut] = reservesFor(path[i - 1], path[i]);
+      amounts.unshift(quoteIn(amounts[0], reserveIn, reserveOut));
+    }
+    return amounts;
+  };
+
+  const swapPath = (frame: ClauseFrame, amounts: bigint[], path: string[], to: string, timestamp: number) => {
+    for (let i = 0; i < path.length - 1; i++) {
+      const state = getPoolState(pairFor(path[i], path[i + 1]));
+      const amountOut = amounts[i + 1];
+      const [amount0Out, amount1Out] = key(path[i]) === state.token0 ? [0n, amountOut] : [amountOut, 0n];
+      const recipient = i < path.length - 2 ? pairFor(path[i + 1], path[i + 2]) : to;
+      poolSwap(frame, pairFor(path[i], path[i + 1]), router, amount0Out, amount1Out, recipient, timestamp);
+    }
+  };
+
+  const swapPathSupportingFee = (frame: ClauseFrame, path: string[], to: string, timestamp: number) => {
+    for (let i = 0; i < path.length - 1; i++) {
+      const pool = pairFor(path[i], path[i + 1]);
+      const state = getPoolState(pool);
+      const [reserveIn, reserveOut] = reservesFor(path[i], path[i + 1]);
+      const amountInput = tokenBalance(path[i], pool) - reserveIn;
+      const amountOutput = quoteOut(amountInput, reserveIn, reserveOut);
+      const [amount0Out, amount1Out] = key(path[i]) === state.token0 ? [0n, amountOutput] : [amountOutput, 0n];
+      const recipient = i < path.length - 2 ? pairFor(path[i + 1], path[i + 2]) : to;
+      poolSwap(frame, pool, router, amount0Out, amount1Out, recipient, timestamp);
+    }
+  };
+
+  const addLiquidityAmounts = (tokenA: string, tokenB: string, desiredA: bigint, desiredB: bigint, minA: bigint, minB: bigint): [bigint, bigint] => {
+    const [reserveA, reserveB] = reservesFor(tokenA, tokenB);
+    if (reserveA === 0n && reserveB === 0n) {
+      return [desiredA, desiredB];
+    }
+    const optimalB = desiredA * reserveB / reserveA;
+    if (optimalB <= desiredB) {
+      requireThat(optimalB >= minB, 'UniswapV2Router: INSUFFICIENT_B_AMOUNT');
+      return [desiredA, optimalB];
+    }
+    const optimalA = desiredB * reserveA / reserveB;
+    requireThat(optimalA <= desiredA && optimalA >= minA, 'UniswapV2Router: INSUFFICIENT_A_AMOUNT');
+    return [optimalA, desiredB];
+  };
+
+  /**
+   * Execute a router function
+   */
+  const callRouter = (frame: ClauseFrame, caller: string, value: bigint, fn: string, args: unknown[], timestamp: number): unknown[] => {
+    const ensure = (deadline: bigint) => requireThat(deadline >= BigInt(timestamp), 'UniswapV2Router: EXPIRED');
+    const lastIsVVET = (path: string[]) => requireThat(key(path[path.length - 1]) === vVET, 'UniswapV2Router: INVALID_PATH');
+    const firstIsVVET = (path: string[]) => requireThat(key(path[0]) === vVET, 'UniswapV2Router: INVALID_PATH');
+
+    switch (fn) {
+      case 'WETH':
+        return [vVET];
+      case 'factory':
+        return [factory];
+      case 'quote': {
+        const [amountA, reserveA, reserveB] = args as [bigint, bigint, bigint];
+        requireThat(amountA > 0n, 'UniswapV2Library: INSUFFICIENT_AMOUNT');
+        requireThat(reserveA > 0n && reserveB > 0n, 'UniswapV2Library: INSUFFICIENT_LIQUIDITY');
+        return [amountA * reserveB / reserveA];
+      }
+      case 'getAmountOut':
+        return [quoteOut(...(args as [bigint, bigint, bigint]))];
+      case 'getAmountIn':
+        return [quoteIn(...(args as [bigint, bigint, bigint]))];
+      case 'getAmountsOut':
+        return [amountsOut(...(args as [bigint, string[]]))];
+      case 'getAmountsIn':
+        return [amountsIn(...(args as [bigint, string[]]))];
+
+      case 'swapExactTokensForTokens': {
+        const [amountIn, amountOutMin, path, to, deadline] = args as SwapArgs;
+        ensure(deadline);
+        const amounts = amountsOut(amountIn, path);
+        requireThat(amounts[amounts.length - 1] >= amountOutMin, 'UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+        transferFrom(frame, path[0], router, caller, pairFor(path[0], path[1]), amounts[0]);
+        swapPath(frame, amounts, path, to, timestamp);
+        return [amounts];
+      }
+      case 'swapTokensForExactTokens': {
+        const [amountOut, amountInMax, path, to, deadline] = args as SwapArgs;
+        ensure(deadline);
+        const amounts = amountsIn(amountOut, path);
+        requireThat(amounts[0] <= amountInMax, 'UniswapV2Router: EXCESSIVE_INPUT_AMOUNT');
+        transferFrom(frame, path[0], router, caller, pairFor(path[0], path[1]), amounts[0]);
+        swapPath(frame, amounts, path, to, timestamp);
+        return [amounts];
+      }
+      case 'swapExactETHForTokens': {
+        const [amountOutMin, path, to, deadline] = args as SwapETHArgs;
+        ensure(deadline);
+        firstIsVVET(path);
+        const amounts = amountsOut(value, path);
+        requireThat(amounts[amounts.length - 1] >= amountOutMin, 'UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+        moveVet(frame, router, vVET, amounts[0]);
+        deposit(frame, router, amounts[0]);
+        moveTokens(frame, vVET, router, pairFor(path[0], path[1]), amounts[0]);
+        swapPath(frame, amounts, path, to, timestamp);
+        return [amounts];
+      }
+      case 'swapTokensForExactETH': {
+        const [amountOut, amountInMax, path, to, deadline] = args as SwapArgs;
+        ensure(deadline);
+        lastIsVVET(path);
+        const amounts = amountsIn(amountOut, path);
+        requireThat(amounts[0] <= amountInMax, 'UniswapV2Router: EXCESSIVE_INPUT_AMOUNT');
+        transferFrom(frame, path[0], router, caller, pairFor(path[0], path[1]), amounts[0]);
+        swapPath(frame, amounts, path, router, timestamp);
+        withdraw(frame, router, amounts[amounts.length - 1]);
+        moveVet(frame, router, to, amounts[amounts.length - 1]);
+        return [amounts];
+      }
+      case 'swapExactTokensForETH': {
+        const [amountIn, amountOutMin, path, to, deadline] = args as SwapArgs;
+        ensure(deadline);
+        lastIsVVET(path);
+        const amounts = amountsOut(amountIn, path);
+        requireThat(amounts[amounts.length - 1] >= amountOutMin, 'UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+        transferFrom(frame, path[0], router, caller, pairFor(path[0], path[1]), amounts[0]);
+        swapPath(frame, amounts, path, router, timestamp);
+        withdraw(frame, router, amounts[amounts.length - 1]);
+        moveVet(frame, router, to, amounts[amounts.length - 1]);
+        return [amounts];
+      }
+      case 'swapETHForExactTokens': {
+        const [amountOut, path, to, deadline] = args as SwapETHArgs;
+        ensure(deadline);
+        firstIsVVET(path);
+        const amounts = amountsIn(amountOut, path);
+        requireThat(amounts[0] <= value, 'UniswapV2Router: EXCESSIVE_INPUT_AMOUNT');
+        moveVet(frame, router, vVET, amounts[0]);
+        deposit(frame, router, amounts[0]);
+        moveTokens(frame, vVET, router, pairFor(path[0], path[1]), amounts[0]);
+        swapPath(frame, amounts, path, to, timestamp);
+        moveVet(frame, router, caller, value - amounts[0]);
+        return [amounts];
+      }
+      case 'swapExactTokensForTokensSupportingFeeOnTransferTokens': {
+        const [amountIn, amountOutMin, path, to, deadline] = args as SwapArgs;
+        ensure(deadline);
+        transferFrom(frame, path[0], router, caller, pairFor(path[0], path[1]), amountIn);
+        const before = tokenBalance(path[path.length - 1], to);
+        swapPathSupportingFee(frame, path, to, timestamp);
+        requireThat(tokenBalance(path[path.length - 1], to) - before >= amountOutMin, 'UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+        return [];
+      }
+      case 'swapExactETHForTokensSupportingFeeOnTransferTokens': {
+        const [amountOutMin, path, to, deadline] = args as SwapETHArgs;
+        ensure(deadline);
+        firstIsVVET(path);
+        moveVet(frame, router, vVET, value);
+        deposit(frame, router, value);
+        moveTokens(frame, vVET, router, pairFor(path[0], path[1]), value);
+        const before = tokenBalance(path[path.length - 1], to);
+        swapPathSupportingFee(frame, path, to, timestamp);
+        requireThat(tokenBalance(path[path.length - 1], to) - before >= amountOutMin, 'UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+        return [];
+      }
+      case 'swapExactTokensForETHSupportingFeeOnTransferTokens': {
+        const [amountIn, amountOutMin, path, to, deadline] = args as SwapArgs;
+        ensure(deadline);
+        lastIsVVET(path);
+        transferFrom(frame, path[0], router, caller, pairFor(path[0], path[1]), amountIn);
+        swapPathSupportingFee(frame, path, router, timestamp);
+        const amountOut = tokenBalance(vVET, router);
+        requireThat(amountOut >= amountOutMin, 'UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+        withdraw(frame, router, amountOut);
+        moveVet(frame, router, to, amountOut);
+        return [];
+      }
+
+      case 'addLiquidity': {
+        const [tokenA, tokenB, desiredA, desiredB, minA, minB, to, deadline] = args as [string, string, bigint, bigint, bigint, bigint, string, bigint];
+        ensure(deadline);
+        if (!findPool(tokenA, tokenB)) {
+          createPool(frame, tokenA, tokenB);
+        }
+        const [amountA, amountB] = addLiquidityAmounts(tokenA, tokenB, desiredA, desiredB, minA, minB);
+        const pool = pairFor(tokenA, tokenB);
+        transferFrom(frame, tokenA, router, caller, pool, amountA);
+        transferFrom(frame, tokenB, router, caller, pool, amountB);
+        return [amountA, amountB, poolMint(frame, pool, router, to, timestamp)];
+      }
+      case 'addLiquidityETH': {
+        const [token, desiredToken, minToken, minETH, to, deadline] = args as [string, bigint, bigint, bigint, string, bigint];
+        ensure(deadline);
+        if (!findPool(token, vVET)) {
+          createPool(frame, token, vVET);
+        }
+        const [amountToken, amountETH] = addLiquidityAmounts(token, vVET, desiredToken, value, minToken, minETH);
+        const pool = pairFor(token, vVET);
+        transferFrom(frame, token, router, caller, pool, amountToken);
+        moveVet(frame, router, vVET, amountETH);
+        deposit(frame, router, amountETH);
+        moveTokens(frame, vVET, router, pool, amountETH);
+        const liquidity = poolMint(frame, pool, router, to, timestamp);
+        moveVet(frame, router, caller, value - amountETH);
+        return [amountToken, amountETH, liquidity];
+      }
+      default:
+        return fail(`Router function ${fn} is not supported by the simulator`);
+    }
+  };
+
+  /**
+   * Execute a factory function
+   */
+  const callFactory = (frame: ClauseFrame, fn: string, args: unknown[]): unknown[] => {
+    switch (fn) {
+      case 'WETH':
+        return [vVET];
+      case 'getPair':
+        return [findPool(...(args as [string, string])) || ZERO_ADDRESS];
+      case 'allPairs':
+        return [world.poolOrder[Number(args[0])] || fail('Pair index out of range')];
+      case 'allPairsLength':
+        return [BigInt(world.poolOrder.length)];
+      case 'createPair':
+        return [createPool(frame, ...(args as [string, string]))];
+      case 'feeTo':
+      case 'feeToSetter':
+        return [ZERO_ADDRESS];
+      default:
+        return fail(`Factory function ${fn} is not supported by the simulator`);
+    }
+  };
+
+  /**
+   * Execute a pool function (pools are also ERC20 LP tokens)
+   */
+  const callPool = (frame: ClauseFrame, pool: string, caller: string, fn: string, args: unknown[], timestamp: number): unknown[] => {
+    const state = getPoolState(pool);
+    switch (fn) {
+      case 'getReserves':
+        return [state.reserve0, state.reserve1, state.blockTimestampLast];
+      case 'token0':
+        return [state.token0];
+      case 'token1':
+        return [state.token1];
+      case 'factory':
+        return [factory];
+      case 'WETH':
+        return [vVET];
+      case 'price0CumulativeLast':
+        return [state.price0CumulativeLast];
+      case 'price1CumulativeLast':
+        return [state.price1CumulativeLast];
+      case 'kLast':
+        return [0n];
+      case 'MINIMUM_LIQUIDITY':
+        return [MINIMUM_LIQUIDITY];
+      case 'swap':
+        poolSwap(frame, pool, caller, ...(args as [bigint, bigint, string]), timestamp);
+        return [];
+      case 'sync':
+        updatePool(frame, pool, timestamp);
+        return [];
+      case 'mint':
+        return [poolMint(frame, pool, caller, args[0] as string, timestamp)];
+      default:
+        return callToken(frame, pool, caller, fn, args);
+    }
+  };
+
+  /**
+   * Execute an ERC20 (or vVET) function
+   */
+  const callToken = (frame: ClauseFrame, token: string, caller: string, fn: string, args: unknown[]): unknown[] => {
+    const state = getToken(token);
+    switch (fn) {
+      case 'name':
+        return [state.name];
+      case 'symbol':
+        return [state.symbol];
+      case 'decimals':
+        return [state.decimals];
+      case 'totalSupply':
+        return [state.totalSupply];
+      case 'balanceOf':
+        return [tokenBalance(token, args[0] as string)];
+      case 'allowance':
+        return [allowanceOf(token, ...(args as [string, string]))];
+      case 'approve':
+        approveTokens(frame, token, caller, ...(args as [string, bigint]));
+        return [true];
+      case 'transfer':
+        moveTokens(frame, token, caller, ...(args as [string, bigint]));
+        return [true];
+      case 'transferFrom':
+        transferFrom(frame, token, caller, ...(args as [string, string, bigint]));
+        return [true];
+      default:
+        return fail(`Token function ${fn} is not supported by the simulator`);
+    }
+  };
+
+  /**
+   * Decode the function called by a clause on a simulated contract
+   */
+  const decodeClause = (clause: ClauseInput) => {
+    const kind = clause.to ? kinds.get(key(clause.to)) : undefined;
+    if (!kind || clause.data === '0x' || clause.data === '') {
+      return undefined;
+    }
+    const fn = FUNCTIONS[kind].get(clause.data.slice(0, 10).toLowerCase())
+      || fail(`Unknown function selector ${clause.data.slice(0, 10)} for the simulated ${kind}`);
+    const args: unknown[] = [...(fn.decodeData(Hex.of(clause.data)).args || [])];
+    const path = args.find((arg): arg is string[] => Array.isArray(arg));
+    return { kind, fn, functionName: fn.signature.name, args, hops: path ? path.length - 1 : 0 };
+  };
+
+  /**
+   * Execute one clause, returning its ABI-encoded output
+   */
+  const executeClause = (frame: ClauseFrame, clause: ClauseInput, caller: string, timestamp: number): string => {
+    requireThat(clause.to !== null, 'Contract deployment is not supported by the simulator');
+    const to = key(clause.to!);
+    if (clause.value > 0n) {
+      moveVet(frame, caller, to, clause.value);
+    }
+
+    const kind = kinds.get(to);
+    const call = decodeClause(clause);
+    if (!call) {
+      // vVET wraps plain VET transfers, like WETH's receive()
+      if (kind === 'vVET') {
+        deposit(frame, caller, clause.value);
+      }
+      return '0x';
+    }
+    const { fn, functionName, args } = call;
+
+    let output: unknown[];
+    if (kind === 'router') {
+      output = callRouter(frame, caller, clause.value, functionName, args, timestamp);
+    } else if (kind === 'factory') {
+      output = callFactory(frame, functionName, args);
+    } else if (kind === 'pool') {
+      output = callPool(frame, to, caller, functionName, args, timestamp);
+    } else if (kind === 'vVET' && functionName === 'deposit') {
+      deposit(frame, caller, clause.value);
+      output = [];
+    } else if (kind === 'vVET' && functionName === 'withdraw') {
+      withdraw(frame, caller, args[0] as bigint);
+      output = [];
+    } else {
+      output = callToken(frame, to, caller, functionName, args);
+    }
+
+    const outputs = (fn.signature as FunctionSignature).outputs;
+    return outputs.length > 0 ? ABI.of([...outputs], output).toHex().toString() : '0x';
+  };
+
+  /**
+   * Gas used by a clause: intrinsic gas, calldata gas and a per-function execution cost
+   */
+  const clauseGas = (clause: ClauseInput): number => {
+    const bytes = Hex.of(clause.data || '0x').bytes;
+    const dataGas = bytes.reduce((sum, byte) => sum + (byte === 0 ? 4 : 68), 0);
+    let call: ReturnType<typeof decodeClause>;
+    try {
+      call = decodeClause(clause);
+    } catch {
+      call = undefined;
+    }
+    const execution = !call
+      ? 0
+      : call.functionName.startsWith('swap') && call.hops > 0
+        ? SWAP_GAS + SWAP_HOP_GAS * call.hops
+        : EXECUTION_GAS[call.functionName] ?? DEFAULT_EXECUTION_GAS;
+    return CLAUSE_GAS + dataGas + execution;
+  };
+
+  const toClauseInput = (clause: TransactionClause): ClauseInput => ({
+    to: clause.to,
+    value: BigInt(clause.value || 0),
+    data: String(clause.data || '0x')
+  });
+
+  /**
+   * Execute the clauses of a transaction; on revert every state change of the transaction is rolled back
+   */
+  const execute = (clauses: TransactionClause[], caller: string, timestamp: number): ExecutionResult => {
+    const backup = structuredClone(world);
+    const results: TransactionSimulationResult[] = [];
+    let gasUsed = TX_GAS;
+
+    for (const transactionClause of clauses) {
+      const clause = toClauseInput(transactionClause);
+      const gas = clauseGas(clause);
+      gasUsed += gas;
+      const frame: ClauseFrame = { events: [], transfers: [] };
+      try {
+        const data = executeClause(frame, clause, caller, timestamp);
+        results.push({ data, events: frame.events, transfers: frame.transfers, gasUsed: gas, reverted: false, vmError: '' });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        results.push({ data: encodeRevertReason(reason), events: [], transfers: [], gasUsed: gas, reverted: true, vmError: 'execution reverted' });
+        world = backup;
+        return { results, reverted: true, revertReason: reason, gasUsed };
+      }
+    }
+    return { results, reverted: false, gasUsed };
+  };
+
+  /**
+   * Execute clauses without keeping their effects
+   */
+  const dryRun = (clauses: TransactionClause[], caller: string): ExecutionResult => {
+    const backup = structuredClone(world);
+    try {
+      return execute(clauses, caller, head().timestamp + blockInterval);
+    } finally {
+      world = backup;
+    }
+  };
+
+  const transactionFee = (gasUsed: number, body: TransactionBody) =>
+    BigInt(gasUsed) * BASE_GAS_PRICE * (255n + BigInt(body.gasPriceCoef ?? 0)) / 255n;
+
+  const blockNumberOfRef = (blockRef: string) => parseInt(blockRef.slice(2, 10), 16);
+
+  const isExpired = (tx: Transaction, blockNumber: number) =>
+    blockNumber > blockNumberOfRef(tx.body.blockRef) + tx.body.expiration;
+
+  /**
+   * Produce blocks, including the pending transactions that are still valid
+   */
+  const mine = (count: number = 1): CompressedBlockDetail[] => {
+    const mined: CompressedBlockDetail[] = [];
+    for (let i = 0; i < count; i++) {
+      const parent = head();
+      const number = parent.number + 1;
+      const timestamp = parent.timestamp + blockInterval;
+      const included: Transaction[] = [];
+      const waiting: Transaction[] = [];
+      for (const tx of pending) {
+        const dependsOn = tx.body.dependsOn?.toLowerCase();
+        const dependency = dependsOn ? receipts.get(dependsOn) : undefined;
+        if (isExpired(tx, number) || dependency?.reverted) {
+          continue;
+        }
+        (dependsOn && !dependency ? waiting : included).push(tx);
+      }
+      pending = waiting;
+
+      const block = createBlock(number, parent.id, timestamp, included.map(tx => tx.id.toString()));
+      blocks.push(block);
+      included.forEach((tx, txIndex) => includeTransaction(tx, block, txIndex));
+      mined.push(block);
+    }
+    return mined;
+  };
+
+  /**
+   * Execute a transaction in a block and record its receipt and logs
+   */
+  const includeTransaction = (tx: Transaction, block: CompressedBlockDetail, txIndex: number) => {
+    const txID = tx.id.toString();
+    const origin = tx.origin.toString();
+    const gasPayer = tx.isDelegated ? tx.gasPayer.toString() : origin;
+    const result = execute(tx.body.clauses, origin, block.timestamp);
+    const paid = chargeGas ? transactionFee(result.gasUsed, tx.body) : 0n;
+    if (paid > 0n) {
+      const vtho = getToken(VTHO_ADDRESS);
+      const charged = paid < tokenBalance(VTHO_ADDRESS, gasPayer) ? paid : tokenBalance(VTHO_ADDRESS, gasPayer);
+      vtho.balances.set(key(gasPayer), tokenBalance(VTHO_ADDRESS, gasPayer) - charged);
+      vtho.totalSupply -= charged;
+    }
+    block.gasUsed += result.gasUsed;
+
+    const meta = { blockID: block.id, blockNumber: block.number, blockTimestamp: block.timestamp, txID, txOrigin: origin };
+    const outputs = result.reverted
+      ? []
+      : result.results.map(clause => ({ contractAddress: null as unknown as string, events: clause.events, transfers: clause.transfers }));
+    receipts.set(txID.toLowerCase(), {
+      gasUsed: result.gasUsed,
+      gasPayer,
+      paid: `0x${paid.toString(16)}`,
+      reward: `0x${(paid * 3n / 10n).toString(16)}`,
+      reverted: result.reverted,
+      outputs,
+      meta
+    });
+    if (result.revertReason) {
+      revertReasons.set(txID.toLowerCase(), result.revertReason);
+    }
+    // The node numbers logs across the whole block
+    let logIndex = logs.filter(log => log.meta.blockID === block.id).length;
+    outputs.forEach((output, clauseIndex) => output.events.forEach(event => {
+      logs.push({ ...event, meta: { ...meta, clauseIndex, txIndex, logIndex: logIndex++ } });
+    }));
+  };
+
+  const findBlock = (revision: string | number): CompressedBlockDetail | null => {
+    if (revision === 'best') {
+      return head();
+    }
+    if (revision === 'finalized') {
+      return blocks[0];
+    }
+    if (typeof revision === 'number' || /^\d+$/.test(revision)) {
+      return blocks[Number(revision)] || null;
+    }
+    return blocks.find(block => block.id.toLowerCase() === revision.toLowerCase()) || null;
+  };
+
+  const matchesCriteria = (log: EventLogs, criteriaSet?: FilterRawEventLogsOptions['criteriaSet']) =>
+    !criteriaSet || criteriaSet.length === 0 || criteriaSet.some(criteria =>
+      (!criteria.address || criteria.address.toLowerCase() === log.address.toLowerCase()) &&
+      [criteria.topic0, criteria.topic1, criteria.topic2, criteria.topic3, criteria.topic4]
+        .every((topic, i) => !topic || log.topics[i]?.toLowerCase() === topic.toLowerCase())
+    );
+
+  // ----- ThorClient look-alike -----
+
+  const transactions = {
+    simulateTransaction: async (clauses: TransactionClause[], options?: SimulateTransactionOptions): Promise<TransactionSimulationResult[]> =>
+      dryRun(clauses, options?.caller || ZERO_ADDRESS).results,
+
+    buildTransactionBody: async (clauses: TransactionClause[], gas: number, options?: TransactionBodyOptions): Promise<TransactionBody> => ({
+      chainTag: options?.chainTag ?? chainTag,
+      blockRef: options?.blockRef ?? blockRefOf(head()),
+      expiration: options?.expiration ?? 32,
+      clauses,
+      gasPriceCoef: options?.gasPriceCoef ?? 0,
+      gas,
+      dependsOn: options?.dependsOn ?? null,
+      nonce: options?.nonce ?? ++nonceCount,
+      ...(options?.isDelegated ? { reserved: { features: 1 } } : {})
+    }),
+
+    sendTransaction: async (signedTx: Transaction) => {
+      const id = signedTx.id.toString();
+      requireThat(signedTx.isSigned, 'bad tx: unsigned transaction');
+      requireThat(signedTx.body.chainTag === chainTag, 'bad tx: chain tag mismatch');
+      requireThat(!receipts.has(id.toLowerCase()) && !pending.some(tx => tx.id.toString() === id), 'tx rejected: known tx');
+      requireThat(!isExpired(signedTx, head().number + 1), 'tx rejected: expired');
+      if (chargeGas) {
+        const gasPayer = signedTx.isDelegated ? signedTx.gasPayer.toString() : signedTx.origin.toString();
+        requireThat(tokenBalance(VTHO_ADDRESS, gasPayer) >= transactionFee(Number(signedTx.body.gas), signedTx.body), 'tx rejected: insufficient energy');
+      }
+      pending.push(signedTx);
+      if (autoMine) {
+        mine();
+      }
+      return { id, wait: () => transactions.waitForTransaction(id) };
+    },
+
+    getTransactionReceipt: async (id: string): Promise<TransactionReceipt | null> => receipts.get(id.toLowerCase()) || null,
+
+    // Blocks are only produced by sendTransaction (auto-mine) or mine(), so there is nothing to wait for
+    waitForTransaction: async (id: string): Promise<TransactionReceipt | null> => receipts.get(id.toLowerCase()) || null
+  };
+
+  const contracts = {
+    // Contracts are only used to build clauses, which never reach the module passed here
+    load: <TAbi extends ContractAbi>(address: string, abi: TAbi) => new Contract<TAbi>(address, abi, contracts as unknown as ThorClient['contracts']),
+
+    executeMultipleClausesCall: async (clauses: ContractClause[], options?: SimulateTransactionOptions): Promise<ContractCallResult[]> => {
+      const results = await transactions.simulateTransaction(clauses.map(clause => clause.clause), options);
+      return clauses.map((clause, i) => {
+        const result = results[i];
+        if (!result || result.reverted) {
+          return { success: false, result: { errorMessage: result ? revertReasonOf(result) : 'Clause not executed' } };
+        }
+        const data = Hex.of(result.data);
+        return { success: true, result: { plain: clause.functionAbi.decodeResult(data), array: clause.functionAbi.decodeOutputAsArray(data) } };
+      });
+    }
+  };
+
+  const revertReasonOf = (result: TransactionSimulationResult): string =>
+    ABI.ofEncoded([{ type: 'string', name: '' }], `0x${result.data.slice(10)}`).getFirstDecodedValue<string>();
+
+  const thorClient: SimulatedThorClient = {
+    contracts,
+    transactions,
+    gas: {
+      estimateGas: async (clauses: TransactionClause[], caller?: string): Promise<EstimateGasResult> => {
+        // Without a caller the clauses cannot be executed meaningfully, so only the static cost is returned
+        const result = caller ? dryRun(clauses, caller) : undefined;
+        const totalGas = result?.gasUsed ?? clauses.reduce((sum, clause) => sum + clauseGas(toClauseInput(clause)), TX_GAS);
+        return result?.reverted
+          ? { totalGas, reverted: true, revertReasons: result.results.map(clause => clause.reverted ? revertReasonOf(clause) : ''), vmErrors: result.results.map(clause => clause.vmError) }
+          : { totalGas, reverted: false, revertReasons: [], vmErrors: [] };
+      }
+    },
+    accounts: {
+      getAccount: async (address: Address): Promise<AccountDetail> => new AccountDetail({
+        balance: `0x${getVet(address.toString()).toString(16)}`,
+        energy: `0x${tokenBalance(VTHO_ADDRESS, address.toString()).toString(16)}`,
+        hasCode: kinds.has(key(address.toString()))
+      })
+    },
+    blocks: {
+      getBestBlockCompressed: async (): Promise<CompressedBlockDetail | null> => head(),
+      getBlockCompressed: async (revision: string | number): Promise<CompressedBlockDetail | null> => findBlock(revision),
+      getGenesisBlock: async (): Promise<CompressedBlockDetail | null> => blocks[0],
+      getBestBlockRef: async (): Promise<string | null> => blockRefOf(head())
+    },
+    logs: {
+      filterRawEventLogs: async (filter: FilterRawEventLogsOptions): Promise<EventLogs[]> => {
+        const from = filter.range?.from ?? 0;
+        const to = filter.range?.to ?? head().number;
+        const matching = logs.filter(log => log.meta.blockNumber >= from && log.meta.blockNumber <= to && matchesCriteria(log, filter.criteriaSet));
+        const ordered = filter.order === 'desc' ? matching.reverse() : matching;
+        const offset = filter.options?.offset ?? 0;
+        const page = ordered.slice(offset, filter.options?.limit !== undefined ? offset + filter.options.limit : undefined);
+        // Like the node, only report the indexes when asked to
+        if ((filter.options as IndexedLogsOptions | undefined)?.includeIndexes) {
+          return page;
+        }
+        return page.map(({ meta: { txIndex, logIndex, ...meta }, ...log }) => ({ ...log, meta }));
+      }
+    },
+    nodes: {
+      isHealthy: async (): Promise<boolean> => true
+    }
+  };
+
+  const dexContracts: NetworkContracts = {
+    router: Address.of(router).toString(),
+    factory: Address.of(factory).toString(),
+    vVET: Address.of(vVET).toString()
+  };
+  // The network context is typed for the full client; the project's modules only reach the SimulatedThorClient subset
+  const network = createBackendNetworkContext({ name, genesisId: blocks[0].id, contracts: dexContracts }, thorClient as ThorClient);
+
+  return {
+    /**
+     * Network context backed by the simulator; pass it to any module taking a network
+     */
+    network,
+
+    /**
+     * Client answering the simulator's requests (the ThorClient subset used by the project)
+     */
+    thorClient,
+
+    /**
+     * Addresses of the simulated router, factory and vVET
+     */
+    contracts: dexContracts,
+
+    /**
+     * Chain tag of the simulated chain
+     */
+    chainTag: getChainTagFromGenesisId(blocks[0].id),
+
+    /**
+     * Register an ERC20 token
+     * @param token Token metadata (transferFeeBps makes it a fee-on-transfer token)
+     * @returns Token address
+     */
+    addToken: (token: SimulatedTokenOptions): string => {
+      const address = key(token.address || newAddress(`token:${token.symbol}`));
+      registerToken(address, {
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        transferFeeBps: BigInt(token.transferFeeBps || 0)
+      });
+      return Address.of(address).toString();
+    },
+
+    /**
+     * Mint tokens to an account (minting vVET also locks the VET backing it)
+     * @param token Token address
+     * @param to Recipient
+     * @param amount Raw amount
+     */
+    mint: (token: string, to: string, amount: bigint): void => {
+      mintTokens({ events: [], transfers: [] }, token, to, amount);
+      if (key(token) === vVET) {
+        world.vet.set(vVET, getVet(vVET) + amount);
+      }
+    },
+
+    /**
+     * Set the VET balance of an account
+     * @param address Account
+     * @param amount Raw amount (wei)
+     */
+    setVetBalance: (address: string, amount: bigint): void => {
+      world.vet.set(key(address), amount);
+    },
+
+    /**
+     * Get the VET balance of an account
+     * @param address Account
+     * @returns Raw amount (wei)
+     */
+    getVetBalance: (address: string): bigint => getVet(address),
+
+    /**
+     * Get the token balance of an account
+     * @param token Token address (VTHO, vVET, a registered token or a pool)
+     * @param owner Account
+     * @returns Raw amount
+     */
+    balanceOf: (token: string, owner: string): bigint => tokenBalance(token, owner),
+
+    /**
+     * Get the allowance granted by an owner to a spender
+     * @param token Token address
+     * @param owner Token owner
+     * @param spender Spender
+     * @returns Raw amount
+     */
+    allowance: (token: string, owner: string, spender: string): bigint => allowanceOf(token, owner, spender),
+
+    /**
+     * Create a pool (when missing) and add liquidity to it directly, outside any transaction
+     * Use the vVET address for VET pools.
+     * @param tokenA First token
+     * @param tokenB Second token
+     * @param amountA Raw amount of the first token
+     * @param amountB Raw amount of the second token
+     * @returns Pool address
+     */
+    addPool: (tokenA: string, tokenB: string, amountA: bigint, amountB: bigint): string => {
+      const frame: ClauseFrame = { events: [], transfers: [] };
+      const pool = findPool(tokenA, tokenB) || createPool(frame, tokenA, tokenB);
+      mintTokens(frame, tokenA, pool, amountA);
+      mintTokens(frame, tokenB, pool, amountB);
+      [tokenA, tokenB].forEach((token, i) => {
+        if (key(token) === vVET) {
+          world.vet.set(vVET, getVet(vVET) + (i === 0 ? amountA : amountB));
+        }
+      });
+      poolMint(frame, pool, ZERO_ADDRESS, ZERO_ADDRESS, head().timestamp);
+      return Address.of(pool).toString();
+    },
+
+    /**
+     * Get the state of the pool of two tokens
+     * @param tokenA First token
+     * @param tokenB Second token
+     * @returns Pool state, undefined when no pool exists
+     */
+    getPool: (tokenA: string, tokenB: string): SimulatedPool | undefined => {
+      const pool = findPool(tokenA, tokenB);
+      if (!pool) {
+        return undefined;
+      }
+      const state = getPoolState(pool);
+      return {
+        address: Address.of(pool).toString(),
+        token0: Address.of(state.token0).toString(),
+        token1: Address.of(state.token1).toString(),
+        reserve0: state.reserve0,
+        reserve1: state.reserve1,
+        blockTimestampLast: state.blockTimestampLast
+      };
+    },
+
+    /**
+     * Produce blocks, including the pending transactions that are still valid
+     * @param count Number of blocks
+     * @returns Mined blocks
+     */
+    mine,
+
+    /**
+     * Enable or disable mining a block for every sent transaction
+     * @param enabled Whether transactions are mined as soon as they are sent
+     */
+    setAutoMine: (enabled: boolean): void => {
+      autoMine = enabled;
+    },
+
+    /**
+     * Get the IDs of the transactions waiting to be mined
+     */
+    getPendingTransactions: (): string[] => pending.map(tx => tx.id.toString()),
+
+    /**
+     * Get the revert reason of a mined transaction (receipts do not carry it)
+     * @param txId Transaction ID
+     * @returns Revert reason, undefined when the transaction did not revert
+     */
+    getRevertReason: (txId: string): string | undefined => revertReasons.get(txId.toLowerCase()),
+
+    /**
+     * Capture the balances, allowances and pools, to restore them later (e.g. between test cases)
+     * @returns Opaque snapshot
+     */
+    snapshot: () => structuredClone(world),
+
+    /**
+     * Restore balances, allowances and pools from a snapshot (the block history is kept)
+     * @param snapshot Snapshot returned by snapshot()
+     */
+    restore: (snapshot: WorldState): void => {
+      world = structuredClone(snapshot);
+    }
+  };
+}
+
+export type AmmSimulator = ReturnType<typeof createAmmSimulator>;
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { startTestGasPayer, TestGasPayer } from './simulator-fixture';
+
+describe('gas payer service', () => {
+  let service: TestGasPayer;
+
+  beforeAll(async () => {
+    service = await startTestGasPayer();
+  });
+
+  afterAll(() => service.close());
+
+  const post = (url: string, body: object) => axios.post(url, body, { validateStatus: () => true });
+
+  it('signs on the route of its URL only', async () => {
+    expect(new URL(service.url).pathname).toBe('/delegate');
+
+    const base = new URL(service.url).origin;
+    for (const route of ['/', '/other', '/delegate/extra']) {
+      const response = await post(`${base}${route}`, { origin: service.gasPayer, raw: '0x' });
+      expect(response.status).toBe(404);
+    }
+  });
+
+  it('validates requests on its route', async () => {
+    expect((await axios.get(service.url, { validateStatus: () => true })).status).toBe(405);
+    expect((await post(`${service.url}?source=test`, { origin: 'nobody' })).status).toBe(400);
+  });
+
+  it('serves a custom route', async () => {
+    const custom = await startTestGasPayer({ path: '/sponsor' });
+
+    expect(new URL(custom.url).pathname).toBe('/sponsor');
+    expect((await post(new URL('/delegate', custom.url).toString(), {})).status).toBe(404);
+    await custom.close();
+  });
+});
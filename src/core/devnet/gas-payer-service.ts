@@ -0,0 +1,141 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Address, Hex, HexUInt, Secp256k1, Transaction } from '@vechain/sdk-core';
+import "../../utils/wallet-management/env-loader";
+
+// Port of the service when run directly
+const DEFAULT_PORT = Number(process.env.GAS_PAYER_SERVICE_PORT || 8670);
+
+// Route the service signs on; every other path is answered with 404
+const DEFAULT_PATH = '/delegate';
+
+// Largest request body accepted (a raw transaction with many clauses is still far below this)
+const MAX_BODY_BYTES = 256 * 1024;
+
+/**
+ * Interface for the gas payer service options
+ */
+export interface GasPayerServiceOptions {
+  privateKey: Uint8Array;         // Key of the account paying the gas
+  port?: number;                  // 0 picks a free port (defaults to GAS_PAYER_SERVICE_PORT or 8670)
+  host?: string;                  // Defaults to 127.0.0.1
+  path?: string;                  // Route of the signing endpoint (defaults to /delegate)
+  allowedOrigins?: string[];      // Senders the service pays for (defaults to any sender)
+  chainTag?: number;              // Only pay for transactions of this chain
+}
+
+/**
+ * Interface for a running gas payer service
+ */
+export interface GasPayerService {
+  url: string;                    // Signing endpoint; use as gasPayerServiceUrl / GAS_PAYER_SERVICE_URL
+  gasPayer: string;               // Address paying the gas
+  close: () => Promise<void>;
+}
+
+/**
+ * Read and parse the JSON body of a request
+ */
+function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        request.destroy();
+      }
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Start a local VIP-191 delegator service, a stand-in for a hosted fee delegation service in tests and on devnets
+ * It speaks the VIP-201 protocol: POST {origin, raw} with the unsigned delegated transaction, answered by
+ * {signature}, the gas payer's signature of the transaction hash for that sender.
+ * @param options Gas payer key, port and the transactions it agrees to pay for
+ * @returns Promise with the running service
+ */
+export function startGasPayerService(options: GasPayerServiceOptions): Promise<GasPayerService> {
+  const gasPayer = Address.ofPrivateKey(options.privateKey).toString();
+  const allowedOrigins = options.allowedOrigins?.map(origin => origin.toLowerCase());
+  const path = options.path || DEFAULT_PATH;
+
+  const server = http.createServer(async (request, response) => {
+    const reply = (status: number, body: object) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (new URL(request.url || '/', 'http://localhost').pathname !== path) {
+      return reply(404, { error: `Not found; the gas payer signs on POST ${path}` });
+    }
+    if (request.method !== 'POST') {
+      return reply(405, { error: 'Only POST is supported' });
+    }
+
+    try {
+      const body = await readJsonBody(request);
+      const { origin, raw }: { origin?: unknown; raw?: unknown } = typeof body === 'object' && body !== null ? body : {};
+      if (typeof origin !== 'string' || !Address.isValid(origin) || typeof raw !== 'string') {
+        return reply(400, { error: 'Expected {origin, raw}' });
+      }
+      if (allowedOrigins && !allowedOrigins.includes(origin.toLowerCase())) {
+        return reply(403, { error: `Not paying for ${origin}` });
+      }
+
+      const tx = Transaction.decode(HexUInt.of(raw).bytes, false);
+      if (!tx.isDelegated) {
+        return reply(400, { error: 'Transaction is not delegated' });
+      }
+      if (options.chainTag !== undefined && tx.body.chainTag !== options.chainTag) {
+        return reply(400, { error: `Transaction is for chain tag ${tx.body.chainTag}, not ${options.chainTag}` });
+      }
+
+      const signature = Secp256k1.sign(tx.getTransactionHash(Address.of(origin)).bytes, options.privateKey);
+      console.log(`⛽ Paying gas for ${origin} (${tx.body.clauses.length} clause(s), ${tx.body.gas} gas)`);
+      reply(200, { signature: Hex.of(signature).toString() });
+    } catch (error) {
+      reply(400, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_PORT, options.host || '127.0.0.1', () => {
+      const { address, port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://${address}:${port}${path}`,
+        gasPayer,
+        close: () => new Promise<void>((done, fail) => server.close(error => error ? fail(error) : done()))
+      });
+    });
+  });
+}
+
+// Allow direct execution of this file:
+// GAS_PAYER_SERVICE_PRIVATE_KEY=0x... npx ts-node src/core/devnet/gas-payer-service.ts
+if (require.main === module) {
+  const privateKey = process.env.GAS_PAYER_SERVICE_PRIVATE_KEY;
+  if (!privateKey) {
+    console.error('❌ Set GAS_PAYER_SERVICE_PRIVATE_KEY to the key of the account paying the gas');
+    process.exit(1);
+  }
+  startGasPayerService({ privateKey: HexUInt.of(privateKey).bytes })
+    .then(service => {
+      console.log(`⛽ Gas payer service for ${service.gasPayer} listening on ${service.url}`);
+      console.log(`Point a bot at it with GAS_PAYER_SERVICE_URL=${service.url}`);
+    })
+    .catch(error => {
+      console.error('❌ Gas payer service failed to start:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,95 @@
+import { Address, Secp256k1, VTHO_ADDRESS } from '@vechain/sdk-core';
+import { createTransactionManager } from '../../utils/contracts/contract-writer';
+import { AmmSimulator, createAmmSimulator } from './amm-simulator';
+import { GasPayerService, GasPayerServiceOptions, startGasPayerService } from './gas-payer-service';
+
+// Energy given to test accounts for their gas (1000 VTHO)
+const DEFAULT_VTHO = 10n ** 21n;
+
+// Environment variables the signer and gas payer of a testnet wallet are read from (see key-utils)
+const WALLET_ENV = ['TESTNET_PRIVATE_KEY', 'TESTNET_MNEMONIC', 'GAS_PAYER_PRIVATE_KEY', 'GAS_PAYER_SERVICE_URL'];
+
+/**
+ * Interface for the options of a simulator test fixture
+ */
+export interface SimulatorFixtureOptions {
+  name: string;             // Simulator network name, one per suite
+  vtho?: bigint;            // VTHO minted to the wallet (defaults to 1000 VTHO)
+  signerFromEnv?: boolean;  // Make the wallet the testnet key of the environment, without a gas payer
+}
+
+/**
+ * Interface for a simulator test fixture; privateKey and wallet are set once the suite's beforeAll hooks run
+ */
+export interface SimulatorFixture {
+  simulator: AmmSimulator;
+  txManager: ReturnType<typeof createTransactionManager>;
+  privateKey: Uint8Array;
+  wallet: string;
+}
+
+/**
+ * Set up a jest suite on a fresh simulator with a funded wallet
+ * Registers the suite hooks: console output is silenced, the wallet is created and funded before the suite's own
+ * beforeAll hooks, and mocks and environment variables are restored after the suite.
+ * @param options Simulator name, wallet funding and signer environment
+ * @returns Fixture shared by the suite's hooks and tests
+ */
+export function useSimulatorFixture(options: SimulatorFixtureOptions): SimulatorFixture {
+  const simulator = createAmmSimulator({ name: options.name });
+  const fixture: SimulatorFixture = {
+    simulator,
+    txManager: createTransactionManager(simulator.network),
+    privateKey: new Uint8Array(),
+    wallet: ''
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    fixture.privateKey = await Secp256k1.generatePrivateKey();
+    fixture.wallet = Address.ofPrivateKey(fixture.privateKey).toString();
+    simulator.mint(VTHO_ADDRESS, fixture.wallet, options.vtho ?? DEFAULT_VTHO);
+
+    if (options.signerFromEnv) {
+      WALLET_ENV.forEach(name => delete process.env[name]);
+      process.env.TESTNET_PRIVATE_KEY = Buffer.from(fixture.privateKey).toString('hex');
+    }
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    if (options.signerFromEnv) {
+      delete process.env.TESTNET_PRIVATE_KEY;
+    }
+  });
+
+  return fixture;
+}
+
+/**
+ * Interface for a gas payer service started by a test, with the key it signs with
+ */
+export interface TestGasPayer extends GasPayerService {
+  privateKey: Uint8Array;
+}
+
+/**
+ * Start a gas payer service on a free port with a new key, funded with VTHO on the simulator when one is given
+ * @param options Service options (the key and port are filled in)
+ * @param simulator Simulator to fund the gas payer on and whose chain tag the service accepts
+ * @returns Promise with the running service and its key
+ */
+export async function startTestGasPayer(
+  options: Partial<GasPayerServiceOptions> = {},
+  simulator?: AmmSimulator
+): Promise<TestGasPayer> {
+  const privateKey = options.privateKey || await Secp256k1.generatePrivateKey();
+  if (simulator) {
+    simulator.mint(VTHO_ADDRESS, Address.ofPrivateKey(privateKey).toString(), DEFAULT_VTHO);
+  }
+  const service = await startGasPayerService({ port: 0, chainTag: simulator?.chainTag, ...options, privateKey });
+  return { ...service, privateKey };
+}
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Clause, ERC20_ABI, HexUInt, TransactionClause, VTHO_ADDRESS } from '@vechain/sdk-core';
+import "../../utils/wallet-management/env-loader";
+import { createContractInterface } from '../../utils/contracts/contract-reader';
+import { createTransactionManager, TransactionSigner } from '../../utils/contracts/contract-writer';
+import { getNetworkContext, NetworkContext, NetworkContracts, saveNetworkContracts } from '../../utils/contracts/network-context';
+import { createSignerFromEnv } from '../../utils/wallet-management/key-utils';
+import { tokenAmount } from '../../utils/amounts/token-amount';
+import { factoryABI } from '../../utils/abis/factory';
+import { RouterABI } from '../../utils/abis/router';
+import { vVETABI } from '../../utils/abis/vvet';
+
+// Directory holding the compiled contracts (Hardhat/Truffle JSON artifacts or raw .bin files)
+const ARTIFACTS_DIR = process.env.DEX_ARTIFACTS_DIR || path.join(process.cwd(), 'artifacts');
+
+// Artifact names of the contracts; the ABIs come from src/utils/abis, the bytecode from the artifacts
+const ARTIFACTS = {
+  factory: 'UniswapV2Factory',
+  router: 'UniswapV2Router02',
+  vVET: 'VVET',
+  token: 'TestToken'        // ERC20 with constructor(string name, string symbol, uint256 initialSupply)
+};
+
+// Test tokens deployed by default
+const DEFAULT_TEST_TOKENS = [
+  { name: 'Test Token A', symbol: 'TSTA' },
+  { name: 'Test Token B', symbol: 'TSTB' }
+];
+
+// Seeded liquidity (raw amounts, 18 decimals)
+const TEST_TOKEN_SUPPLY = 10n ** 27n;            // 1,000,000,000 tokens minted to the deployer
+const DEFAULT_VET_LIQUIDITY = 10n ** 22n;        // 10,000 VET per VET pool
+const DEFAULT_TOKEN_LIQUIDITY = 10n ** 24n;      // 1,000,000 tokens (or VTHO) per pool side
+
+/**
+ * Interface for a compiled contract
+ */
+interface ContractArtifact {
+  bytecode: string;
+  abi?: any[];
+}
+
+/**
+ * Interface for test DEX deployment options
+ */
+export interface TestDexOptions {
+  network?: NetworkContext;                       // Defaults to solo
+  signer?: TransactionSigner;                     // Defaults to the network's credentials (see key-utils)
+  artifactsDir?: string;
+  tokens?: { name: string; symbol: string }[];
+  vetLiquidity?: bigint;
+  tokenLiquidity?: bigint;
+  save?: boolean;                                 // Write the addresses to the network config (defaults to true)
+}
+
+/**
+ * Load the bytecode (and ABI, when present) of a compiled contract
+ * @param dir Artifacts directory
+ * @param name Contract name
+ * @returns Contract artifact
+ */
+export function loadArtifact(dir: string, name: string): ContractArtifact {
+  const jsonFile = path.join(dir, `${name}.json`);
+  if (fs.existsSync(jsonFile)) {
+    const artifact = JSON.parse(fs.readFileSync(jsonFile, 'utf8'));
+    const bytecode = typeof artifact.bytecode === 'string'
+      ? artifact.bytecode
+      : artifact.bytecode?.object || artifact.evm?.bytecode?.object || artifact.data?.bytecode?.object;
+    if (!bytecode) {
+      throw new Error(`No bytecode in ${jsonFile}`);
+    }
+    return { bytecode: bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`, abi: artifact.abi };
+  }
+
+  const binFile = path.join(dir, `${name}.bin`);
+  if (fs.existsSync(binFile)) {
+    const bytecode = fs.readFileSync(binFile, 'utf8').trim();
+    return { bytecode: bytecode.startsWith('0x') ? bytecode : `0x${bytecode}` };
+  }
+  throw new Error(`Bytecode for ${name} not found in ${dir} (expected ${name}.json or ${name}.bin)`);
+}
+
+/**
+ * Deploy a Uniswap V2 factory, router, vVET and test tokens, and seed their pools with liquidity
+ * Meant for a local Thor Solo node, so the swap path can be exercised offline.
+ * @param options Network, signer, artifacts and liquidity amounts
+ * @returns Promise with the deployed contract addresses
+ */
+export async function deployTestDex(options: TestDexOptions = {}): Promise<NetworkContracts> {
+  const network = options.network || getNetworkContext('solo');
+  if (network.name === 'mainnet') {
+    throw new Error('Refusing to deploy a test DEX to mainnet');
+  }
+  await network.verify();
+
+  const artifactsDir = options.artifactsDir || ARTIFACTS_DIR;
+  const signer = options.signer || createSignerFromEnv(network.name).signer;
+  const txManager = createTransactionManager(network);
+  const deployer = txManager.getWalletAddress(signer);
+  const vetLiquidity = options.vetLiquidity ?? DEFAULT_VET_LIQUIDITY;
+  const tokenLiquidity = options.tokenLiquidity ?? DEFAULT_TOKEN_LIQUIDITY;
+  console.log(`🚀 Deploying test DEX to ${network.name} (${network.getNodeUrl()}) from ${deployer}`);
+
+  /**
+   * Deploy one contract and return its address
+   */
+  const deploy = async (label: string, artifactName: string, abi: readonly any[], args: string[] = []): Promise<string> => {
+    const artifact = loadArtifact(artifactsDir, artifactName);
+    const constructor = [...abi, ...(artifact.abi || [])].find(entry => entry.type === 'constructor');
+    const clause = Clause.deployContract(
+      HexUInt.of(artifact.bytecode),
+      constructor?.inputs.length ? { types: constructor.inputs, values: args } : undefined
+    ) as TransactionClause;
+
+    const result = await txManager.executeTransaction([clause], signer);
+    const address = result.receipt?.outputs[0]?.contractAddress;
+    if (!address || result.receipt?.reverted) {
+      throw new Error(`Deployment of ${label} failed (transaction ${result.transactionId})`);
+    }
+    console.log(`✅ ${label} deployed at ${address}`);
+    return address;
+  };
+
+  const vVET = await deploy('vVET', ARTIFACTS.vVET, vVETABI);
+  const factory = await deploy('Factory', ARTIFACTS.factory, factoryABI, [deployer, vVET]);
+  const router = await deploy('Router', ARTIFACTS.router, RouterABI, [factory, vVET]);
+
+  const tokens: Record<string, string> = {};
+  for (const token of options.tokens || DEFAULT_TEST_TOKENS) {
+    tokens[token.symbol] = await deploy(token.symbol, ARTIFACTS.token, ERC20_ABI, [token.name, token.symbol, TEST_TOKEN_SUPPLY.toString()]);
+  }
+
+  // Seed pools: VTHO/vVET and every test token against vVET, plus the first two test tokens together
+  const deadline = Math.floor(Date.now() / 1000) + 3600;
+  const approve = (token: string) => txManager.buildTransactionClause(token, ERC20_ABI, 'approve', [router, tokenLiquidity.toString()]);
+  const seed = async (label: string, clauses: TransactionClause[]) => {
+    const result = await txManager.executeTransaction(clauses, signer);
+    if (result.receipt?.reverted) {
+      throw new Error(`Seeding ${label} liquidity reverted (transaction ${result.transactionId})`);
+    }
+    console.log(`💧 Seeded ${label} pool`);
+  };
+
+  for (const [symbol, token] of [['VTHO', VTHO_ADDRESS], ...Object.entries(tokens)]) {
+    await seed(`${symbol}/vVET`, [
+      approve(token),
+      txManager.buildTransactionClause(
+        router,
+        RouterABI,
+        'addLiquidityETH',
+        [token, tokenLiquidity.toString(), '0', '0', deployer, deadline],
+        tokenAmount(vetLiquidity, 18)
+      )
+    ]);
+  }
+
+  const [tokenA, tokenB] = Object.entries(tokens);
+  if (tokenA && tokenB) {
+    await seed(`${tokenA[0]}/${tokenB[0]}`, [
+      approve(tokenA[1]),
+      approve(tokenB[1]),
+      txManager.buildTransactionClause(
+        router,
+        RouterABI,
+        'addLiquidity',
+        [tokenA[1], tokenB[1], tokenLiquidity.toString(), tokenLiquidity.toString(), '0', '0', deployer, deadline]
+      )
+    ]);
+  }
+
+  const contracts: NetworkContracts = { router, factory, vVET, tokens };
+  if (options.save ?? true) {
+    await saveNetworkContracts(network, contracts);
+    console.log(`📝 Saved addresses to the ${network.name} network config`);
+  } else {
+    network.setContracts(contracts);
+  }
+
+  const pools = await createContractInterface(factory, factoryABI, network).callPlain('allPairsLength');
+  console.log(`Test DEX ready with ${pools} pool(s)`);
+  return contracts;
+}
+
+// Allow direct execution of this file:
+// npx ts-node src/core/devnet/solo-dex.ts [network]
+if (require.main === module) {
+  deployTestDex({ network: getNetworkContext(process.argv[2] || 'solo') })
+    .then(contracts => {
+      console.log('\n----- Test DEX -----');
+      console.log(JSON.stringify(contracts, null, 2));
+      console.log(`\nRun the bot against it with NETWORK=${process.argv[2] || 'solo'}`);
+    })
+    .catch(error => {
+      console.error('❌ Test DEX deployment failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,380 @@
+import "../../utils/wallet-management/env-loader";
+import { formatTokenAmount, priceOf, tokenAmount } from '../../utils/amounts/token-amount';
+import { getTokenMetadata, NATIVE_VET, TokenMetadata } from '../tokens/token-metadata';
+import { getTradeParameters, resolvePathToken } from '../trading/market-data';
+import { loadPairState } from '../trading/reserve-pricing';
+import { fetchPairEvents, PairEvent, SwapEvent } from '../trading/pair-events';
+import { TradingPair } from '../trading/strategies/types';
+import { loadPairEvents } from './event-indexer';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+/**
+ * Supported candle intervals and their length in seconds
+ */
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 300,
+  '1h': 3600,
+  '1d': 86400
+};
+
+// Bars kept in memory per interval
+const DEFAULT_MAX_BARS = 1000;
+
+// Recent blocks whose bar changes can be undone after a chain reorganization
+const UNDO_BLOCKS = 360;
+
+/**
+ * Interface for one OHLCV bar; prices are the base token priced in the quote token
+ */
+export interface Candle {
+  interval: CandleInterval;
+  openTime: number;         // Unix seconds, aligned to the interval
+  closeTime: number;        // openTime + interval length
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeBase: bigint;       // Raw base token traded
+  volumeQuote: bigint;      // Raw quote token traded
+  trades: number;
+}
+
+/**
+ * Interface for the pool behind a trading pair, as needed to read its swaps
+ */
+export interface CandleMarket {
+  pair: TradingPair;
+  pool: string;             // Pair contract address
+  baseIsToken0: boolean;
+  base: TokenMetadata;
+  quote: TokenMetadata;
+}
+
+/**
+ * Interface for candle query options
+ */
+export interface CandleQueryOptions {
+  from?: number;            // Earliest openTime (unix seconds)
+  to?: number;              // Latest openTime (unix seconds)
+  limit?: number;           // Most recent bars to return
+}
+
+/**
+ * Resolve the pool of a trading pair on a router
+ * @param pair Trading pair
+ * @param router Router address (defaults to DEX_ROUTER_ADDRESS)
+ * @param network The network to use
+ * @returns Promise with the candle market
+ */
+export async function resolveCandleMarket(
+  pair: TradingPair,
+  router: string = getTradeParameters().DEX_ROUTER_ADDRESS,
+  network: NetworkContext = getNetworkContext()
+): Promise<CandleMarket> {
+  const [basePathToken, quotePathToken, base, quote] = await Promise.all([
+    resolvePathToken(pair.base, router, network),
+    resolvePathToken(pair.quote, router, network),
+    getTokenMetadata(pair.base, network),
+    getTokenMetadata(pair.quote, network)
+  ]);
+  const state = await loadPairState(basePathToken, quotePathToken, router, network);
+  return {
+    pair,
+    pool: state.pair,
+    baseIsToken0: state.token0.toLowerCase() === basePathToken.toLowerCase(),
+    base,
+    quote
+  };
+}
+
+/**
+ * Convert a Swap event to a trade on the market
+ * @param market Candle market
+ * @param event Swap event of the market's pool
+ * @returns Trade price and volumes, or undefined for a swap without volume
+ */
+export function swapToTrade(market: CandleMarket, event: SwapEvent): { price: number; volumeBase: bigint; volumeQuote: bigint } | undefined {
+  const [baseIn, baseOut, quoteIn, quoteOut] = market.baseIsToken0
+    ? [event.amount0In, event.amount0Out, event.amount1In, event.amount1Out]
+    : [event.amount1In, event.amount1Out, event.amount0In, event.amount0Out];
+
+  // Base sold into the pool for quote, or quote sold for base
+  const [baseAmount, quoteAmount] = baseIn > 0n ? [baseIn, quoteOut] : [baseOut, quoteIn];
+  if (baseAmount === 0n || quoteAmount === 0n) {
+    return undefined;
+  }
+  return {
+    price: priceOf(tokenAmount(baseAmount, market.base), tokenAmount(quoteAmount, market.quote)),
+    volumeBase: baseIn + baseOut,
+    volumeQuote: quoteIn + quoteOut
+  };
+}
+
+/**
+ * Create an OHLCV aggregator for one market
+ * @param market Candle market
+ * @param intervals Intervals to build (defaults to all)
+ * @param maxBars Bars kept per interval
+ * @returns Candle builder
+ */
+export function createCandleBuilder(
+  market: CandleMarket,
+  intervals: CandleInterval[] = Object.keys(CANDLE_INTERVALS) as CandleInterval[],
+  maxBars: number = DEFAULT_MAX_BARS
+) {
+  const series = new Map<CandleInterval, Candle[]>(intervals.map(interval => [interval, []]));
+  let lastBlock = -1;
+
+  // Previous state of every bar changed by a recent block (undefined when the block opened the bar)
+  const undoLog = new Map<number, { interval: CandleInterval; openTime: number; previous?: Candle }[]>();
+
+  /**
+   * Add one trade to the bar of every interval
+   */
+  const addTrade = (blockNumber: number, timestamp: number, trade: { price: number; volumeBase: bigint; volumeQuote: bigint }) => {
+    const undo = undoLog.get(blockNumber) || [];
+    undoLog.set(blockNumber, undo);
+
+    series.forEach((candles, interval) => {
+      const length = CANDLE_INTERVALS[interval];
+      const openTime = Math.floor(timestamp / length) * length;
+
+      // Bars are kept sorted; most trades land in the last one
+      let index = candles.length - 1;
+      while (index >= 0 && candles[index].openTime > openTime) {
+        index--;
+      }
+      const candle = index >= 0 ? candles[index] : undefined;
+
+      if (candle && candle.openTime === openTime) {
+        undo.push({ interval, openTime, previous: { ...candle } });
+        candle.high = Math.max(candle.high, trade.price);
+        candle.low = Math.min(candle.low, trade.price);
+        candle.close = trade.price;
+        candle.volumeBase += trade.volumeBase;
+        candle.volumeQuote += trade.volumeQuote;
+        candle.trades += 1;
+      } else {
+        undo.push({ interval, openTime });
+        candles.splice(index + 1, 0, {
+          interval,
+          openTime,
+          closeTime: openTime + length,
+          open: trade.price,
+          high: trade.price,
+          low: trade.price,
+          close: trade.price,
+          volumeBase: trade.volumeBase,
+          volumeQuote: trade.volumeQuote,
+          trades: 1
+        });
+        if (candles.length > maxBars) {
+          candles.splice(0, candles.length - maxBars);
+        }
+      }
+    });
+  };
+
+  return {
+    market,
+
+    /**
+     * Add the swaps of new blocks; events from blocks already processed are ignored
+     * @param events Pair events, oldest first (non-Swap events are skipped)
+     */
+    addEvents: (events: PairEvent[]): void => {
+      const fresh = events.filter(event => event.blockNumber > lastBlock);
+      fresh.forEach(event => {
+        if (event.type !== 'Swap' || event.pair.toLowerCase() !== market.pool.toLowerCase()) {
+          return;
+        }
+        const trade = swapToTrade(market, event);
+        if (trade) {
+          addTrade(event.blockNumber, event.blockTimestamp, trade);
+        }
+      });
+      if (fresh.length > 0) {
+        lastBlock = fresh.reduce((last, event) => Math.max(last, event.blockNumber), lastBlock);
+      }
+      undoLog.forEach((_changes, blockNumber) => {
+        if (blockNumber <= lastBlock - UNDO_BLOCKS) {
+          undoLog.delete(blockNumber);
+        }
+      });
+    },
+
+    /**
+     * Undo the swaps of blocks after a number (chain reorganization)
+     * @param blockNumber Last block that stays canonical
+     */
+    rollback: (blockNumber: number): void => {
+      const undone = Array.from(undoLog.keys()).filter(block => block > blockNumber).sort((a, b) => b - a);
+      undone.forEach(block => {
+        undoLog.get(block)!.slice().reverse().forEach(({ interval, openTime, previous }) => {
+          const candles = series.get(interval)!;
+          const index = candles.findIndex(candle => candle.openTime === openTime);
+          if (index < 0) {
+            return;
+          }
+          if (previous) {
+            candles[index] = previous;
+          } else {
+            candles.splice(index, 1);
+          }
+        });
+        undoLog.delete(block);
+      });
+      lastBlock = Math.min(lastBlock, blockNumber);
+    },
+
+    /**
+     * Mark blocks up to a number as processed (e.g. a block without swaps)
+     * @param blockNumber Last processed block
+     */
+    markProcessed: (blockNumber: number): void => {
+      lastBlock = Math.max(lastBlock, blockNumber);
+    },
+
+    /**
+     * Get the last processed block
+     * @returns Block number, -1 before any block was processed
+     */
+    getLastBlock: (): number => lastBlock,
+
+    /**
+     * Query bars of an interval, oldest first
+     * @param interval Candle interval
+     * @param options Time range and limit
+     * @returns Array of candles
+     */
+    getCandles: (interval: CandleInterval, options: CandleQueryOptions = {}): Candle[] => {
+      const candles = (series.get(interval) || []).filter(candle =>
+        (options.from === undefined || candle.openTime >= options.from) &&
+        (options.to === undefined || candle.openTime <= options.to)
+      );
+      return (options.limit !== undefined ? candles.slice(-options.limit) : candles).map(candle => ({ ...candle }));
+    }
+  };
+}
+
+export type CandleBuilder = ReturnType<typeof createCandleBuilder>;
+
+// Live candle builders, keyed by pair tokens
+const trackedMarkets = new Map<string, CandleBuilder>();
+
+/**
+ * Get the registry key of a pair
+ * @param pair Trading pair
+ * @returns Lower-cased base/quote key
+ */
+function pairKey(pair: TradingPair): string {
+  return `${pair.base}/${pair.quote}`.toLowerCase();
+}
+
+/**
+ * Start building candles for a pair, seeded from historical swaps
+ * @param pair Trading pair
+ * @param historyBlocks Number of past blocks to build bars from
+ * @param network The network to use
+ * @returns Promise with the candle builder
+ */
+export async function trackCandles(
+  pair: TradingPair,
+  historyBlocks: number = 8640,
+  network: NetworkContext = getNetworkContext()
+): Promise<CandleBuilder> {
+  const existing = trackedMarkets.get(pairKey(pair));
+  if (existing) {
+    return existing;
+  }
+
+  const builder = createCandleBuilder(await resolveCandleMarket(pair, undefined, network));
+  const best = await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed());
+  const toBlock = best?.number ?? 0;
+  const fromBlock = Math.max(0, toBlock - historyBlocks);
+
+  // Uses the indexed event store when it covers the range
+  builder.addEvents(await loadPairEvents({ pair: builder.market.pool, fromBlock, toBlock, types: ['Swap'], network }));
+  builder.markProcessed(toBlock);
+
+  trackedMarkets.set(pairKey(pair), builder);
+  return builder;
+}
+
+/**
+ * Add the swaps of a new block to every tracked pair
+ * @param blockNumber Block number
+ * @param network The network to use
+ */
+export async function updateCandlesForBlock(blockNumber: number, network: NetworkContext = getNetworkContext()): Promise<void> {
+  await Promise.all(Array.from(trackedMarkets.values()).map(async builder => {
+    // Include blocks skipped since the last update
+    const fromBlock = Math.min(builder.getLastBlock() + 1, blockNumber);
+    const events = await fetchPairEvents({ pair: builder.market.pool, fromBlock, toBlock: blockNumber, types: ['Swap'], network });
+    builder.addEvents(events);
+    builder.markProcessed(blockNumber);
+  }));
+}
+
+/**
+ * Add already decoded events (e.g. from the pool event subscription) to the tracked pairs
+ * Each builder only keeps the swaps of its own pool.
+ * @param events Pair events of one or more blocks, oldest first
+ * @param blockNumber Last block the events cover
+ */
+export function addCandleEvents(events: PairEvent[], blockNumber: number): void {
+  trackedMarkets.forEach(builder => {
+    builder.addEvents(events);
+    builder.markProcessed(blockNumber);
+  });
+}
+
+/**
+ * Undo the swaps of blocks after a number in every tracked pair (chain reorganization)
+ * The next update re-reads the blocks of the new branch.
+ * @param blockNumber Last block that stays canonical
+ */
+export function rollbackCandles(blockNumber: number): void {
+  trackedMarkets.forEach(builder => builder.rollback(blockNumber));
+}
+
+/**
+ * Query the live bars of a tracked pair
+ * @param pair Trading pair
+ * @param interval Candle interval
+ * @param options Time range and limit
+ * @returns Array of candles, oldest first (empty when the pair is not tracked)
+ */
+export function getCandles(pair: TradingPair, interval: CandleInterval, options: CandleQueryOptions = {}): Candle[] {
+  return trackedMarkets.get(pairKey(pair))?.getCandles(interval, options) || [];
+}
+
+export type CandleQuery = typeof getCandles;
+
+// Allow direct execution of this file to print bars built from recent history:
+// npx ts-node src/core/indexing/candle-builder.ts [interval] [historyBlocks]
+if (require.main === module) {
+  (async () => {
+    const VTHO_VET_PAIR: TradingPair = { base: getTradeParameters().VTHO_ADDRESS, quote: NATIVE_VET, symbol: 'VTHO/VET' };
+    const interval = (process.argv[2] || '1h') as CandleInterval;
+    const historyBlocks = process.argv[3] ? Number(process.argv[3]) : 8640;
+
+    const builder = await trackCandles(VTHO_VET_PAIR, historyBlocks);
+    console.log(`\n----- ${VTHO_VET_PAIR.symbol} ${interval} candles -----`);
+    builder.getCandles(interval).forEach(candle => {
+      console.log(
+        `${new Date(candle.openTime * 1000).toISOString()} ` +
+        `O ${candle.open.toFixed(8)} H ${candle.high.toFixed(8)} L ${candle.low.toFixed(8)} C ${candle.close.toFixed(8)} ` +
+        `V ${formatTokenAmount(tokenAmount(candle.volumeBase, builder.market.base), 2)} ${builder.market.base.symbol} / ` +
+        `${formatTokenAmount(tokenAmount(candle.volumeQuote, builder.market.quote), 2)} ${builder.market.quote.symbol} (${candle.trades} trades)`
+      );
+    });
+  })()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Candle builder failed:', error);
+      process.exit(1);
+    });
+}
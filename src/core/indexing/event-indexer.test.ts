@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ERC20_ABI, VTHO_ADDRESS } from '@vechain/sdk-core';
+import { useSimulatorFixture } from '../devnet/simulator-fixture';
+import { pairABI } from '../../utils/abis/pair';
+import { fetchPairEvents } from '../trading/pair-events';
+
+// The store directory is read when the indexer module loads
+const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-indexer-'));
+process.env.EVENT_STORE_DIR = storeDir;
+
+type EventIndexer = typeof import('./event-indexer');
+
+describe('event indexer', () => {
+  const fixture = useSimulatorFixture({ name: 'event-indexer-test' });
+  const { simulator, txManager } = fixture;
+  let indexer: EventIndexer;
+  let token: string;
+  let pool: string;
+
+  beforeAll(async () => {
+    indexer = await import('./event-indexer');
+
+    const { privateKey } = fixture;
+    token = simulator.addToken({ symbol: 'TST' });
+    pool = simulator.addPool(token, VTHO_ADDRESS, 10n ** 21n, 10n ** 21n);
+
+    // Blocks 1 to 6 each hold one Sync event of the pool
+    for (let i = 0; i < 6; i++) {
+      await txManager.executeTransaction([txManager.buildTransactionClause(pool, pairABI, 'sync', [])], { privateKey });
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it('records where indexing started', async () => {
+    const { appended, checkpoint } = await indexer.indexPairEvents({ pair: pool, fromBlock: 4, toBlock: 6, network: simulator.network });
+
+    expect(appended).toBe(3);
+    expect(checkpoint).toEqual(expect.objectContaining({ firstIndexedBlock: 4, lastIndexedBlock: 6 }));
+  });
+
+  it('reads a range covered by the store without querying the node', async () => {
+    const filterLogs = jest.spyOn(simulator.thorClient.logs, 'filterRawEventLogs');
+
+    const events = await indexer.loadPairEvents({ pair: pool, fromBlock: 4, toBlock: 6, types: ['Sync'], network: simulator.network });
+
+    expect(events.map(event => event.blockNumber)).toEqual([4, 5, 6]);
+    expect(filterLogs).not.toHaveBeenCalled();
+    filterLogs.mockRestore();
+  });
+
+  it('reads blocks before the first indexed block from the node', async () => {
+    const filterLogs = jest.spyOn(simulator.thorClient.logs, 'filterRawEventLogs');
+
+    const events = await indexer.loadPairEvents({ pair: pool, fromBlock: 1, toBlock: 6, types: ['Sync'], network: simulator.network });
+
+    expect(events.map(event => event.blockNumber)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(filterLogs).toHaveBeenCalledWith(expect.objectContaining({ range: { unit: 'block', from: 1, to: 3 } }));
+    filterLogs.mockRestore();
+  });
+
+  it('moves the first indexed block back when rolling back past it', async () => {
+    await indexer.rollbackPairEvents(pool, 2, simulator.network);
+    expect(await indexer.readCheckpoint(pool, simulator.network)).toEqual(expect.objectContaining({ firstIndexedBlock: 3, lastIndexedBlock: 2 }));
+
+    const { checkpoint } = await indexer.indexPairEvents({ pair: pool, toBlock: 6, network: simulator.network });
+
+    expect(checkpoint).toEqual(expect.objectContaining({ firstIndexedBlock: 3, lastIndexedBlock: 6 }));
+    const stored = await indexer.readPairEvents(pool, { network: simulator.network });
+    expect(stored.filter(event => event.type === 'Sync').map(event => event.blockNumber)).toEqual([3, 4, 5, 6]);
+  });
+
+  it('numbers stored and queried events by their position in the block', async () => {
+    const { privateKey, wallet } = fixture;
+    simulator.mint(token, wallet, 10n ** 18n);
+
+    // Two token transfers, then the pool's LP Transfer, Sync and Mint
+    const { receipt } = await txManager.executeTransaction([
+      txManager.buildTransactionClause(token, ERC20_ABI, 'transfer', [pool, 10n ** 18n]),
+      txManager.buildTransactionClause(VTHO_ADDRESS, ERC20_ABI, 'transfer', [pool, 10n ** 18n]),
+      txManager.buildTransactionClause(pool, pairABI, 'mint', [wallet])
+    ], { privateKey });
+    const block = receipt!.meta.blockNumber;
+    await indexer.indexPairEvents({ pair: pool, toBlock: block, network: simulator.network });
+
+    const stored = await indexer.readPairEvents(pool, { fromBlock: block, toBlock: block, network: simulator.network });
+    const syncs = await fetchPairEvents({ pair: pool, fromBlock: block, toBlock: block, types: ['Sync'], network: simulator.network });
+
+    expect(stored.map(event => [event.type, event.logIndex])).toEqual([['Transfer', 2], ['Sync', 3], ['Mint', 4]]);
+    expect(syncs.map(event => event.logIndex)).toEqual([3]);
+  });
+
+  it('fetches a chunk again when another writer rolled the store back meanwhile', async () => {
+    for (let i = 0; i < 2; i++) {
+      await txManager.executeTransaction([txManager.buildTransactionClause(pool, pairABI, 'sync', [])], { privateKey: fixture.privateKey });
+    }
+    const filterRawEventLogs = simulator.thorClient.logs.filterRawEventLogs;
+    const filterLogs = jest.spyOn(simulator.thorClient.logs, 'filterRawEventLogs').mockImplementationOnce(async filter => {
+      await indexer.rollbackPairEvents(pool, 5, simulator.network);
+      return filterRawEventLogs(filter);
+    });
+
+    const { checkpoint } = await indexer.indexPairEvents({ pair: pool, toBlock: 9, network: simulator.network });
+
+    expect(checkpoint.lastIndexedBlock).toBe(9);
+    expect(filterLogs).toHaveBeenLastCalledWith(expect.objectContaining({ range: { unit: 'block', from: 6, to: 9 } }));
+    const stored = await indexer.readPairEvents(pool, { types: ['Sync'], network: simulator.network });
+    expect(stored.map(event => event.blockNumber)).toEqual([3, 4, 5, 6, 7, 8, 9]);
+    filterLogs.mockRestore();
+  });
+
+  it('waits for the lock of another writer before rolling back', async () => {
+    const lock = path.join(storeDir, `${fs.readdirSync(storeDir).find(file => file.endsWith('.jsonl'))}.lock`);
+    fs.writeFileSync(lock, '');
+    let rolledBack = false;
+    const rollback = indexer.rollbackPairEvents(pool, 8, simulator.network).then(() => {
+      rolledBack = true;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(rolledBack).toBe(false);
+    fs.rmSync(lock);
+    await rollback;
+
+    expect(await indexer.readCheckpoint(pool, simulator.network)).toEqual(expect.objectContaining({ lastIndexedBlock: 8 }));
+    expect(fs.existsSync(lock)).toBe(false);
+  });
+});
@@ -0,0 +1,426 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import "../../utils/wallet-management/env-loader";
+import { fetchPairEvents, PAIR_EVENT_TYPES, PairEvent, PairEventRequest, PairEventType } from '../trading/pair-events';
+import { getTradeParameters } from '../trading/market-data';
+import { loadPairState } from '../trading/reserve-pricing';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Directory holding the JSONL event files and checkpoints
+const EVENT_STORE_DIR = process.env.EVENT_STORE_DIR || path.join(process.cwd(), 'data', 'events');
+
+// Number of blocks fetched (and checkpointed) at a time
+const INDEX_CHUNK_BLOCKS = 10000;
+
+// Delay between catch-up runs in watch mode (one VeChain block)
+const WATCH_INTERVAL_MS = 10000;
+
+// Stores already checked for events past their checkpoint in this process
+const verifiedStores = new Set<string>();
+
+// Store locks: retry interval, and age after which a lock left by a crashed process is taken over
+const LOCK_RETRY_MS = 50;
+const LOCK_STALE_MS = 60000;
+
+// Event fields stored as decimal strings
+const BIGINT_FIELDS = ['reserve0', 'reserve1', 'amount0In', 'amount1In', 'amount0Out', 'amount1Out', 'amount0', 'amount1', 'value'];
+
+/**
+ * Interface for the indexing progress of one pair
+ */
+export interface IndexCheckpoint {
+  pair: string;
+  network: string;
+  firstIndexedBlock: number;  // Events before this block are not in the store
+  lastIndexedBlock: number;
+  updatedAt: string;
+}
+
+/**
+ * Interface for indexer run parameters
+ */
+export interface IndexRequest {
+  pair: string;
+  fromBlock?: number;       // First block when there is no checkpoint yet (defaults to 0)
+  toBlock?: number;         // Defaults to the best block
+  network?: NetworkContext;
+  chunkBlocks?: number;
+}
+
+/**
+ * Get the store file paths of a pair
+ * @param pair Pair address
+ * @param network Network name
+ * @returns Paths of the events file and the checkpoint file
+ */
+function getStorePaths(pair: string, network: string): { events: string; checkpoint: string } {
+  const name = `${network.replace(/[^a-z0-9]+/gi, '_')}-${pair.toLowerCase()}`;
+  return {
+    events: path.join(EVENT_STORE_DIR, `${name}.jsonl`),
+    checkpoint: path.join(EVENT_STORE_DIR, `${name}.checkpoint.json`)
+  };
+}
+
+/**
+ * Run a write to a pair's store while holding its lock file
+ * The indexer and the trading bot (rolling back on reorgs) may write the same store from separate processes.
+ * @param pair Pair address
+ * @param network Network name
+ * @param write Store write to run
+ * @returns Promise with the result of the write
+ */
+async function withStoreLock<T>(pair: string, network: string, write: () => Promise<T>): Promise<T> {
+  const lock = `${getStorePaths(pair, network).events}.lock`;
+  await fs.promises.mkdir(EVENT_STORE_DIR, { recursive: true });
+  for (;;) {
+    try {
+      await (await fs.promises.open(lock, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      const stat = await fs.promises.stat(lock).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        console.warn(`⚠️ Taking over the stale lock of ${lock}`);
+        await fs.promises.rm(lock, { force: true });
+        continue;
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await write();
+  } finally {
+    await fs.promises.rm(lock, { force: true });
+  }
+}
+
+/**
+ * Serialize an event to one JSONL line
+ * @param event Decoded pair event
+ * @returns JSON line without trailing newline
+ */
+export function serializePairEvent(event: PairEvent): string {
+  return JSON.stringify(event, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+/**
+ * Parse a JSONL line back to an event
+ * @param line JSON line
+ * @returns Decoded pair event
+ */
+export function deserializePairEvent(line: string): PairEvent {
+  const event = JSON.parse(line);
+  BIGINT_FIELDS.forEach(field => {
+    if (event[field] !== undefined) {
+      event[field] = BigInt(event[field]);
+    }
+  });
+  return event as PairEvent;
+}
+
+/**
+ * Read the checkpoint of a pair
+ * @param pair Pair address
+ * @param network The network
+ * @returns Promise with the checkpoint, or undefined when the pair was never indexed
+ */
+export async function readCheckpoint(pair: string, network: NetworkContext = getNetworkContext()): Promise<IndexCheckpoint | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(getStorePaths(pair, network.name).checkpoint, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Persist the checkpoint of a pair (written to a temporary file first so it is never half-written)
+ * @param checkpoint Checkpoint to store
+ */
+async function writeCheckpoint(checkpoint: IndexCheckpoint): Promise<void> {
+  const file = getStorePaths(checkpoint.pair, checkpoint.network).checkpoint;
+  await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(checkpoint, null, 2));
+  await fs.promises.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Stream the stored events of a pair
+ * @param pair Pair address
+ * @param network The network
+ * @returns Async iterator over stored events, oldest first
+ */
+async function* streamStoredEvents(pair: string, network: NetworkContext): AsyncGenerator<PairEvent> {
+  const file = getStorePaths(pair, network.name).events;
+  if (!fs.existsSync(file)) {
+    return;
+  }
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim()) {
+      yield deserializePairEvent(line);
+    }
+  }
+}
+
+/**
+ * Drop stored events past the checkpoint, left behind when a run stopped between appending and checkpointing
+ * @param pair Pair address
+ * @param network The network
+ * @param lastIndexedBlock Last block covered by the checkpoint (-1 when there is none)
+ */
+async function truncateUncheckpointedEvents(pair: string, network: NetworkContext, lastIndexedBlock: number): Promise<void> {
+  const file = getStorePaths(pair, network.name).events;
+  if (verifiedStores.has(file) || !fs.existsSync(file)) {
+    verifiedStores.add(file);
+    return;
+  }
+  verifiedStores.add(file);
+
+  const dropped = await withStoreLock(pair, network.name, () => dropEventsAfter(pair, network, lastIndexedBlock));
+  if (dropped > 0) {
+    console.warn(`⚠️ Dropped ${dropped} events past checkpoint block ${lastIndexedBlock}`);
+  }
+}
+
+/**
+ * Truncate the store of a pair after a block; events are stored in block order, so they are cut off at the first
+ * event past the block. Call it while holding the store lock.
+ * @param pair Pair address
+ * @param network The network
+ * @param blockNumber Last block to keep
+ * @returns Promise with the number of events removed
+ */
+async function dropEventsAfter(pair: string, network: NetworkContext, blockNumber: number): Promise<number> {
+  const file = getStorePaths(pair, network.name).events;
+  if (!fs.existsSync(file)) {
+    return 0;
+  }
+  let offset = 0;
+  let truncateAt: number | undefined;
+  let dropped = 0;
+  const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (truncateAt === undefined && line.trim() && deserializePairEvent(line).blockNumber > blockNumber) {
+      truncateAt = offset;
+    }
+    if (truncateAt !== undefined && line.trim()) {
+      dropped++;
+    }
+    offset += Buffer.byteLength(line) + 1;
+  }
+  if (truncateAt !== undefined) {
+    await fs.promises.truncate(file, truncateAt);
+  }
+  return dropped;
+}
+
+/**
+ * Index the events of a pair from its checkpoint up to a block, appending them to the JSONL store
+ * The checkpoint is advanced after every chunk, so an interrupted run resumes where it stopped.
+ * @param request Pair, range and network
+ * @returns Promise with the number of events appended and the new checkpoint
+ */
+export async function indexPairEvents(request: IndexRequest): Promise<{ appended: number; checkpoint: IndexCheckpoint }> {
+  const network = request.network || getNetworkContext();
+  const chunkBlocks = request.chunkBlocks || INDEX_CHUNK_BLOCKS;
+  const paths = getStorePaths(request.pair, network.name);
+  await fs.promises.mkdir(EVENT_STORE_DIR, { recursive: true });
+
+  const existing = await readCheckpoint(request.pair, network);
+  let checkpoint: IndexCheckpoint = existing || {
+    pair: request.pair,
+    network: network.name,
+    firstIndexedBlock: request.fromBlock ?? 0,
+    lastIndexedBlock: (request.fromBlock ?? 0) - 1,
+    updatedAt: new Date().toISOString()
+  };
+  if (existing && request.fromBlock !== undefined && request.fromBlock < existing.firstIndexedBlock) {
+    console.warn(`⚠️ Store of ${request.pair} starts at block ${existing.firstIndexedBlock}; earlier blocks are read from the node when queried`);
+  }
+  await truncateUncheckpointedEvents(request.pair, network, checkpoint.lastIndexedBlock);
+
+  const toBlock = request.toBlock ?? (await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed()))?.number ?? 0;
+  let appended = 0;
+
+  if (checkpoint.lastIndexedBlock < toBlock) {
+    console.log(`📚 Indexing ${request.pair} from block ${checkpoint.lastIndexedBlock + 1} to ${toBlock}...`);
+  }
+
+  while (checkpoint.lastIndexedBlock < toBlock) {
+    const from = checkpoint.lastIndexedBlock + 1;
+    const to = Math.min(from + chunkBlocks - 1, toBlock);
+    const events = await fetchPairEvents({ pair: request.pair, fromBlock: from, toBlock: to, types: PAIR_EVENT_TYPES, network });
+
+    const stored = await withStoreLock(request.pair, network.name, async () => {
+      // A rollback by another process moved the checkpoint while the chunk was fetched: fetch again from there
+      const current = await readCheckpoint(request.pair, network);
+      if (current && current.lastIndexedBlock !== checkpoint.lastIndexedBlock) {
+        checkpoint = current;
+        return false;
+      }
+      if (events.length > 0) {
+        await fs.promises.appendFile(paths.events, `${events.map(serializePairEvent).join('\n')}\n`);
+      }
+      checkpoint = { ...checkpoint, lastIndexedBlock: to, updatedAt: new Date().toISOString() };
+      await writeCheckpoint(checkpoint);
+      return true;
+    });
+
+    if (stored) {
+      appended += events.length;
+      console.log(`Blocks ${from}-${to}: ${events.length} events`);
+    } else {
+      console.warn(`⚠️ Store of ${request.pair} was rolled back to block ${checkpoint.lastIndexedBlock}; indexing again from there`);
+    }
+  }
+
+  return { appended, checkpoint };
+}
+
+/**
+ * Read stored events of a pair
+ * @param pair Pair address
+ * @param options Block range and event types to return
+ * @returns Promise with the matching events, oldest first
+ */
+export async function readPairEvents(
+  pair: string,
+  options: { fromBlock?: number; toBlock?: number; types?: PairEventType[]; network?: NetworkContext } = {}
+): Promise<PairEvent[]> {
+  const network = options.network || getNetworkContext();
+  const events: PairEvent[] = [];
+  for await (const event of streamStoredEvents(pair, network)) {
+    if (options.fromBlock !== undefined && event.blockNumber < options.fromBlock) {
+      continue;
+    }
+    if (options.toBlock !== undefined && event.blockNumber > options.toBlock) {
+      break;
+    }
+    if (!options.types || options.types.includes(event.type)) {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Remove stored events after a block and move the checkpoint back to it (chain reorganization)
+ * The next indexing run re-reads the blocks of the new branch; a run in progress in another process notices the
+ * moved checkpoint before appending and fetches again from it.
+ * @param pair Pair address
+ * @param blockNumber Last block that stays canonical
+ * @param network The network
+ * @returns Promise with the number of events removed
+ */
+export async function rollbackPairEvents(
+  pair: string,
+  blockNumber: number,
+  network: NetworkContext = getNetworkContext()
+): Promise<number> {
+  return withStoreLock(pair, network.name, async () => {
+    const checkpoint = await readCheckpoint(pair, network);
+    if (!checkpoint || checkpoint.lastIndexedBlock <= blockNumber) {
+      return 0;
+    }
+
+    // Checkpoint first: an interrupted rollback is finished by truncateUncheckpointedEvents
+    await writeCheckpoint({
+      ...checkpoint,
+      firstIndexedBlock: Math.min(checkpoint.firstIndexedBlock, blockNumber + 1),
+      lastIndexedBlock: blockNumber,
+      updatedAt: new Date().toISOString()
+    });
+    return dropEventsAfter(pair, network, blockNumber);
+  });
+}
+
+/**
+ * Get pair events from the local store when it covers the end of the range, otherwise from the node
+ * Blocks of the range before the first indexed block are read from the node.
+ * @param request Pair address, block range and event types
+ * @returns Promise with the decoded events, oldest first
+ */
+export async function loadPairEvents(request: PairEventRequest): Promise<PairEvent[]> {
+  const network = request.network || getNetworkContext();
+  const checkpoint = await readCheckpoint(request.pair, network);
+  if (!checkpoint || checkpoint.lastIndexedBlock < request.toBlock || checkpoint.firstIndexedBlock > request.toBlock) {
+    return fetchPairEvents(request);
+  }
+
+  const stored = await readPairEvents(request.pair, { ...request, types: request.types || ['Sync', 'Swap'], network });
+  if (request.fromBlock >= checkpoint.firstIndexedBlock) {
+    return stored;
+  }
+  const missing = await fetchPairEvents({ ...request, toBlock: checkpoint.firstIndexedBlock - 1 });
+  return [...missing, ...stored];
+}
+
+/**
+ * Keep a pair's store up to date: catch up to the best block, then index new blocks as they arrive
+ * @param request Pair and network
+ * @returns Function stopping the watcher
+ */
+export function watchPairEvents(request: IndexRequest): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const run = async () => {
+    try {
+      const { appended } = await indexPairEvents({ ...request, toBlock: undefined });
+      if (appended > 0) {
+        console.log(`✅ Indexed ${appended} new events`);
+      }
+    } catch (error) {
+      console.error('Error indexing pair events:', error);
+    }
+    if (!stopped) {
+      timer = setTimeout(run, WATCH_INTERVAL_MS);
+    }
+  };
+  run();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
+
+// Allow direct execution of this file:
+// npx ts-node src/core/indexing/event-indexer.ts [pairAddress] [fromBlock] [--watch]
+if (require.main === module) {
+  (async () => {
+    const network = getNetworkContext();
+    const args = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+
+    // Default to the VTHO/VET pair of the configured router
+    let pair = args[0];
+    if (!pair) {
+      const { DEX_ROUTER_ADDRESS, VTHO_ADDRESS, vVET_ADDRESS } = getTradeParameters();
+      pair = (await loadPairState(VTHO_ADDRESS, vVET_ADDRESS, DEX_ROUTER_ADDRESS, network)).pair;
+    }
+    const fromBlock = args[1] ? Number(args[1]) : undefined;
+
+    if (process.argv.includes('--watch')) {
+      const stop = watchPairEvents({ pair, fromBlock, network });
+      process.on('SIGINT', () => {
+        stop();
+        process.exit(0);
+      });
+      return;
+    }
+
+    const { appended, checkpoint } = await indexPairEvents({ pair, fromBlock, network });
+    console.log(`✅ Appended ${appended} events; indexed up to block ${checkpoint.lastIndexedBlock}`);
+    process.exit(0);
+  })().catch(error => {
+    console.error('Indexer failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,143 @@
+import "../../utils/wallet-management/env-loader";
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Number of recent blocks remembered; forks deeper than this cannot be resolved
+const DEFAULT_MAX_REORG_DEPTH = 360;
+
+/**
+ * Interface for the block fields needed to follow the canonical chain
+ */
+export interface BlockHeader {
+  number: number;
+  id: string;
+  parentID: string;
+  timestamp: number;
+}
+
+/**
+ * Interface for the effect of a new block on the tracked chain
+ * - extend: the block (and any missed blocks before it) extends the head
+ * - duplicate: the block is already part of the tracked chain
+ * - reorg: the block is on another branch; blocks after the common ancestor were replaced
+ */
+export interface ChainUpdate {
+  type: 'extend' | 'duplicate' | 'reorg';
+  ancestor?: BlockHeader;   // Last block shared by both branches (set for reorgs)
+  dropped: BlockHeader[];   // Blocks no longer canonical, newest first
+  applied: BlockHeader[];   // New canonical blocks, oldest first, ending with the new head
+}
+
+/**
+ * Create a tracker of the recent canonical chain, detecting forks from block parent IDs
+ * @param maxDepth Number of recent blocks remembered
+ * @param network The network used to fetch missing ancestors
+ * @returns Chain tracker
+ */
+export function createChainTracker(
+  maxDepth: number = DEFAULT_MAX_REORG_DEPTH,
+  network: NetworkContext = getNetworkContext()
+) {
+  const blocks = new Map<number, BlockHeader>();
+  let head: BlockHeader | undefined;
+
+  /**
+   * Fetch a block header by ID or number
+   */
+  const fetchHeader = async (revision: string | number): Promise<BlockHeader> => {
+    const block = await network.withFailover(thorClient => thorClient.blocks.getBlockCompressed(revision));
+    if (!block) {
+      throw new Error(`Block ${revision} not found`);
+    }
+    return { number: block.number, id: block.id, parentID: block.parentID, timestamp: block.timestamp };
+  };
+
+  /**
+   * Forget blocks after a number
+   */
+  const dropAfter = (number: number): BlockHeader[] => {
+    const dropped: BlockHeader[] = [];
+    for (let n = head?.number ?? number; n > number; n--) {
+      const block = blocks.get(n);
+      if (block) {
+        dropped.push(block);
+        blocks.delete(n);
+      }
+    }
+    head = blocks.get(number);
+    return dropped;
+  };
+
+  return {
+    /**
+     * Get the tracked head
+     * @returns Head block, undefined before the first block
+     */
+    getHead: (): BlockHeader | undefined => head,
+
+    /**
+     * Get the tracked block at a height
+     * @param number Block number
+     * @returns Block header, undefined when not tracked
+     */
+    getBlock: (number: number): BlockHeader | undefined => blocks.get(number),
+
+    /**
+     * Add a new block, walking back through its ancestors until it connects to the tracked chain
+     * Missed blocks between the head and the new block are fetched and returned in `applied`.
+     * @param header New block
+     * @returns Promise with the chain update
+     */
+    addBlock: async (header: BlockHeader): Promise<ChainUpdate> => {
+      if (blocks.get(header.number)?.id === header.id) {
+        return { type: 'duplicate', dropped: [], applied: [] };
+      }
+
+      const branch: BlockHeader[] = [header];
+      let ancestor: BlockHeader | undefined;
+      if (head) {
+        const lowest = head.number - blocks.size + 1;
+        let cursor = header;
+        for (;;) {
+          const known = blocks.get(cursor.number - 1);
+          if (known && known.id === cursor.parentID) {
+            ancestor = known;
+            break;
+          }
+          if (!known && cursor.number - 1 < lowest) {
+            throw new Error(`Fork at block ${header.number} is deeper than the ${maxDepth} tracked blocks`);
+          }
+          cursor = await fetchHeader(cursor.parentID);
+          branch.unshift(cursor);
+        }
+      }
+
+      const dropped = ancestor ? dropAfter(ancestor.number) : [];
+      branch.forEach(block => blocks.set(block.number, block));
+      head = header;
+
+      // Forget blocks below the reorg window
+      for (let n = head.number - maxDepth; blocks.has(n); n--) {
+        blocks.delete(n);
+      }
+
+      return { type: dropped.length > 0 ? 'reorg' : 'extend', ancestor: dropped.length > 0 ? ancestor : undefined, dropped, applied: branch };
+    },
+
+    /**
+     * Forget blocks after a number (e.g. when the node flags a block as obsolete)
+     * @param number Last block that stays canonical
+     * @returns Dropped blocks, newest first
+     */
+    rollbackTo: (number: number): BlockHeader[] => dropAfter(number),
+
+    /**
+     * Forget every tracked block
+     */
+    reset: (): void => {
+      blocks.clear();
+      head = undefined;
+    }
+  };
+}
+
+export type ChainTracker = ReturnType<typeof createChainTracker>;
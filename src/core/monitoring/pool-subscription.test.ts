@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'isomorphic-ws';
+import { ERC20_ABI, VTHO_ADDRESS } from '@vechain/sdk-core';
+import { useSimulatorFixture } from '../devnet/simulator-fixture';
+import * as connectionManager from '../../utils/contracts/connection-manager';
+import { pairABI } from '../../utils/abis/pair';
+import { getPairEventTopic } from '../trading/pair-events';
+import { PoolUpdate, subscribePoolEvents } from './pool-subscription';
+
+/**
+ * Websocket stand-in: the test pushes the node's messages and connection events itself
+ */
+interface MockSocket extends EventEmitter {
+  closed: boolean;
+}
+
+jest.mock('isomorphic-ws', () => {
+  const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+  class FakeWebSocket extends EventEmitter {
+    static instances: MockSocket[] = [];
+    closed = false;
+
+    constructor() {
+      super();
+      FakeWebSocket.instances.push(this);
+    }
+
+    close() {
+      this.closed = true;
+    }
+  }
+  return { __esModule: true, default: FakeWebSocket };
+});
+
+// Every socket the subscription opened, oldest first
+const instances = (WebSocket as unknown as { instances: MockSocket[] }).instances;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('pool subscription', () => {
+  const fixture = useSimulatorFixture({ name: 'pool-subscription-test' });
+  const { simulator, txManager } = fixture;
+  const backoffDelay = jest.spyOn(connectionManager, 'backoffDelay').mockReturnValue(0);
+  let token: string;
+  let pool: string;
+
+  /**
+   * Mine a block moving the pool's reserves (tokens sent to the pool, then sync)
+   */
+  const moveReserves = async () => {
+    await txManager.executeTransaction([
+      txManager.buildTransactionClause(token, ERC20_ABI, 'transfer', [pool, 10n ** 18n]),
+      txManager.buildTransactionClause(pool, pairABI, 'sync', [])
+    ], { privateKey: fixture.privateKey });
+  };
+
+  // Socket currently subscribed to each event
+  const sockets = new Map<'Sync' | 'Swap', MockSocket>();
+
+  /**
+   * Push the logs of a block as the node would, each on the socket subscribed to its event
+   */
+  const pushBlock = async (blockNumber: number) => {
+    const logs = await simulator.thorClient.logs.filterRawEventLogs({
+      range: { unit: 'block', from: blockNumber, to: blockNumber },
+      criteriaSet: [{ address: pool }]
+    });
+    logs.forEach(log => {
+      const type = log.topics[0].toLowerCase() === getPairEventTopic('Sync').toLowerCase() ? 'Sync' : 'Swap';
+      sockets.get(type)!.emit('message', JSON.stringify(log));
+    });
+  };
+
+  beforeAll(() => {
+    // Subscription URLs are built from the node URL; the sockets themselves are fakes
+    jest.spyOn(simulator.network, 'getNodeUrl').mockReturnValue('http://localhost:8669');
+
+    token = simulator.addToken({ symbol: 'TST' });
+    pool = simulator.addPool(token, VTHO_ADDRESS, 10n ** 21n, 10n ** 21n);
+    simulator.mint(token, fixture.wallet, 10n ** 21n);
+  });
+
+  it('delivers each block buffered during a replay as its own update, in order', async () => {
+    const updates: PoolUpdate[] = [];
+    const subscription = subscribePoolEvents([pool], update => {
+      updates.push(update);
+    }, simulator.network);
+    const [sync, swap] = instances.slice(-2);
+    sockets.set('Sync', sync).set('Swap', swap);
+    sync.emit('open');
+    swap.emit('open');
+
+    // Block 1 arrives live
+    await moveReserves();
+    await pushBlock(1);
+    await wait(1100);
+    expect(updates.map(update => [update.block.number, update.replayed])).toEqual([[1, false]]);
+
+    // The Sync socket drops while blocks 2 and 3 are produced
+    sync.emit('close', 1006, 'abnormal');
+    await moveReserves();
+    await moveReserves();
+    await wait(10);
+    const reconnected = instances[instances.length - 1];
+    expect(reconnected).not.toBe(sync);
+    sockets.set('Sync', reconnected);
+
+    // Blocks 4 and 5 arrive live while the gap (blocks 2 and 3) is being replayed
+    let releaseReplay = () => {};
+    const replayed = new Promise<void>(resolve => {
+      releaseReplay = resolve;
+    });
+    const filterRawEventLogs = simulator.thorClient.logs.filterRawEventLogs;
+    const replayLogs = jest.spyOn(simulator.thorClient.logs, 'filterRawEventLogs').mockImplementation(async filter => {
+      if (filter.range?.from === 2) {
+        await replayed;
+      }
+      return filterRawEventLogs(filter);
+    });
+    reconnected.emit('open');
+    await moveReserves();
+    await moveReserves();
+    await pushBlock(4);
+    await pushBlock(5);
+    await wait(1100);
+    releaseReplay();
+    await wait(100);
+    replayLogs.mockRestore();
+
+    expect(updates.map(update => [update.block.number, update.replayed])).toEqual([
+      [1, false],
+      [2, true],
+      [3, true],
+      [4, false],
+      [5, false]
+    ]);
+    updates.forEach(update => {
+      expect(update.events.every(event => event.blockNumber === update.block.number)).toBe(true);
+      // The token transfer is the block's first log, the pool's Sync its second
+      expect(update.events.map(event => event.logIndex)).toEqual([1]);
+    });
+
+    subscription.close();
+  });
+
+  it('delivers pool events the node reported after their block was delivered', async () => {
+    const updates: PoolUpdate[] = [];
+    const subscription = subscribePoolEvents([pool], update => {
+      updates.push(update);
+    }, simulator.network);
+    const [sync, swap] = instances.slice(-2);
+    sockets.set('Sync', sync).set('Swap', swap);
+    sync.emit('open');
+    swap.emit('open');
+
+    // One block moving the reserves twice; the node's first answer only has the first Sync
+    const { receipt } = await txManager.executeTransaction([
+      txManager.buildTransactionClause(token, ERC20_ABI, 'transfer', [pool, 10n ** 18n]),
+      txManager.buildTransactionClause(pool, pairABI, 'sync', []),
+      txManager.buildTransactionClause(token, ERC20_ABI, 'transfer', [pool, 10n ** 18n]),
+      txManager.buildTransactionClause(pool, pairABI, 'sync', [])
+    ], { privateKey: fixture.privateKey });
+    const block = receipt!.meta.blockNumber;
+    await pushBlock(block);
+    const filterRawEventLogs = simulator.thorClient.logs.filterRawEventLogs;
+    const lagging = jest.spyOn(simulator.thorClient.logs, 'filterRawEventLogs')
+      .mockImplementationOnce(async filter => (await filterRawEventLogs(filter)).slice(0, 1));
+    await wait(1100);
+    lagging.mockRestore();
+    expect(updates.map(update => update.events.map(event => event.logIndex))).toEqual([[1]]);
+
+    // The logs are pushed again: only the missed Sync is new
+    await pushBlock(block);
+    await wait(1100);
+
+    expect(updates.map(update => [update.block.number, update.events.map(event => event.logIndex)])).toEqual([[block, [1]], [block, [3]]]);
+    expect(updates[1].changedPools).toEqual([pool.toLowerCase()]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/arrived after the block was delivered/));
+    subscription.close();
+  });
+
+  it('closes the sockets opened by reconnects and cancels pending reconnects', async () => {
+    const subscription = subscribePoolEvents([pool], () => undefined, simulator.network);
+    const [sync, swap] = instances.slice(-2);
+    backoffDelay.mockReturnValue(0);
+    sync.emit('close', 1006, 'abnormal');
+    await wait(10);
+    const reconnected = instances[instances.length - 1];
+
+    // A reconnect is pending for the Swap socket when the subscription is closed
+    backoffDelay.mockReturnValue(1000);
+    swap.emit('close', 1006, 'abnormal');
+    const count = instances.length;
+    subscription.close();
+    await wait(1100);
+
+    expect(reconnected.closed).toBe(true);
+    expect(instances.length).toBe(count);
+  });
+});
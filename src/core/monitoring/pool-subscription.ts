@@ -0,0 +1,350 @@
+import { subscriptions } from '@vechain/sdk-network';
+import WebSocket from 'isomorphic-ws';
+import "../../utils/wallet-management/env-loader";
+import { backoffDelay } from '../../utils/contracts/connection-manager';
+import { pairABI } from '../../utils/abis/pair';
+import { fetchPairEvents, PairEvent } from '../trading/pair-events';
+import { BlockInfo } from '../trading/strategies/types';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Pool events the subscription listens to
+const SUBSCRIBED_EVENTS: ('Sync' | 'Swap')[] = ['Sync', 'Swap'];
+
+// Time to wait for more logs of a block before it is considered complete
+const BLOCK_FLUSH_DELAY_MS = 1000;
+
+// Delivered blocks whose log indexes are remembered to recognize logs pushed after their block was delivered
+const RECENT_BLOCKS = 32;
+
+/**
+ * Interface for the pool activity of one block
+ */
+export interface PoolUpdate {
+  block: BlockInfo;
+  events: PairEvent[];      // Sync and Swap events of the watched pools, in log order
+  changedPools: string[];   // Pools whose reserves changed in the block
+  replayed?: boolean;       // True for blocks fetched over REST after a reconnect
+}
+
+/**
+ * Interface for a raw log pushed by the event subscription
+ */
+interface SubscriptionLog {
+  address: string;
+  topics: string[];
+  data: string;
+  obsolete?: boolean;
+  meta: { blockID: string; blockNumber: number; blockTimestamp: number; txID: string; clauseIndex: number };
+}
+
+// Event entries of the pair ABI
+type PairEventFragment = Extract<(typeof pairABI)[number], { type: 'event' }>;
+
+/**
+ * Get the event subscription URL of a pool event
+ * @param pool Pair address
+ * @param type Event name
+ * @param network The network to use
+ * @returns Websocket URL
+ */
+export function getPoolEventSubscriptionUrl(pool: string, type: 'Sync' | 'Swap', network: NetworkContext): string {
+  const event = pairABI.find((entry): entry is PairEventFragment => entry.type === 'event' && entry.name === type);
+  if (!event) {
+    throw new Error(`Pair ABI has no ${type} event`);
+  }
+  return subscriptions.getEventSubscriptionUrl(network.getNodeUrl(), event, [], { address: pool });
+}
+
+/**
+ * Subscribe to the Swap and Sync events of a set of pools
+ * Logs are grouped per block; the callback is only called for blocks in which a pool's reserves changed.
+ * @param pools Pair addresses to watch
+ * @param onUpdate Callback receiving the decoded pool activity of a block
+ * @param network The network to use
+ * @param onObsolete Callback receiving the last canonical block when the node flags delivered logs as obsolete (fork)
+ * @returns Subscription handle with a close function
+ */
+export function subscribePoolEvents(
+  pools: string[],
+  onUpdate: (update: PoolUpdate) => void | Promise<void>,
+  network: NetworkContext = getNetworkContext(),
+  onObsolete?: (blockNumber: number) => void | Promise<void>
+) {
+  const sockets = new Map<string, WebSocket>();
+  const lastReserves = new Map<string, string>();
+  const pending = new Map<string, SubscriptionLog[]>();   // Logs not delivered yet, by block ID
+  let flushTimer: NodeJS.Timeout | undefined;
+  let closed = false;
+  const reconnecting = new Set<string>();
+  const reconnectAttempts = new Map<string, number>();
+  const reconnectTimers = new Set<NodeJS.Timeout>();
+
+  // Updates are delivered one at a time, in block order
+  let delivery: Promise<void> = Promise.resolve();
+
+  // Last block delivered (or skipped for lack of reserve changes), and the log indexes delivered for recent blocks
+  let lastBlock: number | undefined;
+  let lastBlockID: string | undefined;
+  const recentBlocks = new Map<string, Set<number>>();
+  let backfilling: Promise<void> | undefined;
+
+  // Buffered blocks are read over REST one batch at a time, in block order
+  let reading: Promise<void> = Promise.resolve();
+
+  /**
+   * Deliver the events of one block when they changed a pool's reserves
+   * Events of the last delivered block that were not delivered yet (logs the node pushed late) are delivered as a
+   * second update of that block; late events of older blocks are dropped, newer reserves were delivered since.
+   */
+  const deliver = (events: PairEvent[], replayed: boolean) => {
+    if (events.length === 0) {
+      return;
+    }
+    const { blockNumber, blockID } = events[0];
+    const known = recentBlocks.get(blockID);
+    const fresh = events.filter(event => !known?.has(event.logIndex));
+    if (fresh.length === 0) {
+      return;
+    }
+    if (lastBlock !== undefined && blockNumber <= lastBlock && blockID !== lastBlockID) {
+      console.warn(`⚠️ Dropped ${fresh.length} late pool event(s) of block ${blockNumber}: block ${lastBlock} was already delivered`);
+      return;
+    }
+    if (known) {
+      console.warn(`⚠️ ${fresh.length} pool event(s) of block ${blockNumber} arrived after the block was delivered; delivering them`);
+    }
+    const delivered = known || new Set<number>();
+    if (!known) {
+      recentBlocks.set(blockID, delivered);
+      if (recentBlocks.size > RECENT_BLOCKS) {
+        recentBlocks.delete(recentBlocks.keys().next().value!);
+      }
+    }
+    lastBlock = blockNumber;
+    lastBlockID = blockID;
+    fresh.forEach(event => delivered.add(event.logIndex));
+
+    // Only blocks that moved reserves are worth a strategy run
+    const changedPools = new Set<string>();
+    fresh.forEach(event => {
+      if (event.type !== 'Sync') {
+        return;
+      }
+      const pool = event.pair.toLowerCase();
+      const reserves = `${event.reserve0}:${event.reserve1}`;
+      if (lastReserves.get(pool) !== reserves) {
+        lastReserves.set(pool, reserves);
+        changedPools.add(pool);
+      }
+    });
+    if (changedPools.size === 0) {
+      return;
+    }
+
+    const update: PoolUpdate = {
+      block: { number: blockNumber, id: blockID, timestamp: events[0].blockTimestamp },
+      events: fresh,
+      changedPools: Array.from(changedPools),
+      replayed
+    };
+    delivery = delivery
+      .then(() => onUpdate(update))
+      .catch(error => console.error('Error processing pool update:', error));
+  };
+
+  /**
+   * Read the Sync and Swap events of pools in one block over REST, in log order
+   * Pushed logs carry no log index; the node's numbering keeps live, replayed and stored events comparable.
+   * @param blockNumber Block number
+   * @param blockID Block ID; events of another branch are left out
+   * @param blockPools Pools to read
+   */
+  const readBlockEvents = async (blockNumber: number, blockID: string, blockPools: string[]): Promise<PairEvent[]> => {
+    const events = (await Promise.all(blockPools.map(pool =>
+      fetchPairEvents({ pair: pool, fromBlock: blockNumber, toBlock: blockNumber, types: SUBSCRIBED_EVENTS, network })
+    ))).flat();
+    return events
+      .filter(event => event.blockID.toLowerCase() === blockID.toLowerCase())
+      .sort((a, b) => a.logIndex - b.logIndex);
+  };
+
+  /**
+   * Read and deliver buffered blocks, oldest first
+   */
+  const readBlocks = async (blocks: SubscriptionLog[][]) => {
+    for (const logs of blocks) {
+      const { blockNumber, blockID } = logs[0].meta;
+      const blockPools = Array.from(new Set(logs.map(log => log.address.toLowerCase())));
+      const events = await readBlockEvents(blockNumber, blockID, blockPools);
+      if (events.length === 0) {
+        console.warn(`⚠️ No pool events of block ${blockNumber} (${blockID}) on the node; the block was skipped`);
+        continue;
+      }
+      deliver(events, false);
+    }
+  };
+
+  /**
+   * Deliver the buffered blocks, oldest first
+   * Sync and Swap logs arrive on separate sockets, so a block is only complete once no log arrived for a while.
+   */
+  const flush = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+    }
+    if (pending.size === 0) {
+      return;
+    }
+    // Live blocks wait until the missed ones have been replayed
+    if (backfilling) {
+      flushTimer = setTimeout(flush, BLOCK_FLUSH_DELAY_MS);
+      return;
+    }
+    const blocks = Array.from(pending.values()).sort((a, b) => a[0].meta.blockNumber - b[0].meta.blockNumber);
+    pending.clear();
+    reading = reading
+      .then(() => readBlocks(blocks))
+      .catch(error => console.error('Error reading pool events:', error));
+  };
+
+  /**
+   * Fetch the pool events of the blocks produced while a subscription was down and replay them in order
+   */
+  const backfill = async () => {
+    // Blocks being read are delivered first, so the gap starts after them
+    await reading;
+    if (lastBlock === undefined) {
+      return;
+    }
+    const best = await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed());
+    const fromBlock = lastBlock + 1;
+    const toBlock = best?.number ?? lastBlock;
+    if (toBlock < fromBlock) {
+      return;
+    }
+
+    const events = (await Promise.all(pools.map(pool =>
+      fetchPairEvents({ pair: pool, fromBlock, toBlock, types: SUBSCRIBED_EVENTS, network })
+    ))).flat();
+    const blocks = new Map<number, PairEvent[]>();
+    events.forEach(event => blocks.set(event.blockNumber, [...(blocks.get(event.blockNumber) || []), event]));
+    console.warn(`⚠️ Subscription gap of ${toBlock - fromBlock + 1} block(s) (${fromBlock}-${toBlock}); replaying ${blocks.size} block(s) with pool events`);
+
+    Array.from(blocks.keys())
+      .sort((a, b) => a - b)
+      .forEach(blockNumber => deliver(blocks.get(blockNumber)!.sort((a, b) => a.logIndex - b.logIndex), true));
+  };
+
+  /**
+   * Forget a block the node flagged as obsolete so the new branch's logs are delivered again
+   */
+  const handleObsolete = (log: SubscriptionLog) => {
+    pending.delete(log.meta.blockID);
+    if (lastBlock === undefined || log.meta.blockNumber > lastBlock) {
+      return;
+    }
+    const canonical = log.meta.blockNumber - 1;
+    console.warn(`⚠️ Pool events of block ${log.meta.blockNumber} are obsolete; rolling back to block ${canonical}`);
+    lastBlock = canonical;
+    lastBlockID = undefined;
+    lastReserves.clear();
+    if (onObsolete) {
+      delivery = delivery
+        .then(() => onObsolete(canonical))
+        .catch(error => console.error('Error rolling back pool updates:', error));
+    }
+  };
+
+  const connect = (pool: string, type: 'Sync' | 'Swap') => {
+    const key = `${pool}:${type}`;
+    const nodeUrl = network.getNodeUrl();
+    const ws = new WebSocket(getPoolEventSubscriptionUrl(pool, type, network));
+    sockets.set(key, ws);
+
+    ws.on('error', (error: Error) => {
+      console.error(`${type} subscription error (${pool}):`, error);
+    });
+
+    // Replay what was missed while the socket was down
+    ws.on('open', () => {
+      network.markNodeHealthy(nodeUrl);
+      reconnectAttempts.delete(key);
+      if (!reconnecting.delete(key) || backfilling) {
+        return;
+      }
+      backfilling = backfill()
+        .catch(error => console.error('Error replaying missed pool events:', error))
+        .finally(() => {
+          backfilling = undefined;
+          // Deliver the live blocks buffered during the replay, in block order
+          flush();
+        });
+    });
+
+    ws.on('close', (code: number, reason: string) => {
+      if (closed) {
+        return;
+      }
+      console.log(`${type} subscription closed (${pool}): ${code} - ${reason}`);
+
+      // Reconnect with exponential backoff, failing over to the next healthy node
+      network.markNodeFailed(nodeUrl, `Websocket closed: ${code}`);
+      const attempt = reconnectAttempts.get(key) || 0;
+      reconnectAttempts.set(key, attempt + 1);
+      const delay = backoffDelay(attempt);
+      console.log(`Reconnecting to ${network.getNodeUrl()} in ${delay} ms...`);
+      reconnecting.add(key);
+      const timer = setTimeout(() => {
+        reconnectTimers.delete(timer);
+        if (!closed) {
+          connect(pool, type);
+        }
+      }, delay);
+      reconnectTimers.add(timer);
+    });
+
+    ws.on('message', (data: WebSocket.Data) => {
+      try {
+        const log = JSON.parse(data.toString()) as SubscriptionLog;
+        if (log.obsolete) {
+          handleObsolete(log);
+          return;
+        }
+
+        const blockLogs = pending.get(log.meta.blockID);
+        if (blockLogs) {
+          blockLogs.push(log);
+        } else {
+          pending.set(log.meta.blockID, [log]);
+        }
+        if (flushTimer) {
+          clearTimeout(flushTimer);
+        }
+        flushTimer = setTimeout(flush, BLOCK_FLUSH_DELAY_MS);
+      } catch (error) {
+        console.error('Error parsing pool event:', error);
+      }
+    });
+  };
+
+  pools.forEach(pool => SUBSCRIBED_EVENTS.forEach(type => connect(pool, type)));
+  console.log(`Subscribed to ${SUBSCRIBED_EVENTS.join('/')} events of ${pools.length} pool(s)`);
+
+  return {
+    /**
+     * Close every subscription, including sockets opened by reconnects, and cancel pending reconnects
+     */
+    close: (): void => {
+      closed = true;
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+      reconnectTimers.forEach(timer => clearTimeout(timer));
+      reconnectTimers.clear();
+      sockets.forEach(ws => ws.close());
+    }
+  };
+}
+
+export type PoolSubscription = ReturnType<typeof subscribePoolEvents>;
@@ -0,0 +1,130 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'isomorphic-ws';
+import { VTHO_ADDRESS } from '@vechain/sdk-core';
+import { useSimulatorFixture } from '../devnet/simulator-fixture';
+import { NATIVE_VET } from '../tokens/token-metadata';
+import { registerStrategy } from '../trading/strategies/registry';
+import { StrategyError, StrategyFill, StrategyOrder, TradingPair } from '../trading/strategies/types';
+
+jest.mock('isomorphic-ws', () => {
+  const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+  class FakeWebSocket extends EventEmitter {
+    static instances: EventEmitter[] = [];
+
+    constructor() {
+      super();
+      FakeWebSocket.instances.push(this);
+    }
+  }
+  return { __esModule: true, default: FakeWebSocket };
+});
+
+// Block stream sockets opened by the bot, oldest first
+const instances = (WebSocket as unknown as { instances: EventEmitter[] }).instances;
+
+const ONE = 10n ** 18n;
+const PAIR: TradingPair = { base: VTHO_ADDRESS, quote: NATIVE_VET, symbol: 'VTHO/VET' };
+
+/**
+ * Poll until a condition holds (the bot handles pushed blocks asynchronously)
+ */
+const until = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('trading bot', () => {
+  // The bot signs with the testnet key of the environment
+  const fixture = useSimulatorFixture({ name: 'trading-bot-test', vtho: 10_000n * ONE, signerFromEnv: true });
+  const { simulator } = fixture;
+  let wallet: string;
+
+  // Orders the test strategy returns, by block number, and what it was told about them
+  const ordersByBlock = new Map<number, StrategyOrder[]>();
+  const evaluated: number[] = [];
+  const fills: StrategyFill[] = [];
+  const errors: StrategyError[] = [];
+
+  /**
+   * Push the simulator's head block to the bot, as the node's block subscription would
+   */
+  const pushHead = async () => {
+    const block = (await simulator.thorClient.blocks.getBestBlockCompressed())!;
+    instances[instances.length - 1].emit('message', JSON.stringify(block));
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(simulator.network, 'getNodeUrl').mockReturnValue('http://localhost:8669');
+
+    // The bot reads its network and strategy from the environment
+    process.env.NETWORK = simulator.network.name;
+    process.env.STRATEGY = 'bot-test';
+
+    wallet = fixture.wallet;
+    simulator.addPool(VTHO_ADDRESS, simulator.contracts.vVET!, 1_000_000n * ONE, 50_000n * ONE);
+
+    registerStrategy('bot-test', () => ({
+      name: 'bot-test',
+      pairs: [PAIR],
+      init: () => undefined,
+      onBlock: context => {
+        evaluated.push(context.block.number);
+        return ordersByBlock.get(context.block.number) || [];
+      },
+      onFill: fill => {
+        fills.push(fill);
+      },
+      onError: error => {
+        errors.push(error);
+      }
+    }));
+
+    // The bot module reads the network when it loads
+    const bot = await import('./trading-bot');
+    await bot.main();
+  });
+
+  afterAll(() => {
+    delete process.env.NETWORK;
+    delete process.env.STRATEGY;
+  });
+
+  it('reports an order outside its limit price back to the strategy', async () => {
+    const number = simulator.mine()[0].number;
+    ordersByBlock.set(number, [{ side: 'sell', pair: PAIR, size: 100n * ONE, limitPrice: 1 }]);
+
+    await pushHead();
+    await until(() => errors.length === 1);
+
+    expect(errors[0].error.message).toMatch(/worse than the sell limit 1/);
+    expect(errors[0].order).toBe(ordersByBlock.get(number)![0]);
+    expect(simulator.balanceOf(VTHO_ADDRESS, wallet)).toBe(10_000n * ONE);
+  });
+
+  it('replays missed blocks without executing their orders', async () => {
+    const [missed, latest] = simulator.mine(2).map(block => block.number);
+    ordersByBlock.set(missed, [{ side: 'sell', pair: PAIR, size: 100n * ONE }]);
+
+    await pushHead();
+    await until(() => evaluated.includes(latest) && errors.length === 2);
+
+    expect(evaluated.slice(-2)).toEqual([missed, latest]);
+    expect(errors[1].error.message).toBe('Order not executed: replayed block');
+    expect(fills).toHaveLength(0);
+  });
+
+  it('executes an order and reports the fill', async () => {
+    const number = simulator.mine()[0].number;
+    ordersByBlock.set(number, [{ side: 'sell', pair: PAIR, size: 100n * ONE }]);
+    const vetBefore = simulator.getVetBalance(wallet);
+
+    await pushHead();
+    await until(() => fills.length === 1);
+
+    expect(fills[0]).toEqual(expect.objectContaining({ amountIn: 100n * ONE, block: expect.objectContaining({ number }) }));
+    expect(fills[0].transactionId).toBeDefined();
+    expect(simulator.getVetBalance(wallet) - vetBefore).toBe(fills[0].amountOut);
+  });
+});
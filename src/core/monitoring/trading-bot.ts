@@ -1,29 +1,96 @@
-import { subscriptions, TESTNET_URL, MAINNET_URL } from '@vechain/sdk-network';
+import { subscriptions } from '@vechain/sdk-network';
 import WebSocket from 'isomorphic-ws';
 import "../../utils/wallet-management/env-loader"; 
-import { displayTradeInformation, simulateTradingDecision, TradeDecision } from '../trading/strategy-simulator';
-import { executeTrade } from '../trading/swap-executor';
+import { describeOrder, displayTradeInformation, simulateTradingDecision, TradeDecision } from '../trading/strategy-simulator';
+import { executeOrder } from '../trading/swap-executor';
+import { loadStrategiesFromEnv } from '../trading/strategies/registry';
+import { applyFill } from '../trading/strategies/context';
+import { BlockInfo, Position, Strategy, StrategyFill } from '../trading/strategies/types';
+import { createGasPayerFromEnv, createSignerFromEnv } from '../../utils/wallet-management/key-utils';
+import { createTransactionManager, describeGasPayer } from '../../utils/contracts/contract-writer';
+import { getTransactionTracker, TransactionLifecycleEvent } from '../../utils/contracts/transaction-tracker';
+import { addCandleEvents, rollbackCandles, trackCandles, updateCandlesForBlock } from '../indexing/candle-builder';
+import { rollbackPairEvents } from '../indexing/event-indexer';
+import { rollbackPriceOracle, updatePriceOracle } from '../trading/price-oracle';
+import { PairEvent } from '../trading/pair-events';
+import { subscribePoolEvents } from './pool-subscription';
+import { BlockHeader, createChainTracker } from './chain-tracker';
+import { backoffDelay } from '../../utils/contracts/connection-manager';
+import { getNetworkContext } from '../../utils/contracts/network-context';
 
 // Configuration for the block listener
 let EXECUTE_REAL_TRADES = true; // Set to true to execute actual trades
-const SLIPPAGE_TOLERANCE = 5; // 5% slippage tolerance
+const SLIPPAGE_TOLERANCE_BPS = 500; // 5% slippage tolerance in basis points
+const CANDLE_HISTORY_BLOCKS = 8640; // Blocks of history used to seed candles (about one day)
+const FILL_CONFIRMATIONS = Number(process.env.FILL_CONFIRMATIONS || 0); // Blocks on top of a fill before it is final
+
+// block: run the strategies on every block; events: only on blocks where a watched pool's reserves changed
+const LISTENER_MODE = process.env.LISTENER_MODE === 'events' ? 'events' : 'block';
+
+// Strategies selected by STRATEGY / STRATEGY_CONFIG, and the positions their fills built up
+let strategies: Strategy[] = [];
+const positions: Position[] = [];
+let walletAddress: string | undefined;
+
+// Pools of the traded pairs, watched in events mode
+const watchedPools: string[] = [];
+
+// Recent canonical blocks, used to replay missed blocks and detect forks in block mode
+const chainTracker = createChainTracker();
+
+// Fills waiting for FILL_CONFIRMATIONS before they reach positions and strategies
+interface PendingFill {
+  strategy: Strategy;
+  fill: StrategyFill;
+  blockNumber: number;      // Block the transaction was included in
+}
+const pendingFills: PendingFill[] = [];
+
+// Blocks are handled one at a time, in order
+let blockQueue: Promise<void> = Promise.resolve();
+
+// Consecutive websocket reconnects, for the backoff delay
+let reconnectAttempts = 0;
+
+// Block stream socket in use (replaced on every reconnect), the pending reconnect and whether the listener was closed
+let blockSocket: WebSocket | undefined;
+let blockReconnectTimer: NodeJS.Timeout | undefined;
+let blockListenerClosed = false;
 
 /**
  * Initialize the block listener using SDK websocket
+ * @returns Listener handle closing the current socket and stopping reconnects
  */
 function initializeBlockListener() {
+  blockListenerClosed = false;
+  connectBlockStream();
+  return {
+    close: (): void => {
+      blockListenerClosed = true;
+      if (blockReconnectTimer) {
+        clearTimeout(blockReconnectTimer);
+      }
+      blockSocket?.close();
+    }
+  };
+}
+
+/**
+ * Connect to the block stream of the active node, reconnecting when the socket closes
+ */
+function connectBlockStream() {
   // Get the network from environment or default to testnet
-  const network = process.env.NETWORK || "testnet";
+  const network = getNetworkContext();
   
-  // Determine the websocket URL based on network
-  const wsURL = subscriptions.getBlockSubscriptionUrl(
-    network === "mainnet" ? MAINNET_URL : TESTNET_URL
-  );
+  // Connect to the active node of the network (see connection-manager)
+  const nodeUrl = network.getNodeUrl();
+  const wsURL = subscriptions.getBlockSubscriptionUrl(nodeUrl);
 
   console.log(`Connecting to websocket: ${wsURL}`);
   
   // Create the websocket connection
   const ws = new WebSocket(wsURL);
+  blockSocket = ws;
 
   // Error handling
   ws.on('error', (error: Error) => {
@@ -32,6 +99,8 @@ function initializeBlockListener() {
 
   // Connection opened
   ws.on('open', () => {
+    reconnectAttempts = 0;
+    network.markNodeHealthy(nodeUrl);
     console.log('Connected to VeChain block stream');
     console.log('Listening for new blocks...');
   });
@@ -39,95 +108,374 @@ function initializeBlockListener() {
   // Connection closed
   ws.on('close', (code: number, reason: string) => {
     console.log(`Disconnected from block stream: ${code} - ${reason}`);
+    if (blockListenerClosed) {
+      return;
+    }
     
-    // Reconnect after a delay
-    console.log('Reconnecting in 5 seconds...');
-    setTimeout(() => initializeBlockListener(), 5000);
+    // Reconnect with exponential backoff, failing over to the next healthy node
+    network.markNodeFailed(nodeUrl, `Websocket closed: ${code}`);
+    const delay = backoffDelay(reconnectAttempts++);
+    network.probeNodes()
+      .catch(error => console.warn('⚠️ Node health probe failed:', error))
+      .finally(() => {
+        if (blockListenerClosed) {
+          return;
+        }
+        console.log(`Reconnecting to ${network.getNodeUrl()} in ${delay} ms...`);
+        blockReconnectTimer = setTimeout(() => {
+          blockReconnectTimer = undefined;
+          connectBlockStream();
+        }, delay);
+      });
   });
 
   // Message received (new block)
-  ws.on('message', async (data: WebSocket.Data) => {
+  ws.on('message', (data: WebSocket.Data) => {
+    blockQueue = blockQueue
+      .then(() => handleBlockMessage(data))
+      .catch(error => console.error('Error processing block data:', error));
+  });
+
+  return ws;
+}
+
+/**
+ * Handle a block pushed by the block subscription, replaying missed blocks and resolving forks first
+ * @param data Raw websocket message
+ */
+async function handleBlockMessage(data: WebSocket.Data) {
+  // Parse the block data
+  const blockData = JSON.parse(data.toString());
+  const header: BlockHeader = { number: blockData.number, id: blockData.id, parentID: blockData.parentID, timestamp: blockData.timestamp };
+  
+  // The node flags blocks of an abandoned branch as obsolete
+  if (blockData.obsolete) {
+    if (chainTracker.getBlock(header.number)?.id === header.id) {
+      console.warn(`⚠️ Block ${header.number} (${header.id}) is obsolete; rolling back to block ${header.number - 1}`);
+      chainTracker.rollbackTo(header.number - 1);
+      await rollbackDerivedState(header.number - 1);
+    }
+    return;
+  }
+  
+  let update;
+  try {
+    update = await chainTracker.addBlock(header);
+  } catch (error) {
+    console.error('⚠️ Could not connect block to the tracked chain; restarting from it:', error);
+    chainTracker.reset();
+    update = await chainTracker.addBlock(header);
+  }
+  
+  if (update.type === 'duplicate') {
+    console.log(`Skipping block ${header.number}: already processed`);
+    return;
+  }
+  if (update.type === 'reorg' && update.ancestor) {
+    console.warn(`⚠️ Chain reorganization: ${update.dropped.length} block(s) after ${update.ancestor.number} replaced by ${update.applied.length}`);
+    await rollbackDerivedState(update.ancestor.number);
+  } else if (update.applied.length > 1) {
+    console.warn(`⚠️ Missed ${update.applied.length - 1} block(s) (${update.applied[0].number}-${header.number - 1}); replaying them before resuming`);
+  }
+  
+  // Blocks of the new branch (or missed while disconnected) before the pushed one
+  for (const block of update.applied.slice(0, -1)) {
+    console.log(`\n----- Replaying Block ${block.number} -----`);
+    await processBlock({ number: block.number, id: block.id, timestamp: block.timestamp }, undefined, true);
+  }
+  
+  console.log('\n----- New Block Received -----');
+  console.log(`Block Number: ${blockData.number}`);
+  console.log(`Timestamp: ${new Date(blockData.timestamp * 1000).toISOString()}`);
+  console.log(`Transactions: ${blockData.transactions?.length || 0}`);
+  
+  await processBlock({ number: header.number, id: header.id, timestamp: header.timestamp });
+  await confirmPendingFills(header.number);
+  
+  console.log('-----------------------------\n');
+}
+
+/**
+ * Roll derived state back to the common ancestor of a fork
+ * Candles, TWAP observations and indexed events after the block are dropped and re-read from the new branch;
+ * pending fills included after it are checked against the new branch.
+ * @param blockNumber Last block that stays canonical
+ */
+async function rollbackDerivedState(blockNumber: number) {
+  rollbackCandles(blockNumber);
+  rollbackPriceOracle(blockNumber);
+  
+  for (const pool of watchedPools) {
     try {
-      // Parse the block data
-      const blockData = JSON.parse(data.toString());
-      
-      console.log('\n----- New Block Received -----');
-      console.log(`Block Number: ${blockData.number}`);
-      console.log(`Timestamp: ${new Date(blockData.timestamp * 1000).toISOString()}`);
-      console.log(`Transactions: ${blockData.transactions?.length || 0}`);
-      
-      // Simulate a trading decision
-      const tradeDecision = await simulateTradingDecision();
-      
-      // Display the trading information
-      displayTradeInformation(tradeDecision);
-      
-      // If we should execute a real trade and the decision is to trade
-      if (EXECUTE_REAL_TRADES && tradeDecision.shouldTrade) {
-        await executeRealTrade(tradeDecision);
+      const removed = await rollbackPairEvents(pool, blockNumber);
+      if (removed > 0) {
+        console.log(`Removed ${removed} indexed event(s) of ${pool} after block ${blockNumber}`);
       }
-      
-      console.log('-----------------------------\n');
     } catch (error) {
-      console.error('Error processing block data:', error);
+      console.warn(`⚠️ Could not roll back indexed events of ${pool}:`, error);
     }
-  });
+  }
+  
+  const network = getNetworkContext();
+  for (const pending of pendingFills.filter(pending => pending.blockNumber > blockNumber)) {
+    const receipt = await network.withFailover(thorClient => thorClient.transactions.getTransactionReceipt(pending.fill.transactionId || ''));
+    if (receipt && !receipt.reverted) {
+      pending.blockNumber = receipt.meta.blockNumber;
+      console.log(`Fill ${pending.fill.transactionId} is included in block ${pending.blockNumber} of the new branch`);
+      continue;
+    }
+    pendingFills.splice(pendingFills.indexOf(pending), 1);
+    console.warn(`⚠️ Fill ${pending.fill.transactionId} is no longer on chain after the reorganization`);
+    await pending.strategy.onError({
+      error: new Error(`Transaction ${pending.fill.transactionId} was removed by a chain reorganization`),
+      order: pending.fill.order,
+      block: pending.fill.block
+    });
+  }
+}
 
-  return ws;
+/**
+ * Apply a fill to the positions and report it to its strategy
+ * @param strategy Strategy that placed the order
+ * @param fill Executed order
+ */
+async function finalizeFill(strategy: Strategy, fill: StrategyFill) {
+  applyFill(positions, fill);
+  await strategy.onFill(fill);
+}
+
+/**
+ * Finalize pending fills that reached FILL_CONFIRMATIONS
+ * @param headNumber Current head block number
+ */
+async function confirmPendingFills(headNumber: number) {
+  for (const pending of pendingFills.filter(pending => headNumber - pending.blockNumber >= FILL_CONFIRMATIONS)) {
+    pendingFills.splice(pendingFills.indexOf(pending), 1);
+    console.log(`✅ Fill ${pending.fill.transactionId} final after ${headNumber - pending.blockNumber} confirmation(s)`);
+    await finalizeFill(pending.strategy, pending.fill);
+  }
+}
+
+/**
+ * Initialize the pool listener: only blocks in which a watched pool's reserves changed reach the strategies
+ * @param pools Pair addresses to watch
+ */
+function initializePoolListener(pools: string[]) {
+  const network = getNetworkContext();
+  console.log(`Subscribing to Swap/Sync events of ${pools.join(', ')}`);
+  
+  return subscribePoolEvents(pools, async update => {
+    console.log(update.replayed ? '\n----- Replaying Pool Update -----' : '\n----- Pool Update Received -----');
+    console.log(`Block Number: ${update.block.number}`);
+    console.log(`Timestamp: ${new Date(update.block.timestamp * 1000).toISOString()}`);
+    console.log(`Reserves changed: ${update.changedPools.join(', ')} (${update.events.length} events)`);
+    
+    await processBlock(update.block, update.events, update.replayed);
+    await confirmPendingFills(update.block.number);
+    
+    console.log('-----------------------------\n');
+  }, network, rollbackDerivedState);
+}
+
+/**
+ * Update derived state for a block and run the strategies on it
+ * @param block Block number, ID and timestamp
+ * @param poolEvents Decoded pool events of the block when they were pushed by the subscription
+ * @param replayed True for blocks fetched after the fact (missed or on a new branch); their orders are reported back as not executed
+ */
+async function processBlock(block: BlockInfo, poolEvents?: PairEvent[], replayed: boolean = false) {
+  // Add this block's swaps to the candles before the strategies read them
+  try {
+    if (poolEvents) {
+      addCandleEvents(poolEvents, block.number);
+    } else {
+      await updateCandlesForBlock(block.number);
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not update candles:', error);
+  }
+  
+  // Keep TWAP observations of the watched pairs current
+  try {
+    await updatePriceOracle();
+  } catch (error) {
+    console.warn('⚠️ Could not update price oracle:', error);
+  }
+  
+  // Run the strategies on this block
+  const tradeDecision = await simulateTradingDecision(strategies, block, positions, walletAddress);
+  
+  // Display the trading information
+  displayTradeInformation(tradeDecision);
+  
+  // Orders of replayed blocks are stale by the time they would be sent
+  if (replayed && tradeDecision.shouldTrade) {
+    for (const { strategy, order } of tradeDecision.orders) {
+      console.log(`[${strategy.name}] Not executing ${describeOrder(order)}: replayed block`);
+      await strategy.onError({ error: new Error('Order not executed: replayed block'), order, block });
+    }
+    return;
+  }
+  
+  // If we should execute a real trade and the decision is to trade
+  if (EXECUTE_REAL_TRADES && tradeDecision.shouldTrade) {
+    await executeRealTrade(tradeDecision);
+  }
 }
 
 /**
- * Execute a real trade based on the trading decision
+ * Execute the orders of a trading decision and report the outcome to the strategies
  * @param decision The trading decision
  */
 async function executeRealTrade(decision: TradeDecision) {
   console.log('\n----- Executing Real Trade -----');
   
-  try {
-    // Execute the trade with the current price ratio
-    const result = await executeTrade(SLIPPAGE_TOLERANCE, decision.ratio);
+  for (const { strategy, order } of decision.orders) {
+    if (!EXECUTE_REAL_TRADES) {
+      break;
+    }
     
-    if (result.success) {
-      console.log("\n✅ Trade executed successfully!");
-      console.log(`Transaction ID: ${result.transactionId}`);
-      console.log(`Gas used: ${result.receipt?.gasUsed || 'unknown'}`);
-      
-      // Disable trading after a successful trade to prevent unintended multiple trades
-      // Comment this line out if you want continuous trading
-      EXECUTE_REAL_TRADES = false;
-      console.log("⚠️ Trading disabled after successful execution. Set EXECUTE_REAL_TRADES to true to enable again.");
-    } else {
-      console.error("\n❌ Trade execution failed:", result.error);
-      if (result.error && result.error.includes("allowance")) {
-        console.log("🔄 This appears to be an allowance issue. Please run the token approval script separately:");
-        console.log("npx ts-node scripts/tokens/token-approval.ts");
+    try {
+      console.log(`[${strategy.name}] ${describeOrder(order)}`);
+      const result = await executeOrder(order, SLIPPAGE_TOLERANCE_BPS);
+      getTransactionTracker().prune();
+
+      // A dry run only simulated the swap: nothing was filled
+      if (result.dryRun) {
+        console.log(`🧪 Dry run ${result.success ? `would use ${result.simulation?.gasUsed} gas` : `failed: ${result.error}`}`);
+        continue;
+      }
+
+      // Executed orders always carry the quoted amounts
+      if (result.success && result.details) {
+        console.log("\n✅ Trade executed successfully!");
+        console.log(`Transaction ID: ${result.transactionId}`);
+        console.log(`Gas used: ${result.receipt?.gasUsed || 'unknown'}`);
+        
+        const fill: StrategyFill = {
+          order,
+          amountIn: result.details.amountIn,
+          amountOut: result.details.amountOut,
+          price: result.details.price,
+          transactionId: result.transactionId,
+          block: decision.block
+        };
+        
+        // Fills reach positions and strategies once they have enough confirmations
+        if (FILL_CONFIRMATIONS > 0) {
+          pendingFills.push({ strategy, fill, blockNumber: result.receipt?.meta?.blockNumber ?? decision.block.number });
+          console.log(`Fill pending until ${FILL_CONFIRMATIONS} confirmation(s)`);
+        } else {
+          await finalizeFill(strategy, fill);
+        }
+        
+        // Disable trading after a successful trade to prevent unintended multiple trades
+        // Comment this line out if you want continuous trading
+        EXECUTE_REAL_TRADES = false;
+        console.log("⚠️ Trading disabled after successful execution. Set EXECUTE_REAL_TRADES to true to enable again.");
+      } else {
+        console.error(`\n❌ Trade execution failed (${result.errorCode}):`, result.error);
+        if (result.errorCode === 'approvalFailed') {
+          console.log("🔄 This appears to be an allowance issue. Please run the token approval script separately:");
+          console.log("npx ts-node scripts/tokens/token-approval.ts");
+        }
+        await strategy.onError({ error: new Error(result.error), order, block: decision.block });
       }
+    } catch (error) {
+      console.error('Error executing trade:', error);
+      console.log("⚠️ Continuing to monitor blocks while resolving the error...");
+      await strategy.onError({ error: error instanceof Error ? error : new Error(String(error)), order, block: decision.block });
     }
-  } catch (error) {
-    console.error('Error executing trade:', error);
-    console.log("⚠️ Continuing to monitor blocks while resolving the error...");
+  }
+}
+
+/**
+ * Log a lifecycle event of one of the bot's transactions
+ * @param event Transaction lifecycle event
+ */
+function handleTransactionEvent(event: TransactionLifecycleEvent) {
+  const { transaction } = event;
+  switch (event.type) {
+    case 'sent':
+      console.log(`📤 Transaction ${transaction.id} sent (gasPriceCoef ${transaction.gasPriceCoef}, expires after ${transaction.expiration} blocks)`);
+      break;
+    case 'confirmed':
+      console.log(`📥 Transaction ${transaction.id} included in block ${transaction.receipt?.meta.blockNumber}`);
+      break;
+    case 'reverted':
+      console.warn(`⚠️ Transaction ${transaction.id} reverted in block ${transaction.receipt?.meta.blockNumber}`);
+      break;
+    case 'expired':
+      console.warn(`⚠️ Transaction ${transaction.id} expired unmined${transaction.error ? `: ${transaction.error}` : ''}`);
+      break;
+    case 'resubmitted':
+      console.log(`🔁 Transaction ${event.previous?.id} resubmitted as ${transaction.id} (attempt ${transaction.resubmissions + 1})`);
+      break;
   }
 }
 
 /**
  * Main function to start the block listener
  */
-async function main() {
+export async function main() {
   try {
     console.log('Starting VeChain block monitor with trading simulator...');
+    
+    // Load and initialize the configured strategies
+    strategies = loadStrategiesFromEnv();
+    for (const strategy of strategies) {
+      await strategy.init();
+    }
+    console.log(`Strategies: ${strategies.map(strategy => strategy.name).join(', ')}`);
+    
+    // Build candles for every traded pair from recent history, then keep them live
+    for (const pair of strategies.flatMap(strategy => strategy.pairs)) {
+      try {
+        const builder = await trackCandles(pair, CANDLE_HISTORY_BLOCKS);
+        if (!watchedPools.some(pool => pool.toLowerCase() === builder.market.pool.toLowerCase())) {
+          watchedPools.push(builder.market.pool);
+        }
+      } catch (error) {
+        console.warn(`⚠️ Could not build candles for ${pair.symbol || pair.base}:`, error);
+      }
+    }
+    
+    // Wallet balances are passed to the strategies when a signer is configured
+    const network = getNetworkContext();
+    const { signer } = createSignerFromEnv(network.name);
+    if (signer && (signer.mnemonic || signer.privateKey)) {
+      walletAddress = createTransactionManager(network).getWalletAddress(signer);
+    }
+    
+    // Gas of the bot's transactions is paid by its configured gas payer (VIP-191), if any
+    const gasPayer = createGasPayerFromEnv(network.name);
+    if (gasPayer) {
+      console.log(`⛽ Fee delegation: gas paid by ${describeGasPayer(gasPayer)}`);
+    }
+    
+    // Report the lifecycle of the bot's transactions (expiries and resubmissions happen while a trade waits)
+    getTransactionTracker(network).onEvent(handleTransactionEvent);
     console.log(`Mode: ${EXECUTE_REAL_TRADES ? 'LIVE TRADING' : 'SIMULATION ONLY'}`);
     if (EXECUTE_REAL_TRADES) {
       console.log(`⚠️ WARNING: REAL TRADES WILL BE EXECUTED`);
-      console.log(`Slippage Tolerance: ${SLIPPAGE_TOLERANCE}%`);
+      console.log(`Slippage Tolerance: ${SLIPPAGE_TOLERANCE_BPS} bps`);
     }
     
-    // Start the block listener
-    const ws = initializeBlockListener();
+    // Start the pool listener in events mode, falling back to the block listener
+    let listener: { close: () => void };
+    if (LISTENER_MODE === 'events' && watchedPools.length > 0) {
+      listener = initializePoolListener(watchedPools);
+    } else {
+      if (LISTENER_MODE === 'events') {
+        console.warn('⚠️ No pools resolved for the traded pairs; falling back to block mode');
+      }
+      listener = initializeBlockListener();
+    }
     
     // Handle script termination
     process.on('SIGINT', () => {
       console.log('Closing connection...');
-      ws.close();
+      listener.close();
       process.exit(0);
     });
     
@@ -138,5 +486,7 @@ async function main() {
   }
 }
 
-// Run the main function
-main().catch(console.error); 
\ No newline at end of file
+// Run the main function when executed directly
+if (require.main === module) {
+  main().catch(console.error);
+} 
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Address } from '@vechain/sdk-core';
+import { useSimulatorFixture } from '../devnet/simulator-fixture';
+import { buildApprovalClauseIfNeeded, checkAndApproveTokenAllowance } from './erc20-approve';
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+describe('erc20 approve', () => {
+  // The approval functions sign with the testnet key of the environment
+  const fixture = useSimulatorFixture({ name: 'erc20-approve-test', signerFromEnv: true });
+  const { simulator } = fixture;
+  const router = simulator.contracts.router!;
+  let token: string;
+  let wallet: string;
+
+  beforeAll(() => {
+    wallet = fixture.wallet;
+    token = simulator.addToken({ symbol: 'TST' });
+  });
+
+  it('approves the maximum amount when the allowance is insufficient', async () => {
+    const result = await checkAndApproveTokenAllowance(token, router, (10n ** 18n).toString(), simulator.network);
+
+    expect(result).toEqual(expect.objectContaining({ success: true, approved: true, spender: router }));
+    expect(result.transactionId).toBeDefined();
+    expect(simulator.allowance(token, wallet, router)).toBe(MAX_UINT256);
+  });
+
+  it('sends no transaction when the allowance is already sufficient', async () => {
+    const sendTransaction = jest.spyOn(simulator.thorClient.transactions, 'sendTransaction');
+
+    const result = await checkAndApproveTokenAllowance(token, router, (10n ** 18n).toString(), simulator.network);
+
+    expect(result).toEqual(expect.objectContaining({ success: true, approved: true, allowance: MAX_UINT256.toString() }));
+    expect(result.transactionId).toBeUndefined();
+    expect(sendTransaction).not.toHaveBeenCalled();
+    sendTransaction.mockRestore();
+  });
+
+  it('builds an approve clause for the exact amount only when it is needed', async () => {
+    const other = simulator.addToken({ symbol: 'OTH' });
+
+    const clause = await buildApprovalClauseIfNeeded(other, wallet, router, '5000', simulator.network);
+
+    expect(clause).toEqual(expect.objectContaining({ to: Address.of(other).toString().toLowerCase() }));
+    expect(clause!.data).toContain(5000n.toString(16).padStart(64, '0'));
+    expect(await buildApprovalClauseIfNeeded(token, wallet, router, '5000', simulator.network)).toBeNull();
+  });
+});
@@ -1,8 +1,9 @@
 import { createTransactionManager } from "../../utils/contracts/contract-writer";
-import { createSignerFromEnv } from "../../utils/wallet-management/key-utils";
-import { VTHO_ADDRESS, Address, Clause,ERC20_ABI } from "@vechain/sdk-core";
+import { createGasPayerFromEnv, createSignerFromEnv } from "../../utils/wallet-management/key-utils";
+import { VTHO_ADDRESS, Address, Clause,ERC20_ABI, TransactionClause } from "@vechain/sdk-core";
 import { createContractInterface } from "../../utils/contracts/contract-reader";
 import "../../utils/wallet-management/env-loader";
+import { getNetworkContext, NetworkContext } from "../../utils/contracts/network-context";
 
 /**
  * Interface for token approval result
@@ -21,14 +22,14 @@ export interface TokenApprovalResult {
  * @param tokenAddress The token contract address
  * @param spenderAddress The address that will spend the tokens (e.g. DEX router)
  * @param requiredAmount The amount that needs to be approved
- * @param network The network to use (testnet or mainnet)
+ * @param network The network to use
  * @returns Promise with approval status
  */
 export async function checkAndApproveTokenAllowance(
   tokenAddress: string,
   spenderAddress: string,
   requiredAmount: string, 
-  network: string = "testnet"
+  network: NetworkContext = getNetworkContext()
 ): Promise<TokenApprovalResult> {
   try {
     console.log(`\n🔍 Checking token allowance for ${tokenAddress}`);
@@ -37,7 +38,7 @@ export async function checkAndApproveTokenAllowance(
     const txManager = createTransactionManager(network);
     
     // Get signer from environment
-    const { signer, source } = createSignerFromEnv(network);
+    const { signer, source } = createSignerFromEnv(network.name);
     if (!signer || (!signer.mnemonic && !signer.privateKey)) {
       return { 
         success: false, 
@@ -111,7 +112,8 @@ export async function checkAndApproveTokenAllowance(
         { 
           waitForReceipt: true,
           gas: 100000,        // Fixed gas limit
-          gasPriceCoef: 0     // Use base gas price
+          gasPriceCoef: 0,    // Use base gas price
+          gasPayer: createGasPayerFromEnv(network.name)
         }
       );
       
@@ -144,17 +146,52 @@ export async function checkAndApproveTokenAllowance(
   }
 }
 
+/**
+ * Build an approve clause for exactly the required amount when the current allowance is insufficient
+ * The clause is meant to be sent in the same transaction as the clause that spends the tokens
+ * @param tokenAddress The token contract address
+ * @param ownerAddress The wallet that owns the tokens
+ * @param spenderAddress The address that will spend the tokens (e.g. DEX router)
+ * @param requiredAmount The amount that needs to be approved
+ * @param network The network to use
+ * @returns Promise with the approve clause, or null when the allowance is already sufficient
+ */
+export async function buildApprovalClauseIfNeeded(
+  tokenAddress: string,
+  ownerAddress: string,
+  spenderAddress: string,
+  requiredAmount: string,
+  network: NetworkContext = getNetworkContext()
+): Promise<TransactionClause | null> {
+  const tokenInterface = createContractInterface(tokenAddress, ERC20_ABI, network);
+  const allowance = await tokenInterface.callPlain("allowance", ownerAddress, spenderAddress);
+  const allowanceBigInt = typeof allowance === 'string' ? BigInt(allowance) : (allowance as bigint);
+  
+  if (allowanceBigInt >= BigInt(requiredAmount)) {
+    console.log(`✅ Token allowance already sufficient: ${allowanceBigInt.toString()}`);
+    return null;
+  }
+  
+  console.log(`⚠️ Token allowance insufficient (${allowanceBigInt.toString()}), adding approve clause for ${requiredAmount}`);
+  return createTransactionManager(network).buildTransactionClause(
+    tokenAddress,
+    ERC20_ABI,
+    "approve",
+    [spenderAddress, requiredAmount]
+  );
+}
+
 /**
  * Check and approve VTHO token allowance for a spender (convenience function)
  * @param spenderAddress The address that will spend the VTHO (e.g. DEX router)
  * @param requiredAmount The amount that needs to be approved
- * @param network The network to use (testnet or mainnet)
+ * @param network The network to use
  * @returns Promise with approval status
  */
 export async function checkAndApproveVTHOAllowance(
   spenderAddress: string,
   requiredAmount: string,
-  network: string = "testnet"
+  network: NetworkContext = getNetworkContext()
 ): Promise<TokenApprovalResult> {
   return checkAndApproveTokenAllowance(
     VTHO_ADDRESS,
@@ -177,12 +214,12 @@ if (require.main === module) {
     // Get arguments from command line or use defaults
     const spender = process.argv[2] || "0x91e42759290239a62ac757cf85bb5b74ace57927"; // Default to DEX Router
     const amount = process.argv[3] || "10000000000000000000"; // Default to 10 VTHO
-    const network = process.env.NETWORK || "testnet";
+    const network = getNetworkContext();
     
     console.log(`Running token approval for VTHO with:`);
     console.log(`- Spender: ${spender}`);
     console.log(`- Amount: ${amount}`);
-    console.log(`- Network: ${network}`);
+    console.log(`- Network: ${network.name}`);
     
     checkAndApproveVTHOAllowance(spender, amount, network)
       .then(result => {
@@ -2,6 +2,8 @@ import { createContractInterface } from "../../utils/contracts/contract-reader";
 import { VTHO_ADDRESS } from "@vechain/sdk-core";
 import { ERC20_ABI } from "../../utils/abis/erc20";
 import "../../utils/wallet-management/env-loader";
+import { formatTokenAmount, tokenAmount } from "../../utils/amounts/token-amount";
+import { getNetworkContext, NetworkContext } from "../../utils/contracts/network-context";
 
 // Default wallet address - override with command line argument
 const DEFAULT_WALLET_ADDRESS = "0x0000000000000000000000000000000000000000";
@@ -10,12 +12,12 @@ const DEFAULT_WALLET_ADDRESS = "0x0000000000000000000000000000000000000000";
  * Get token balance and information
  * @param tokenAddress The token contract address to check balance for
  * @param walletAddress The wallet address to check balance for
- * @param network The network to use (testnet or mainnet)
+ * @param network The network to use
  */
-export async function getTokenInfo(tokenAddress: string, walletAddress: string, network: string = "testnet") {
+export async function getTokenInfo(tokenAddress: string, walletAddress: string, network: NetworkContext = getNetworkContext()) {
   console.log(`🔍 Querying token information for ${tokenAddress}...`);
   console.log(`Wallet: ${walletAddress}`);
-  console.log(`Network: ${network}`);
+  console.log(`Network: ${network.name}`);
   
   try {
     // Create a contract interface for the token
@@ -33,9 +35,11 @@ export async function getTokenInfo(tokenAddress: string, walletAddress: string,
     // Get total supply
     const totalSupply = await tokenContract.call("totalSupply");
     
-    // Format values for display
-    const balanceValue = Number(balance) / Math.pow(10, tokenInfo.decimals);
-    const totalSupplyValue = Number(totalSupply) / Math.pow(10, tokenInfo.decimals);
+    // Format values for display (exact fixed-point formatting)
+    const balanceAmount = tokenAmount(balance.toString(), tokenInfo);
+    const totalSupplyAmount = tokenAmount(totalSupply.toString(), tokenInfo);
+    const balanceValue = formatTokenAmount(balanceAmount);
+    const totalSupplyValue = formatTokenAmount(totalSupplyAmount);
     
     // Format and display the token information
     console.log("\n=== Token Information ===");
@@ -43,13 +47,13 @@ export async function getTokenInfo(tokenAddress: string, walletAddress: string,
     console.log(`Token Symbol: ${tokenInfo.symbol}`);
     console.log(`Decimals: ${tokenInfo.decimals}`);
     console.log(`Total Supply: ${totalSupply.toString()}`);
-    console.log(`Total Supply (formatted): ${totalSupplyValue.toLocaleString()} ${tokenInfo.symbol}`);
+    console.log(`Total Supply (formatted): ${totalSupplyValue} ${tokenInfo.symbol}`);
     console.log(`Contract Address: ${tokenAddress}`);
-    console.log(`Network: ${network}`);
+    console.log(`Network: ${network.name}`);
      
     console.log("\n=== Token Balance Info ===");
     console.log(`Wallet Address: ${walletAddress}`);
-    console.log(`Balance: ${balanceValue.toLocaleString()} ${tokenInfo.symbol}`);
+    console.log(`Balance: ${balanceValue} ${tokenInfo.symbol}`);
     console.log(`Raw Balance: ${balance.toString()}`);
     
     // Return token information and balance
@@ -59,6 +63,8 @@ export async function getTokenInfo(tokenAddress: string, walletAddress: string,
       decimals: tokenInfo.decimals,
       totalSupply: totalSupply.toString(),
       balance: balance.toString(),
+      balanceAmount,
+      totalSupplyAmount,
       formattedBalance: balanceValue,
       formattedTotalSupply: totalSupplyValue
     };
@@ -88,7 +94,7 @@ async function main() {
   const tokenAddress = args[1] || VTHO_ADDRESS;
   
   // Get network from environment or default to testnet
-  const network = process.env.NETWORK || "testnet";
+  const network = getNetworkContext();
   
   // Get token info and balance
   await getTokenInfo(tokenAddress, walletAddress, network);
@@ -1,6 +1,8 @@
 import { createContractInterface } from "../../utils/contracts/contract-reader";
 import { VTHO_ADDRESS, ERC20_ABI } from "@vechain/sdk-core";
 import "../../utils/wallet-management/env-loader"; // This automatically loads environment variables
+import { formatTokenAmount, tokenAmount } from "../../utils/amounts/token-amount";
+import { getNetworkContext, NetworkContext } from "../../utils/contracts/network-context";
 
 
 // Default wallet address - override with command line argument
@@ -10,12 +12,12 @@ const DEFAULT_WALLET_ADDRESS = "0x0000000000000000000000000000000000000000";
  * Get token balance and information
  * @param tokenAddress The token contract address to check balance for
  * @param walletAddress The wallet address to check balance for
- * @param network The network to use (testnet or mainnet)
+ * @param network The network to use
  */
-async function getTokenInfo(tokenAddress: string, walletAddress: string, network: string = "testnet") {
+async function getTokenInfo(tokenAddress: string, walletAddress: string, network: NetworkContext = getNetworkContext()) {
   console.log(`🔍 Querying token information for ${tokenAddress}...`);
   console.log(`Wallet: ${walletAddress}`);
-  console.log(`Network: ${network}`);
+  console.log(`Network: ${network.name}`);
   
   try {
     // Create a contract interface for the token
@@ -43,11 +45,11 @@ async function getTokenInfo(tokenAddress: string, walletAddress: string, network
     console.log(`Total Supply: ${supplyBigInt.toString()}`);
     
     // Format the total supply for human-readable display
-    const formattedSupply = Number(supplyBigInt) / Math.pow(10, decimals as number);
-    console.log(`Total Supply (formatted): ${formattedSupply.toLocaleString()} ${symbol}`);
+    const formattedSupply = formatTokenAmount(tokenAmount(supplyBigInt, Number(decimals)));
+    console.log(`Total Supply (formatted): ${formattedSupply} ${symbol}`);
     
     console.log(`Contract Address: ${tokenAddress}`);
-    console.log(`Network: ${network}`);
+    console.log(`Network: ${network.name}`);
      
     console.log("\n=== Token Balance Info ===");
     console.log(`Wallet Address: ${walletAddress}`);
@@ -56,9 +58,9 @@ async function getTokenInfo(tokenAddress: string, walletAddress: string, network
     try {
       const balance = await tokenContract.callPlain("balanceOf", walletAddress);
       const balanceBigInt = typeof balance === 'string' ? BigInt(balance) : balance as bigint;
-      const formattedBalance = Number(balanceBigInt) / Math.pow(10, decimals as number);
+      const formattedBalance = formatTokenAmount(tokenAmount(balanceBigInt, Number(decimals)));
       
-      console.log(`Balance: ${formattedBalance.toLocaleString()} ${symbol}`);
+      console.log(`Balance: ${formattedBalance} ${symbol}`);
       console.log(`Raw Balance: ${balanceBigInt.toString()}`);
     } catch (error) {
       console.error(`Error fetching balance: ${error}`);
@@ -88,7 +90,7 @@ async function main() {
   const tokenAddress = args[1] || VTHO_ADDRESS;
   
   // Get network from environment or default to testnet
-  const network = process.env.NETWORK || "testnet";
+  const network = getNetworkContext();
   
   // Get token info and balance
   await getTokenInfo(tokenAddress, walletAddress, network);
@@ -0,0 +1,66 @@
+import { createContractInterface } from "../../utils/contracts/contract-reader";
+import { ERC20_ABI } from "@vechain/sdk-core";
+import "../../utils/wallet-management/env-loader";
+import { getNetworkContext, NetworkContext } from "../../utils/contracts/network-context";
+
+/**
+ * Sentinel address used to refer to native VET in quotes and swaps.
+ * Routers cannot trade native VET directly, so it is mapped to the router's WETH() (vVET).
+ */
+export const NATIVE_VET = "VET";
+
+/**
+ * Interface for basic ERC20 token metadata
+ */
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Metadata cache keyed by network and lower-cased token address
+const metadataCache = new Map<string, TokenMetadata>();
+
+/**
+ * Check whether a token reference points to native VET
+ * @param token Token address or the NATIVE_VET sentinel
+ * @returns True when the token is native VET
+ */
+export function isNativeVET(token: string): boolean {
+  return token.toUpperCase() === NATIVE_VET;
+}
+
+/**
+ * Get token symbol and decimals, querying the chain only once per token
+ * @param tokenAddress The token contract address (or NATIVE_VET)
+ * @param network The network to use
+ * @returns Promise with the token metadata
+ */
+export async function getTokenMetadata(
+  tokenAddress: string,
+  network: NetworkContext = getNetworkContext()
+): Promise<TokenMetadata> {
+  if (isNativeVET(tokenAddress)) {
+    return { address: NATIVE_VET, symbol: "VET", decimals: 18 };
+  }
+
+  const cacheKey = `${network.name}:${tokenAddress.toLowerCase()}`;
+  const cached = metadataCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const tokenContract = createContractInterface(tokenAddress, ERC20_ABI, network);
+  const [decimals, symbol] = await tokenContract.multiCallPlain([
+    { methodName: "decimals" },
+    { methodName: "symbol" }
+  ]);
+
+  const metadata: TokenMetadata = {
+    address: tokenAddress,
+    symbol: String(symbol),
+    decimals: Number(decimals)
+  };
+  metadataCache.set(cacheKey, metadata);
+  return metadata;
+}
@@ -0,0 +1,39 @@
+import { Address, ERC20_ABI, VTHO_ADDRESS } from "@vechain/sdk-core";
+import { multiContractCallPlain } from "../../utils/contracts/contract-reader";
+import { isNativeVET, NATIVE_VET } from "./token-metadata";
+import "../../utils/wallet-management/env-loader";
+import { getNetworkContext, NetworkContext } from "../../utils/contracts/network-context";
+
+/**
+ * Get raw balances of native VET, VTHO and any ERC20 tokens for a wallet
+ * @param walletAddress The wallet address to check balances for
+ * @param tokens Token addresses (or NATIVE_VET) to include
+ * @param network The network to use
+ * @returns Promise with token address (or NATIVE_VET) -> raw balance
+ */
+export async function getWalletBalances(
+  walletAddress: string,
+  tokens: string[],
+  network: NetworkContext = getNetworkContext()
+): Promise<Record<string, bigint>> {
+  const account = await network.withFailover(thorClient => thorClient.accounts.getAccount(Address.of(walletAddress)));
+
+  const balances: Record<string, bigint> = {
+    [NATIVE_VET]: BigInt(account.balance),
+    [VTHO_ADDRESS]: BigInt(account.energy)
+  };
+
+  // ERC20 balances in a single request
+  const erc20Tokens = Array.from(new Set(tokens.filter(token =>
+    !isNativeVET(token) && token.toLowerCase() !== VTHO_ADDRESS.toLowerCase()
+  )));
+  const results = await multiContractCallPlain(
+    erc20Tokens.map(token => ({ address: token, abi: ERC20_ABI, methodName: "balanceOf", params: [walletAddress] })),
+    network
+  );
+  erc20Tokens.forEach((token, i) => {
+    balances[token] = BigInt(results[i] as string | bigint);
+  });
+
+  return balances;
+}
@@ -0,0 +1,371 @@
+import "../../utils/wallet-management/env-loader";
+import { applySlippageBps, parseTokenAmount, priceOf, tokenAmount, toDisplayNumber } from '../../utils/amounts/token-amount';
+import { getTokenMetadata, TokenMetadata } from '../tokens/token-metadata';
+import { buildPriceRatio, getTradeParameters, resolvePathToken } from './market-data';
+import { getAmountOut, getOrientedReserves, loadPairState, PairState } from './reserve-pricing';
+import { PairEvent } from './pair-events';
+import { loadPairEvents } from '../indexing/event-indexer';
+import { createCandleBuilder } from '../indexing/candle-builder';
+import { applyFill, isSamePair, pairName } from './strategies/context';
+import { loadStrategiesFromEnv } from './strategies/registry';
+import { BlockInfo, Position, Strategy, StrategyFill, StrategyOrder, TradingPair } from './strategies/types';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Uniswap V2 swap fee in basis points
+const DEFAULT_FEE_BPS = 30;
+
+/**
+ * Interface for backtest parameters
+ */
+export interface BacktestConfig {
+  strategy: Strategy;
+  fromBlock: number;
+  toBlock: number;
+  initialBalances: Record<string, bigint>;  // Raw balances keyed by pair.base / pair.quote
+  pair?: TradingPair;       // Market to replay (defaults to the strategy's first pair)
+  router?: string;          // Router whose pair is replayed (defaults to DEX_ROUTER_ADDRESS)
+  feeBps?: number;          // Pool swap fee (defaults to 30 = 0.3%)
+  slippageBps?: number;     // Adverse price movement applied to every fill on top of the pool math (defaults to 0)
+  network?: NetworkContext;
+}
+
+/**
+ * Interface for the pool being replayed
+ */
+export interface BacktestMarket {
+  pair: TradingPair;
+  pairState: PairState;     // Pair address and token order; reserves are taken from the events
+  basePathToken: string;    // Pool token for the base (WETH when the base is native VET)
+  base: TokenMetadata;
+  quote: TokenMetadata;
+}
+
+/**
+ * Interface for one point of the equity curve
+ */
+export interface EquityPoint {
+  blockNumber: number;
+  timestamp: number;
+  price: number;            // Pool mid price of base in quote
+  equity: number;           // Balances valued in the quote token
+}
+
+/**
+ * Interface for a simulated fill
+ */
+export interface BacktestTrade {
+  block: BlockInfo;
+  order: StrategyOrder;
+  amountIn: bigint;
+  amountOut: bigint;
+  price: number;            // Execution price of base in quote
+  profit?: number;          // Realised profit in quote for sells, against the average cost of the base held
+}
+
+/**
+ * Interface for backtest results
+ */
+export interface BacktestResult {
+  strategy: string;
+  pair: TradingPair;
+  fromBlock: number;
+  toBlock: number;
+  blocksEvaluated: number;
+  swapEvents: number;
+  initialEquity: number;
+  finalEquity: number;
+  pnl: number;              // finalEquity - initialEquity, in quote
+  pnlPercent: number;
+  maxDrawdown: number;      // Largest peak-to-trough equity loss as a fraction of the peak
+  tradeCount: number;
+  winRate: number;          // Share of profitable sells (0 when nothing was sold)
+  rejectedOrders: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  finalBalances: Record<string, bigint>;
+}
+
+/**
+ * Get the pool mid price of base in quote
+ * @param market Replayed market
+ * @param state Pair state with current reserves
+ * @returns Price, or 0 for an empty pool
+ */
+function midPrice(market: BacktestMarket, state: PairState): number {
+  const [reserveBase, reserveQuote] = getOrientedReserves(state, market.basePathToken);
+  if (reserveBase === 0n) {
+    return 0;
+  }
+  return priceOf(tokenAmount(reserveBase, market.base), tokenAmount(reserveQuote, market.quote));
+}
+
+/**
+ * Replay pair events through a strategy without network access
+ * The strategy is evaluated once per block that emitted events, after that block's final Sync. Blocks before the
+ * first Sync are skipped because the reserves are unknown until then.
+ * @param config Strategy, balances and fill model (block range and network are not used)
+ * @param market Replayed market
+ * @param events Sync and Swap events of the pair, oldest first
+ * @returns Promise with the backtest result
+ */
+export async function replayPairEvents(
+  config: BacktestConfig,
+  market: BacktestMarket,
+  events: PairEvent[]
+): Promise<BacktestResult> {
+  const { strategy } = config;
+  const { pair } = market;
+  const feeBps = BigInt(config.feeBps ?? DEFAULT_FEE_BPS);
+  const slippageBps = config.slippageBps ?? 0;
+
+  const balances: Record<string, bigint> = { [pair.base]: 0n, [pair.quote]: 0n, ...config.initialBalances };
+  const positions: Position[] = [];
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let state: PairState = { ...market.pairState, reserve0: 0n, reserve1: 0n };
+  const baseIsToken0 = state.token0.toLowerCase() === market.basePathToken.toLowerCase();
+  const candleBuilder = createCandleBuilder({ pair, pool: state.pair, baseIsToken0, base: market.base, quote: market.quote });
+  let synced = false;
+  let rejectedOrders = 0;
+  let swapEvents = 0;
+
+  // Average cost of the base held, used to decide whether a sell was a win
+  let heldBase = 0;
+  let averageCost = 0;
+
+  const equity = (price: number) =>
+    toDisplayNumber(tokenAmount(balances[pair.quote], market.quote)) +
+    toDisplayNumber(tokenAmount(balances[pair.base], market.base)) * price;
+
+  // Reject an order and tell the strategy why
+  const reject = async (order: StrategyOrder, block: BlockInfo, reason: string) => {
+    rejectedOrders++;
+    await strategy.onError({ error: new Error(reason), order, block });
+  };
+
+  await strategy.init();
+
+  // Group events by block, keeping log order
+  const blocks = new Map<number, PairEvent[]>();
+  events.forEach(event => blocks.set(event.blockNumber, [...(blocks.get(event.blockNumber) || []), event]));
+
+  for (const blockEvents of blocks.values()) {
+    for (const event of blockEvents) {
+      if (event.type === 'Sync') {
+        state = { ...state, reserve0: event.reserve0, reserve1: event.reserve1, blockTimestampLast: event.blockTimestamp };
+        synced = true;
+      } else {
+        swapEvents++;
+      }
+    }
+    candleBuilder.addEvents(blockEvents);
+    if (!synced) {
+      continue;
+    }
+
+    const block: BlockInfo = {
+      number: blockEvents[0].blockNumber,
+      id: blockEvents[0].blockID,
+      timestamp: blockEvents[0].blockTimestamp
+    };
+    const price = midPrice(market, state);
+    if (heldBase === 0 && averageCost === 0) {
+      // Initial base holdings are valued at the first observed price
+      heldBase = toDisplayNumber(tokenAmount(balances[pair.base], market.base));
+      averageCost = price;
+    }
+
+    // Snapshot priced like getMarketSnapshot: selling one whole base token
+    const [reserveBase, reserveQuote] = getOrientedReserves(state, market.basePathToken);
+    const oneBase = 10n ** BigInt(market.base.decimals);
+    const snapshotOut = getAmountOut(oneBase, reserveBase, reserveQuote, feeBps);
+
+    let orders: StrategyOrder[] = [];
+    try {
+      orders = await strategy.onBlock({
+        block,
+        markets: [{ pair, ratio: buildPriceRatio(market.base, market.quote, oneBase, snapshotOut) }],
+        balances: { ...balances },
+        positions,
+        candles: (query, interval, options) => (isSamePair(query, pair) ? candleBuilder.getCandles(interval, options) : [])
+      });
+    } catch (error) {
+      await strategy.onError({ error: error instanceof Error ? error : new Error(String(error)), block });
+    }
+
+    for (const order of orders) {
+      const selling = order.side === 'sell';
+      const tokenIn = selling ? pair.base : pair.quote;
+      const tokenOut = selling ? pair.quote : pair.base;
+
+      if (balances[tokenIn] < order.size) {
+        await reject(order, block, `Insufficient ${selling ? market.base.symbol : market.quote.symbol} balance`);
+        continue;
+      }
+
+      // Constant-product fill against the current reserves, then the modelled slippage
+      const [poolBase, poolQuote] = getOrientedReserves(state, market.basePathToken);
+      const [reserveIn, reserveOut] = selling ? [poolBase, poolQuote] : [poolQuote, poolBase];
+      const quotedOut = getAmountOut(order.size, reserveIn, reserveOut, feeBps);
+      const amountOut = applySlippageBps(quotedOut, slippageBps);
+      if (amountOut === 0n) {
+        await reject(order, block, 'Insufficient liquidity');
+        continue;
+      }
+      if (order.slippageBps !== undefined && slippageBps > order.slippageBps) {
+        await reject(order, block, `Modelled slippage ${slippageBps} bps exceeds the order tolerance of ${order.slippageBps} bps`);
+        continue;
+      }
+
+      const fillPrice = selling
+        ? priceOf(tokenAmount(order.size, market.base), tokenAmount(amountOut, market.quote))
+        : priceOf(tokenAmount(amountOut, market.base), tokenAmount(order.size, market.quote));
+      if (order.limitPrice !== undefined && (selling ? fillPrice < order.limitPrice : fillPrice > order.limitPrice)) {
+        await reject(order, block, `Price ${fillPrice} is worse than the ${order.side} limit ${order.limitPrice}`);
+        continue;
+      }
+
+      balances[tokenIn] -= order.size;
+      balances[tokenOut] += amountOut;
+
+      // Our own trade moves the pool until the next Sync (the fee stays in the pool)
+      const newReserveBase = selling ? poolBase + order.size : poolBase - quotedOut;
+      const newReserveQuote = selling ? poolQuote - quotedOut : poolQuote + order.size;
+      state = baseIsToken0
+        ? { ...state, reserve0: newReserveBase, reserve1: newReserveQuote }
+        : { ...state, reserve0: newReserveQuote, reserve1: newReserveBase };
+
+      const trade: BacktestTrade = { block, order, amountIn: order.size, amountOut, price: fillPrice };
+      if (selling) {
+        const sold = toDisplayNumber(tokenAmount(order.size, market.base));
+        trade.profit = (fillPrice - averageCost) * sold;
+        heldBase = Math.max(0, heldBase - sold);
+      } else {
+        const bought = toDisplayNumber(tokenAmount(amountOut, market.base));
+        const spent = toDisplayNumber(tokenAmount(order.size, market.quote));
+        averageCost = heldBase + bought > 0 ? (averageCost * heldBase + spent) / (heldBase + bought) : fillPrice;
+        heldBase += bought;
+      }
+      trades.push(trade);
+
+      const fill: StrategyFill = { order, amountIn: order.size, amountOut, price: fillPrice, block };
+      applyFill(positions, fill);
+      await strategy.onFill(fill);
+    }
+
+    equityCurve.push({ blockNumber: block.number, timestamp: block.timestamp, price, equity: equity(price) });
+  }
+
+  // Drawdown from the running equity peak
+  let peak = 0;
+  let maxDrawdown = 0;
+  equityCurve.forEach(point => {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    }
+  });
+
+  const initialEquity = equityCurve.length ? equityCurve[0].equity : 0;
+  const finalEquity = equityCurve.length ? equityCurve[equityCurve.length - 1].equity : 0;
+  const sells = trades.filter(trade => trade.profit !== undefined);
+
+  return {
+    strategy: strategy.name,
+    pair,
+    fromBlock: config.fromBlock,
+    toBlock: config.toBlock,
+    blocksEvaluated: equityCurve.length,
+    swapEvents,
+    initialEquity,
+    finalEquity,
+    pnl: finalEquity - initialEquity,
+    pnlPercent: initialEquity > 0 ? ((finalEquity - initialEquity) / initialEquity) * 100 : 0,
+    maxDrawdown,
+    tradeCount: trades.length,
+    winRate: sells.length ? sells.filter(trade => (trade.profit as number) > 0).length / sells.length : 0,
+    rejectedOrders,
+    trades,
+    equityCurve,
+    finalBalances: balances
+  };
+}
+
+/**
+ * Backtest a strategy over historical pool state rebuilt from the pair's Sync and Swap events
+ * @param config Strategy, block range, balances and fill model
+ * @returns Promise with the backtest result
+ */
+export async function runBacktest(config: BacktestConfig): Promise<BacktestResult> {
+  const network = config.network || getNetworkContext();
+  const router = config.router || getTradeParameters().DEX_ROUTER_ADDRESS;
+  const pair = config.pair || config.strategy.pairs[0];
+  if (!pair) {
+    throw new Error(`Strategy ${config.strategy.name} does not trade any pair`);
+  }
+
+  const [basePathToken, quotePathToken, base, quote] = await Promise.all([
+    resolvePathToken(pair.base, router, network),
+    resolvePathToken(pair.quote, router, network),
+    getTokenMetadata(pair.base, network),
+    getTokenMetadata(pair.quote, network)
+  ]);
+  const pairState = await loadPairState(basePathToken, quotePathToken, router, network);
+
+  console.log(`📚 Loading ${pairName(pair)} events from block ${config.fromBlock} to ${config.toBlock}...`);
+  const events = await loadPairEvents({ pair: pairState.pair, fromBlock: config.fromBlock, toBlock: config.toBlock, network });
+  console.log(`Loaded ${events.length} events`);
+
+  return replayPairEvents(config, { pair, pairState, basePathToken, base, quote }, events);
+}
+
+/**
+ * Format a backtest result for display
+ * @param result Backtest result
+ * @returns Formatted lines
+ */
+export function formatBacktestReport(result: BacktestResult): string[] {
+  const quote = pairName(result.pair).split('/')[1] || 'quote';
+  return [
+    `\n----- Backtest: ${result.strategy} on ${pairName(result.pair)} -----`,
+    `Blocks: ${result.fromBlock} - ${result.toBlock} (${result.blocksEvaluated} evaluated, ${result.swapEvents} market swaps)`,
+    `Equity: ${result.initialEquity.toFixed(6)} -> ${result.finalEquity.toFixed(6)} ${quote}`,
+    `PnL: ${result.pnl.toFixed(6)} ${quote} (${result.pnlPercent.toFixed(2)}%)`,
+    `Max drawdown: ${(result.maxDrawdown * 100).toFixed(2)}%`,
+    `Trades: ${result.tradeCount} (${result.rejectedOrders} rejected)`,
+    `Win rate: ${(result.winRate * 100).toFixed(1)}%`
+  ];
+}
+
+// Allow direct execution of this file:
+// npx ts-node src/core/trading/backtester.ts [fromBlock] [toBlock] [baseBalance] [quoteBalance]
+if (require.main === module) {
+  (async () => {
+    const network = getNetworkContext();
+    const [strategy] = loadStrategiesFromEnv();
+    const pair = strategy.pairs[0];
+
+    const [fromArg, toArg, baseArg, quoteArg] = process.argv.slice(2);
+    const best = await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed());
+    const toBlock = toArg ? Number(toArg) : (best?.number ?? 0);
+    const fromBlock = fromArg ? Number(fromArg) : Math.max(0, toBlock - 8640); // About one day of 10s blocks
+
+    const [base, quote] = await Promise.all([getTokenMetadata(pair.base, network), getTokenMetadata(pair.quote, network)]);
+    const result = await runBacktest({
+      strategy,
+      fromBlock,
+      toBlock,
+      network,
+      initialBalances: {
+        [pair.base]: parseTokenAmount(baseArg || '1000', base).raw,
+        [pair.quote]: parseTokenAmount(quoteArg || '50', quote).raw
+      }
+    });
+    formatBacktestReport(result).forEach(line => console.log(line));
+  })()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Backtest failed:', error);
+      process.exit(1);
+    });
+}
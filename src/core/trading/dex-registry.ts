@@ -0,0 +1,88 @@
+import "../../utils/wallet-management/env-loader";
+import { getNetworkContext, NetworkContext } from "../../utils/contracts/network-context";
+
+/**
+ * Interface for a Uniswap V2 style DEX deployment
+ */
+export interface DexConfig {
+  name: string;
+  router: string;
+  factory?: string;         // Resolved from router.factory() when omitted
+  approvalTarget?: string;  // Spender to approve for swaps (defaults to the router)
+}
+
+// Known DEX deployments per network
+const DEX_REGISTRY: Record<string, DexConfig[]> = {
+  testnet: [
+    { name: 'Testnet DEX', router: '0x91e42759290239a62ac757cf85bb5b74ace57927' }
+  ],
+  mainnet: [
+    { name: 'VeRocket', router: '0x576da7124c7bb65a692d95848276367e5a844d95' },
+    { name: 'Vexchange', router: '0x6c0a6e1d922e0e63901301573370b932ae20dadb' }
+  ]
+};
+
+/**
+ * Load extra DEX entries from the DEX_REGISTRY environment variable
+ * Format: JSON object of network name to DexConfig array, e.g. {"testnet":[{"name":"MyDex","router":"0x..."}]}
+ */
+function loadRegistryOverrides(): void {
+  if (!process.env.DEX_REGISTRY) {
+    return;
+  }
+  try {
+    const overrides = JSON.parse(process.env.DEX_REGISTRY) as Record<string, DexConfig[]>;
+    Object.entries(overrides).forEach(([network, dexes]) => {
+      dexes.forEach(dex => registerDex(network, dex));
+    });
+  } catch (error) {
+    console.warn("⚠️ Ignoring invalid DEX_REGISTRY environment variable:", error);
+  }
+}
+
+/**
+ * Add or replace a DEX for a network (matched by name)
+ * @param network Network name (see network-context)
+ * @param dex DEX configuration
+ */
+export function registerDex(network: string, dex: DexConfig): void {
+  const dexes = (DEX_REGISTRY[network] || []).filter(existing => existing.name !== dex.name);
+  DEX_REGISTRY[network] = [...dexes, dex];
+}
+
+/**
+ * Get all DEXes configured for a network
+ * @param network The network (defaults to NETWORK or testnet)
+ * @returns Array of DEX configurations
+ */
+export function getDexes(network: NetworkContext = getNetworkContext()): DexConfig[] {
+  const dexes = [...(DEX_REGISTRY[network.name] || [])];
+
+  // A DEX deployed to the network (e.g. the Thor Solo test DEX) is listed first
+  const { router, factory } = network.getContracts();
+  if (router && !dexes.some(dex => dex.router.toLowerCase() === router.toLowerCase())) {
+    dexes.unshift({ name: `${network.name} DEX`, router, factory });
+  }
+  return dexes;
+}
+
+/**
+ * Find the DEX that owns a router address
+ * @param router Router address
+ * @param network The network
+ * @returns DEX configuration, or undefined for unknown routers
+ */
+export function getDexByRouter(router: string, network: NetworkContext = getNetworkContext()): DexConfig | undefined {
+  return getDexes(network).find(dex => dex.router.toLowerCase() === router.toLowerCase());
+}
+
+/**
+ * Get the address that must be approved to spend tokens for swaps on a DEX
+ * @param dex DEX configuration
+ * @returns Spender address
+ */
+export function getApprovalTarget(dex: DexConfig): string {
+  return dex.approvalTarget || dex.router;
+}
+
+loadRegistryOverrides();
@@ -2,9 +2,14 @@ import { createContractInterface } from '../../utils/contracts/contract-reader';
 import { VTHO_ADDRESS } from '@vechain/sdk-core';
 import "../../utils/wallet-management/env-loader"; 
 import { RouterABI } from '../../utils/abis/router';
+import { getTokenMetadata, isNativeVET, TokenMetadata } from '../tokens/token-metadata';
+import { priceOf, toDisplayNumber, tokenAmount, TokenAmount } from '../../utils/amounts/token-amount';
+import { DexConfig, getDexes } from './dex-registry';
+import { loadPairState, PairState, priceTrade, TradePricing } from './reserve-pricing';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
 
 
-// DEX Router contract address (on testnet)
+// DEX Router contract address (on testnet; overridden by the network config, see network-context)
 const DEX_ROUTER_ADDRESS = '0x91e42759290239a62ac757cf85bb5b74ace57927';
 
 // VET token address on testnet
@@ -15,9 +20,29 @@ const TRADE_AMOUNT_VTHO = '10000000000000000000'; // 10 VTHO (with 18 decimals)
 const TRADE_PROBABILITY = 0.3; // 30% chance to trade on each block
 
 /**
- * Interface for price ratio data
+ * Where quotes come from: a router getAmountsOut call, or local math on the pair reserves
+ */
+export type PricingSource = 'router' | 'reserves';
+const PRICING_SOURCE: PricingSource = process.env.PRICING_SOURCE === 'reserves' ? 'reserves' : 'router';
+
+/**
+ * Interface for price ratio data between any two tokens
  */
 export interface PriceRatio {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: TokenAmount;     // Exact input amount
+  amountOut: TokenAmount;    // Exact output amount
+  inputAmount: number;       // Display values derived from the exact amounts
+  outputAmount: number;
+  outputPerInput: number;
+  inputPerOutput: number;
+}
+
+/**
+ * Price ratio for the VTHO -> VET quote, keeping the VET/VTHO field names
+ */
+export interface VETVTHORatio extends PriceRatio {
   inputVTHO: number;
   outputVET: number;
   vetPerVtho: number;
@@ -25,52 +50,243 @@ export interface PriceRatio {
 }
 
 /**
- * Get the VET/VTHO ratio from the DEX
- * @returns Promise with formatted VET/VTHO ratios
+ * Interface for quote request parameters
  */
-export async function getVETVTHORatio(): Promise<PriceRatio> {
-  try {
-    // Get the network from environment or default to testnet
-    const network = process.env.NETWORK || "testnet";
-    
-    // Create contract interface for the DEX router
-    const RouterContract = createContractInterface(DEX_ROUTER_ADDRESS, RouterABI, network);
-    
-    // Call the router to get the amount of VET we would receive for VTHO
-    const amounts = await RouterContract.callPlain("getAmountsOut", TRADE_AMOUNT_VTHO, [VTHO_ADDRESS, vVET_ADDRESS]);
-    
+export interface QuoteRequest {
+  tokenIn: string;          // Token address or NATIVE_VET
+  tokenOut: string;         // Token address or NATIVE_VET
+  amountIn: string | bigint; // Raw amount in the input token's smallest unit
+  router?: string;          // Router to quote on (defaults to DEX_ROUTER_ADDRESS)
+  network?: NetworkContext;
+  source?: PricingSource;   // Defaults to PRICING_SOURCE
+}
+
+/**
+ * Interface for a quote returned by the router
+ */
+export interface TokenQuote {
+  router: string;
+  path: string[];
+  tokenIn: TokenMetadata;
+  tokenOut: TokenMetadata;
+  amountIn: bigint;
+  amountOut: bigint;
+  ratio: PriceRatio;
+  pairState?: PairState;    // Set for reserve-based quotes, reusable for local re-pricing
+  pricing?: TradePricing;   // Set for reserve-based quotes
+}
+
+/**
+ * Convert a raw contract return value to a bigint
+ * @param value Value returned by the contract call
+ * @returns The value as a bigint
+ */
+function toBigInt(value: unknown): bigint {
+  return typeof value === 'bigint' ? value : BigInt(value as string | number);
+}
+
+/**
+ * Resolve a token reference to the address the router trades, mapping native VET to WETH()
+ * @param token Token address or NATIVE_VET
+ * @param router Router address
+ * @param network The network to use
+ * @returns Promise with the token address to use in a swap path
+ */
+export async function resolvePathToken(token: string, router: string, network: NetworkContext): Promise<string> {
+  if (!isNativeVET(token)) {
+    return token;
+  }
+  const RouterContract = createContractInterface(router, RouterABI, network);
+  return String(await RouterContract.callPlain("WETH"));
+}
+
+/**
+ * Get a quote for swapping any token pair on a Uniswap V2 style router
+ * @param request Tokens, input amount and router to quote
+ * @returns Promise with the typed quote
+ */
+export async function getQuote(request: QuoteRequest): Promise<TokenQuote> {
+  const network = request.network || getNetworkContext();
+  const router = request.router || getTradeParameters(network).DEX_ROUTER_ADDRESS;
+
+  // Resolve path addresses and token decimals in parallel
+  const [pathIn, pathOut, tokenIn, tokenOut] = await Promise.all([
+    resolvePathToken(request.tokenIn, router, network),
+    resolvePathToken(request.tokenOut, router, network),
+    getTokenMetadata(request.tokenIn, network),
+    getTokenMetadata(request.tokenOut, network)
+  ]);
+  const path = [pathIn, pathOut];
+  const source = request.source || PRICING_SOURCE;
+
+  let amountIn: bigint;
+  let amountOut: bigint;
+  let pairState: PairState | undefined;
+  let pricing: TradePricing | undefined;
+
+  if (source === 'reserves') {
+    // Read the pair reserves once and price the trade locally
+    pairState = await loadPairState(pathIn, pathOut, router, network);
+    pricing = priceTrade(pairState, pathIn, BigInt(request.amountIn), tokenIn.decimals, tokenOut.decimals);
+    amountIn = pricing.amountIn;
+    amountOut = pricing.amountOut;
+  } else {
+    // Call the router to get the output amount for the input amount
+    const RouterContract = createContractInterface(router, RouterABI, network);
+    const amounts = await RouterContract.callPlain("getAmountsOut", request.amountIn.toString(), path);
+
     // Ensure amounts is treated as an array
     const amountsArray = Array.isArray(amounts) ? amounts : [amounts];
-    
-    // Parse input (VTHO) amount
-    const inputAmount = typeof amountsArray[0] === 'string' ? BigInt(amountsArray[0]) : amountsArray[0] as bigint;
-    const formattedInputAmount = Number(inputAmount) / Math.pow(10, 18); // 18 decimals for VTHO
-    
-    // Parse output (VET) amount
-    const outputAmount = typeof amountsArray[1] === 'string' ? BigInt(amountsArray[1]) : amountsArray[1] as bigint;
-    const formattedOutputAmount = Number(outputAmount) / Math.pow(10, 18); // 18 decimals for VET
-    
-    // Calculate ratios
-    const vetPerVtho = formattedOutputAmount / formattedInputAmount;
-    const vthoPerVet = 1 / vetPerVtho;
-    
-    return {
-      inputVTHO: formattedInputAmount,
-      outputVET: formattedOutputAmount,
-      vetPerVtho,
-      vthoPerVet
-    };
+    amountIn = toBigInt(amountsArray[0]);
+    amountOut = toBigInt(amountsArray[amountsArray.length - 1]);
+  }
+
+  return {
+    router,
+    path,
+    tokenIn,
+    tokenOut,
+    amountIn,
+    amountOut,
+    ratio: buildPriceRatio(tokenIn, tokenOut, amountIn, amountOut),
+    pairState,
+    pricing
+  };
+}
+
+/**
+ * Interface for a quote from one DEX of the registry
+ */
+export interface RankedQuote extends TokenQuote {
+  dex: DexConfig;
+}
+
+/**
+ * Quote a trade on every configured DEX in parallel and rank the results
+ * @param request Tokens and input amount (the router is taken from each DEX)
+ * @param dexes DEXes to compare (defaults to all DEXes of the network)
+ * @returns Promise with quotes ranked by output amount, best first (DEXes that fail to quote are skipped)
+ */
+export async function getBestQuote(
+  request: Omit<QuoteRequest, 'router'>,
+  dexes?: DexConfig[]
+): Promise<RankedQuote[]> {
+  const network = request.network || getNetworkContext();
+  const venues = dexes || getDexes(network);
+
+  const results = await Promise.allSettled(
+    venues.map(dex => getQuote({ ...request, network, router: dex.router }))
+  );
+
+  const quotes: RankedQuote[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      quotes.push({ ...result.value, dex: venues[i] });
+    } else {
+      console.warn(`⚠️ ${venues[i].name} could not quote ${request.tokenIn} -> ${request.tokenOut}:`, result.reason);
+    }
+  });
+
+  return quotes.sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0));
+}
+
+/**
+ * Re-price a reserve-based quote for a different input size without network calls
+ * @param quote Quote previously returned by getQuote with source 'reserves'
+ * @param amountIn New raw input amount
+ * @returns Quote for the new input amount against the same reserves
+ */
+export function repriceQuote(quote: TokenQuote, amountIn: bigint): TokenQuote {
+  if (!quote.pairState) {
+    throw new Error('Quote has no pair state; request it with source "reserves"');
+  }
+  const pricing = priceTrade(quote.pairState, quote.path[0], amountIn, quote.tokenIn.decimals, quote.tokenOut.decimals);
+  return {
+    ...quote,
+    amountIn,
+    amountOut: pricing.amountOut,
+    ratio: buildPriceRatio(quote.tokenIn, quote.tokenOut, amountIn, pricing.amountOut),
+    pricing
+  };
+}
+
+/**
+ * Build a price ratio from raw amounts using each token's own decimals
+ * @param tokenIn Input token metadata
+ * @param tokenOut Output token metadata
+ * @param amountIn Raw input amount
+ * @param amountOut Raw output amount
+ * @returns Price ratio
+ */
+export function buildPriceRatio(tokenIn: TokenMetadata, tokenOut: TokenMetadata, amountIn: bigint, amountOut: bigint): PriceRatio {
+  const exactIn = tokenAmount(amountIn, tokenIn);
+  const exactOut = tokenAmount(amountOut, tokenOut);
+  const outputPerInput = priceOf(exactIn, exactOut);
+
+  return {
+    tokenIn: tokenIn.symbol,
+    tokenOut: tokenOut.symbol,
+    amountIn: exactIn,
+    amountOut: exactOut,
+    inputAmount: toDisplayNumber(exactIn),
+    outputAmount: toDisplayNumber(exactOut),
+    outputPerInput,
+    inputPerOutput: priceOf(exactOut, exactIn)
+  };
+}
+
+/**
+ * Convert a generic VTHO -> VET price ratio to the VET/VTHO field names
+ * @param ratio Generic price ratio
+ * @returns Ratio with the VET/VTHO specific fields
+ */
+export function toVETVTHORatio(ratio: PriceRatio): VETVTHORatio {
+  return {
+    ...ratio,
+    inputVTHO: ratio.inputAmount,
+    outputVET: ratio.outputAmount,
+    vetPerVtho: ratio.outputPerInput,
+    vthoPerVet: ratio.inputPerOutput
+  };
+}
+
+/**
+ * Get the VET/VTHO ratio from the DEX together with the underlying quote
+ * @returns Promise with the VET/VTHO ratio and the quote (undefined if quoting failed)
+ */
+export async function getVETVTHORatioQuote(): Promise<{ ratio: VETVTHORatio; quote?: TokenQuote }> {
+  try {
+    const quote = await getQuote({
+      tokenIn: VTHO_ADDRESS,
+      tokenOut: getTradeParameters().vVET_ADDRESS,
+      amountIn: TRADE_AMOUNT_VTHO
+    });
+    return { ratio: toVETVTHORatio(quote.ratio), quote };
   } catch (error) {
     console.error('Error getting VET/VTHO ratio:', error);
     return {
-      inputVTHO: 0,
-      outputVET: 0,
-      vetPerVtho: 0,
-      vthoPerVet: 0
+      ratio: toVETVTHORatio({
+        tokenIn: 'VTHO',
+        tokenOut: 'VET',
+        amountIn: tokenAmount(0n, 18),
+        amountOut: tokenAmount(0n, 18),
+        inputAmount: 0,
+        outputAmount: 0,
+        outputPerInput: 0,
+        inputPerOutput: 0
+      })
     };
   }
 }
 
+/**
+ * Get the VET/VTHO ratio from the DEX
+ * @returns Promise with formatted VET/VTHO ratios
+ */
+export async function getVETVTHORatio(): Promise<VETVTHORatio> {
+  return (await getVETVTHORatioQuote()).ratio;
+}
+
 /**
  * Simulate a trade decision based on probability
  * @returns Boolean indicating whether to trade
@@ -80,29 +296,33 @@ export function decideToTrade(probability: number = TRADE_PROBABILITY): boolean
 }
 
 /**
- * Format the VET/VTHO ratio for display
+ * Format a price ratio for display
  * @param ratio The price ratio object
  * @returns Formatted string with ratio information
  */
 export function formatRatioOutput(ratio: PriceRatio): string[] {
   return [
-    '\n----- VET/VTHO Ratio -----',
-    `${ratio.inputVTHO} VTHO would get: ${ratio.outputVET.toFixed(8)} VET`,
-    `1 VTHO = ${ratio.vetPerVtho.toFixed(8)} VET`,
-    `1 VET = ${ratio.vthoPerVet.toFixed(8)} VTHO`
+    `\n----- ${ratio.tokenOut}/${ratio.tokenIn} Ratio -----`,
+    `${ratio.inputAmount} ${ratio.tokenIn} would get: ${ratio.outputAmount.toFixed(8)} ${ratio.tokenOut}`,
+    `1 ${ratio.tokenIn} = ${ratio.outputPerInput.toFixed(8)} ${ratio.tokenOut}`,
+    `1 ${ratio.tokenOut} = ${ratio.inputPerOutput.toFixed(8)} ${ratio.tokenIn}`
   ];
 }
 
 /**
  * Get trade parameters
+ * The router and vVET addresses come from the network config when a DEX was deployed or configured there.
+ * @param network The network to use
  * @returns Object with trading parameters
  */
-export function getTradeParameters() {
+export function getTradeParameters(network: NetworkContext = getNetworkContext()) {
+  const contracts = network.getContracts();
   return {
     TRADE_AMOUNT_VTHO,
     TRADE_PROBABILITY,
-    DEX_ROUTER_ADDRESS,
-    vVET_ADDRESS,
+    PRICING_SOURCE,
+    DEX_ROUTER_ADDRESS: contracts.router || DEX_ROUTER_ADDRESS,
+    vVET_ADDRESS: contracts.vVET || vVET_ADDRESS,
     VTHO_ADDRESS
   };
 } 
\ No newline at end of file
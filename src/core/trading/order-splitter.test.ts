@@ -0,0 +1,20 @@
+import { computeOptimalSplit } from './order-splitter';
+
+const RESERVES: [bigint, bigint][] = [
+  [1_000_000n * 10n ** 18n, 500_000n * 10n ** 18n],
+  [250_000n * 10n ** 18n, 125_000n * 10n ** 18n]
+];
+
+describe('order splitter', () => {
+  it('splits between pools of the same price in proportion to their depth', () => {
+    const amountIn = 10_000n * 10n ** 18n;
+    const allocations = computeOptimalSplit(RESERVES, amountIn);
+
+    expect(allocations[0] + allocations[1]).toBe(amountIn);
+    expect(allocations).toEqual([8_000n * 10n ** 18n, 2_000n * 10n ** 18n]);
+  });
+
+  it.each([0, -5, 2.5, NaN])('rejects %d split steps', steps => {
+    expect(() => computeOptimalSplit(RESERVES, 10n ** 18n, steps)).toThrow('Split steps must be a positive integer');
+  });
+});
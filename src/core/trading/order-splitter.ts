@@ -0,0 +1,158 @@
+import "../../utils/wallet-management/env-loader";
+import { DexConfig, getApprovalTarget, getDexes } from './dex-registry';
+import { getAmountOut, getOrientedReserves, loadPairState, PairState } from './reserve-pricing';
+import { resolvePathToken } from './market-data';
+import { isNativeVET } from '../tokens/token-metadata';
+import { Route } from './route-finder';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Number of chunks the order is divided into when allocating between venues
+const DEFAULT_SPLIT_STEPS = 100;
+
+/**
+ * Interface for one venue's share of a split order
+ */
+export interface SplitLeg {
+  dex: DexConfig;
+  pairState: PairState;
+  route: Route;             // Single-hop route on the venue's router with this leg's amounts
+}
+
+/**
+ * Interface for an order split across several DEXes
+ */
+export interface SplitPlan {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;        // Sum of the expected outputs of all legs
+  legs: SplitLeg[];
+}
+
+/**
+ * Interface for split order parameters
+ */
+export interface SplitOrderRequest {
+  tokenIn: string;          // Token address or NATIVE_VET
+  tokenOut: string;         // Token address or NATIVE_VET
+  amountIn: bigint;
+  network?: NetworkContext;
+  dexes?: DexConfig[];      // Venues to split across (defaults to all DEXes of the network)
+  steps?: number;           // Allocation granularity (a positive integer)
+}
+
+/**
+ * Allocate an input amount across constant-product pools to maximise total output
+ * Each chunk goes to the pool with the highest marginal output, which converges on the
+ * split where all used pools end at the same marginal price.
+ * @param reserves (reserveIn, reserveOut) of each pool
+ * @param amountIn Total input amount
+ * @param steps Number of chunks (a positive integer)
+ * @returns Input allocation per pool, summing to amountIn
+ * @throws When steps is not a positive integer
+ */
+export function computeOptimalSplit(
+  reserves: [bigint, bigint][],
+  amountIn: bigint,
+  steps: number = DEFAULT_SPLIT_STEPS
+): bigint[] {
+  if (!Number.isInteger(steps) || steps <= 0) {
+    throw new Error(`Split steps must be a positive integer, got ${steps}`);
+  }
+  const allocations = reserves.map(() => 0n);
+  if (reserves.length === 0 || amountIn <= 0n) {
+    return allocations;
+  }
+
+  const chunk = amountIn / BigInt(steps);
+  let remaining = amountIn;
+
+  while (remaining > 0n) {
+    // The last chunk absorbs the rounding remainder
+    const size = chunk > 0n && remaining > chunk ? chunk : remaining;
+
+    let bestIndex = 0;
+    let bestGain = -1n;
+    reserves.forEach(([reserveIn, reserveOut], i) => {
+      const gain = getAmountOut(allocations[i] + size, reserveIn, reserveOut) -
+        getAmountOut(allocations[i], reserveIn, reserveOut);
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestIndex = i;
+      }
+    });
+
+    allocations[bestIndex] += size;
+    remaining -= size;
+  }
+
+  return allocations;
+}
+
+/**
+ * Read the pair of every configured DEX and plan the optimal split of an order between them
+ * @param request Tokens, amount and venues
+ * @returns Promise with the split plan (venues without a pair are skipped)
+ */
+export async function planSplitOrder(request: SplitOrderRequest): Promise<SplitPlan> {
+  const network = request.network || getNetworkContext();
+  const dexes = request.dexes || getDexes(network);
+  const nativeIn = isNativeVET(request.tokenIn);
+  const nativeOut = isNativeVET(request.tokenOut);
+
+  // Load each venue's pair in parallel
+  const results = await Promise.allSettled(dexes.map(async dex => {
+    const path = await Promise.all([
+      resolvePathToken(request.tokenIn, dex.router, network),
+      resolvePathToken(request.tokenOut, dex.router, network)
+    ]);
+    const pairState = await loadPairState(path[0], path[1], dex.router, network);
+    return { dex, path, pairState };
+  }));
+
+  const venues: { dex: DexConfig; path: string[]; pairState: PairState }[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      venues.push(result.value);
+    } else {
+      console.warn(`⚠️ Skipping ${dexes[i].name} for split order:`, result.reason);
+    }
+  });
+  if (venues.length === 0) {
+    throw new Error(`No DEX has a pair for ${request.tokenIn} and ${request.tokenOut}`);
+  }
+
+  const reserves = venues.map(venue => getOrientedReserves(venue.pairState, venue.path[0]));
+  const allocations = computeOptimalSplit(reserves, request.amountIn, request.steps);
+
+  const legs: SplitLeg[] = [];
+  venues.forEach((venue, i) => {
+    if (allocations[i] === 0n) {
+      return;
+    }
+    const amountOut = getAmountOut(allocations[i], reserves[i][0], reserves[i][1]);
+    legs.push({
+      dex: venue.dex,
+      pairState: venue.pairState,
+      route: {
+        router: venue.dex.router,
+        path: venue.path,
+        pairs: [venue.pairState.pair],
+        amounts: [allocations[i], amountOut],
+        amountIn: allocations[i],
+        amountOut,
+        nativeIn,
+        nativeOut,
+        approvalTarget: getApprovalTarget(venue.dex)
+      }
+    });
+  });
+
+  return {
+    tokenIn: request.tokenIn,
+    tokenOut: request.tokenOut,
+    amountIn: request.amountIn,
+    amountOut: legs.reduce((total, leg) => total + leg.route.amountOut, 0n),
+    legs
+  };
+}
@@ -0,0 +1,216 @@
+import { ABIContract, Hex } from '@vechain/sdk-core';
+import "../../utils/wallet-management/env-loader";
+import { pairABI } from '../../utils/abis/pair';
+import { PaginationOptions } from '@vechain/sdk-network';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Maximum number of logs requested per page
+const LOG_PAGE_SIZE = 1000;
+
+/**
+ * Interface for the fields shared by all decoded pair events
+ */
+interface PairEventBase {
+  pair: string;
+  blockNumber: number;
+  blockID: string;
+  blockTimestamp: number;
+  txID: string;
+  clauseIndex: number;
+  logIndex: number;         // Position of the log among all logs of its block, as numbered by the node
+}
+
+/**
+ * Interface for the log pagination options with includeIndexes, which the SDK's types do not list yet
+ */
+export interface IndexedLogsOptions extends PaginationOptions {
+  includeIndexes?: boolean;   // Add txIndex and logIndex to the meta of every log
+}
+
+/**
+ * Interface for the positions the node adds to a log's meta when queried with includeIndexes
+ */
+export interface IndexedLogMeta {
+  txIndex: number;          // Position of the transaction in its block
+  logIndex: number;         // Position of the log among all logs of its block
+}
+
+/**
+ * Interface for a decoded Sync event (pair reserves after a swap, mint or burn)
+ */
+export interface SyncEvent extends PairEventBase {
+  type: 'Sync';
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+/**
+ * Interface for a decoded Swap event
+ */
+export interface SwapEvent extends PairEventBase {
+  type: 'Swap';
+  sender: string;
+  to: string;
+  amount0In: bigint;
+  amount1In: bigint;
+  amount0Out: bigint;
+  amount1Out: bigint;
+}
+
+/**
+ * Interface for a decoded Mint event (liquidity added)
+ */
+export interface MintEvent extends PairEventBase {
+  type: 'Mint';
+  sender: string;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+/**
+ * Interface for a decoded Burn event (liquidity removed)
+ */
+export interface BurnEvent extends PairEventBase {
+  type: 'Burn';
+  sender: string;
+  to: string;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+/**
+ * Interface for a decoded Transfer event of the pair's LP token
+ */
+export interface TransferEvent extends PairEventBase {
+  type: 'Transfer';
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+export type PairEvent = SyncEvent | SwapEvent | MintEvent | BurnEvent | TransferEvent;
+export type PairEventType = PairEvent['type'];
+export const PAIR_EVENT_TYPES: PairEventType[] = ['Swap', 'Sync', 'Mint', 'Burn', 'Transfer'];
+
+/**
+ * Interface for pair event query parameters
+ */
+export interface PairEventRequest {
+  pair: string;
+  fromBlock: number;
+  toBlock: number;
+  types?: PairEventType[];  // Defaults to Sync and Swap
+  network?: NetworkContext;
+}
+
+const pairContract = ABIContract.ofAbi(pairABI);
+
+/**
+ * Get the topic0 hash of a pair event
+ * @param type Event name
+ * @returns Event signature hash
+ */
+export function getPairEventTopic(type: PairEventType): string {
+  return pairContract.getEvent(type).signatureHash;
+}
+
+/**
+ * Decode a raw pair log
+ * @param log Raw log with address, topics, data and metadata
+ * @param logIndex Position of the log among all logs of its block (the node's logIndex)
+ * @returns Decoded event, or undefined for events not listed in PAIR_EVENT_TYPES
+ */
+export function decodePairEvent(
+  log: { address: string; topics: string[]; data: string; meta: { blockID: string; blockNumber: number; blockTimestamp: number; txID: string; clauseIndex: number } },
+  logIndex: number
+): PairEvent | undefined {
+  const decoded = pairContract.parseLog(Hex.of(log.data), log.topics.map(topic => Hex.of(topic))) as {
+    eventName: string;
+    args: Record<string, unknown>;
+  };
+  const base: PairEventBase = {
+    pair: log.address,
+    blockNumber: log.meta.blockNumber,
+    blockID: log.meta.blockID,
+    blockTimestamp: log.meta.blockTimestamp,
+    txID: log.meta.txID,
+    clauseIndex: log.meta.clauseIndex,
+    logIndex
+  };
+  const { args } = decoded;
+
+  if (decoded.eventName === 'Sync') {
+    return { ...base, type: 'Sync', reserve0: BigInt(args.reserve0 as bigint), reserve1: BigInt(args.reserve1 as bigint) };
+  }
+  if (decoded.eventName === 'Swap') {
+    return {
+      ...base,
+      type: 'Swap',
+      sender: String(args.sender),
+      to: String(args.to),
+      amount0In: BigInt(args.amount0In as bigint),
+      amount1In: BigInt(args.amount1In as bigint),
+      amount0Out: BigInt(args.amount0Out as bigint),
+      amount1Out: BigInt(args.amount1Out as bigint)
+    };
+  }
+  if (decoded.eventName === 'Mint') {
+    return { ...base, type: 'Mint', sender: String(args.sender), amount0: BigInt(args.amount0 as bigint), amount1: BigInt(args.amount1 as bigint) };
+  }
+  if (decoded.eventName === 'Burn') {
+    return {
+      ...base,
+      type: 'Burn',
+      sender: String(args.sender),
+      to: String(args.to),
+      amount0: BigInt(args.amount0 as bigint),
+      amount1: BigInt(args.amount1 as bigint)
+    };
+  }
+  if (decoded.eventName === 'Transfer') {
+    return { ...base, type: 'Transfer', from: String(args.from), to: String(args.to), value: BigInt(args.value as bigint) };
+  }
+  return undefined;
+}
+
+/**
+ * Fetch and decode the events of a pair over a block range, oldest first
+ * @param request Pair address, block range and event types
+ * @returns Promise with the decoded events
+ */
+export async function fetchPairEvents(request: PairEventRequest): Promise<PairEvent[]> {
+  const network = request.network || getNetworkContext();
+  const criteriaSet = (request.types || ['Sync', 'Swap']).map(type => ({
+    address: request.pair,
+    topic0: getPairEventTopic(type)
+  }));
+
+  const events: PairEvent[] = [];
+  for (let offset = 0; ; offset += LOG_PAGE_SIZE) {
+    const options: IndexedLogsOptions = { offset, limit: LOG_PAGE_SIZE, includeIndexes: true };
+    const logs = await network.withFailover(thorClient => thorClient.logs.filterRawEventLogs({
+      range: { unit: 'block', from: request.fromBlock, to: request.toBlock },
+      options,
+      criteriaSet,
+      order: 'asc'
+    }));
+
+    logs.forEach(log => {
+      // The node's own numbering, so the same log has the same index whichever event types were queried
+      const { logIndex } = log.meta as Partial<IndexedLogMeta>;
+      if (logIndex === undefined) {
+        throw new Error('Node returned logs without indexes; pair events need a node supporting includeIndexes');
+      }
+      const event = decodePairEvent(log, logIndex);
+      if (event) {
+        events.push(event);
+      }
+    });
+
+    if (logs.length < LOG_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return events;
+}
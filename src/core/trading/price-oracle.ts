@@ -0,0 +1,438 @@
+import "../../utils/wallet-management/env-loader";
+import { multiContractCallPlain } from '../../utils/contracts/contract-reader';
+import { pairABI } from '../../utils/abis/pair';
+import { getPairState, getPairStates, PairState } from './reserve-pricing';
+import { loadPairEvents } from '../indexing/event-indexer';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+/**
+ * Where TWAP observations come from
+ * - reserves: every Sync event of the pair (exact, and seeded from history on first use)
+ * - cumulative: the pair's price0CumulativeLast / price1CumulativeLast, sampled on every update
+ */
+export type TwapSource = 'reserves' | 'cumulative';
+const TWAP_SOURCE: TwapSource = process.env.TWAP_SOURCE === 'cumulative' ? 'cumulative' : 'reserves';
+
+// Default averaging window
+const DEFAULT_TWAP_WINDOW_SECONDS = Number(process.env.TWAP_WINDOW_SECONDS || 1800);
+
+/**
+ * Parse the MAX_TWAP_DEVIATION_PERCENT setting
+ * @param value Raw environment value
+ * @returns Percentage, or undefined when unset or invalid
+ */
+function parseDeviationPercent(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const percent = Number(value);
+  if (!Number.isFinite(percent) || percent <= 0) {
+    console.warn(`⚠️ Ignoring invalid MAX_TWAP_DEVIATION_PERCENT: ${value}`);
+    return undefined;
+  }
+  return percent;
+}
+
+// Maximum spot deviation from the TWAP before trades are refused (unset = check disabled)
+const MAX_TWAP_DEVIATION_PERCENT = parseDeviationPercent(process.env.MAX_TWAP_DEVIATION_PERCENT);
+
+// Observations older than this are pruned
+const MAX_OBSERVATION_AGE_SECONDS = 86400;
+
+// VeChain block interval, used to turn a time window into a block range
+const SECONDS_PER_BLOCK = 10;
+
+// Uniswap V2 UQ112x112 fixed point scale
+const Q112 = 2n ** 112n;
+
+/**
+ * Interface for one oracle observation: reserves and cumulative prices at a point in time
+ */
+export interface PriceObservation {
+  timestamp: number;
+  blockNumber: number;
+  reserve0: bigint;
+  reserve1: bigint;
+  price0Cumulative: bigint; // Sum of (reserve1 / reserve0) * seconds, UQ112x112
+  price1Cumulative: bigint; // Sum of (reserve0 / reserve1) * seconds, UQ112x112
+}
+
+/**
+ * Interface for a time-weighted average price
+ * Prices are raw reserve ratios (not adjusted for token decimals), so they compare directly with spot reserves.
+ */
+export interface Twap {
+  pair: string;
+  source: TwapSource;
+  windowSeconds: number;    // Requested window
+  coveredSeconds: number;   // Part of the window backed by observations
+  complete: boolean;        // True when the whole window is covered
+  price0: number;           // token1 per token0
+  price1: number;           // token0 per token1
+  observations: number;
+}
+
+/**
+ * Interface for the observation history of a pair
+ */
+interface PairPriceHistory {
+  pair: string;
+  source: TwapSource;
+  observations: PriceObservation[];
+  lastBlock: number;
+}
+
+// Watched pairs keyed by network and lower-cased pair address
+const histories = new Map<string, PairPriceHistory>();
+
+/**
+ * Get the registry key of a pair
+ * @param pair Pair address
+ * @param network The network
+ * @returns Registry key
+ */
+function historyKey(pair: string, network: NetworkContext): string {
+  return `${network.name}:${pair.toLowerCase()}`;
+}
+
+/**
+ * Get the UQ112x112 spot prices of reserves
+ * @param reserve0 Reserve of token0
+ * @param reserve1 Reserve of token1
+ * @returns [price0, price1], zero for an empty side
+ */
+function spotPricesQ112(reserve0: bigint, reserve1: bigint): [bigint, bigint] {
+  return [
+    reserve0 > 0n ? (reserve1 * Q112) / reserve0 : 0n,
+    reserve1 > 0n ? (reserve0 * Q112) / reserve1 : 0n
+  ];
+}
+
+/**
+ * Get the cumulative prices at a time, extending an observation with its reserves
+ * @param observation Observation at or before the time
+ * @param timestamp Time to extend to
+ * @returns [price0Cumulative, price1Cumulative]
+ */
+function cumulativeAt(observation: PriceObservation, timestamp: number): [bigint, bigint] {
+  const elapsed = BigInt(Math.max(0, timestamp - observation.timestamp));
+  const [price0, price1] = spotPricesQ112(observation.reserve0, observation.reserve1);
+  return [observation.price0Cumulative + price0 * elapsed, observation.price1Cumulative + price1 * elapsed];
+}
+
+/**
+ * Append new reserves to a history, accumulating the previous price over the elapsed time
+ * @param history Pair history
+ * @param reserve0 New reserve of token0
+ * @param reserve1 New reserve of token1
+ * @param timestamp Time the reserves took effect
+ * @param blockNumber Block the reserves took effect in
+ */
+function recordReserves(history: PairPriceHistory, reserve0: bigint, reserve1: bigint, timestamp: number, blockNumber: number): void {
+  const previous = history.observations[history.observations.length - 1];
+  const [price0Cumulative, price1Cumulative] = previous ? cumulativeAt(previous, timestamp) : [0n, 0n];
+  history.observations.push({ timestamp, blockNumber, reserve0, reserve1, price0Cumulative, price1Cumulative });
+}
+
+/**
+ * Drop observations no longer needed for the longest supported window (keeping one before the cutoff)
+ * @param history Pair history
+ */
+function pruneObservations(history: PairPriceHistory): void {
+  const latest = history.observations[history.observations.length - 1];
+  if (!latest) {
+    return;
+  }
+  const cutoff = latest.timestamp - MAX_OBSERVATION_AGE_SECONDS;
+  const firstKept = history.observations.findIndex(observation => observation.timestamp >= cutoff);
+  if (firstKept > 1) {
+    history.observations.splice(0, firstKept - 1);
+  }
+}
+
+/**
+ * Get the best block number and timestamp
+ * @param network The network to use
+ * @returns Promise with the best block number and timestamp
+ */
+async function getBestBlock(network: NetworkContext): Promise<{ number: number; timestamp: number }> {
+  const best = await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed());
+  return { number: best?.number ?? 0, timestamp: best?.timestamp ?? Math.floor(Date.now() / 1000) };
+}
+
+/**
+ * Read the pair's on-chain cumulative prices, extended to a timestamp like UniswapV2OracleLibrary does
+ * @param pair Pair address
+ * @param block Block number and timestamp of the read
+ * @param network The network to use
+ * @returns Promise with the observation
+ */
+async function readCumulativeObservation(
+  pair: string,
+  block: { number: number; timestamp: number },
+  network: NetworkContext
+): Promise<PriceObservation> {
+  const [reserves, price0CumulativeLast, price1CumulativeLast] = await multiContractCallPlain([
+    { address: pair, abi: pairABI, methodName: "getReserves" },
+    { address: pair, abi: pairABI, methodName: "price0CumulativeLast" },
+    { address: pair, abi: pairABI, methodName: "price1CumulativeLast" }
+  ], network);
+  const [reserve0, reserve1, blockTimestampLast] = reserves as unknown[];
+
+  const last: PriceObservation = {
+    timestamp: Number(blockTimestampLast),
+    blockNumber: block.number,
+    reserve0: BigInt(reserve0 as string | bigint),
+    reserve1: BigInt(reserve1 as string | bigint),
+    price0Cumulative: BigInt(price0CumulativeLast as string | bigint),
+    price1Cumulative: BigInt(price1CumulativeLast as string | bigint)
+  };
+  const [price0Cumulative, price1Cumulative] = cumulativeAt(last, block.timestamp);
+  return { ...last, timestamp: block.timestamp, price0Cumulative, price1Cumulative };
+}
+
+/**
+ * Start keeping observations for a pair
+ * With the reserves source the history is seeded from the pair's Sync events over twice the window.
+ * @param pair Pair address
+ * @param windowSeconds Window the history must cover
+ * @param network The network to use
+ * @param source Observation source (defaults to TWAP_SOURCE)
+ */
+export async function watchPair(
+  pair: string,
+  windowSeconds: number = DEFAULT_TWAP_WINDOW_SECONDS,
+  network: NetworkContext = getNetworkContext(),
+  source: TwapSource = TWAP_SOURCE
+): Promise<void> {
+  const key = historyKey(pair, network);
+  if (histories.has(key)) {
+    return;
+  }
+
+  const best = await getBestBlock(network);
+  const history: PairPriceHistory = { pair, source, observations: [], lastBlock: best.number };
+
+  if (source === 'cumulative') {
+    history.observations.push(await readCumulativeObservation(pair, best, network));
+  } else {
+    const fromBlock = Math.max(0, best.number - Math.ceil((2 * windowSeconds) / SECONDS_PER_BLOCK));
+    const syncs = await loadPairEvents({ pair, fromBlock, toBlock: best.number, types: ['Sync'], network });
+    syncs.forEach(event => {
+      if (event.type === 'Sync') {
+        recordReserves(history, event.reserve0, event.reserve1, event.blockTimestamp, event.blockNumber);
+      }
+    });
+
+    // No reserve change in the range: the current reserves held since blockTimestampLast
+    if (history.observations.length === 0) {
+      const state: PairState = await getPairState(pair, network);
+      recordReserves(history, state.reserve0, state.reserve1, state.blockTimestampLast, best.number);
+    }
+  }
+
+  histories.set(key, history);
+}
+
+/**
+ * Bring a watched pair's observations up to the best block
+ * @param pair Pair address
+ * @param network The network to use
+ */
+export async function refreshPair(pair: string, network: NetworkContext = getNetworkContext()): Promise<void> {
+  const history = histories.get(historyKey(pair, network));
+  if (!history) {
+    return watchPair(pair, undefined, network);
+  }
+
+  const best = await getBestBlock(network);
+  if (best.number <= history.lastBlock) {
+    return;
+  }
+
+  if (history.source === 'cumulative') {
+    history.observations.push(await readCumulativeObservation(pair, best, network));
+  } else {
+    const syncs = await loadPairEvents({ pair, fromBlock: history.lastBlock + 1, toBlock: best.number, types: ['Sync'], network });
+    syncs.forEach(event => {
+      if (event.type === 'Sync') {
+        recordReserves(history, event.reserve0, event.reserve1, event.blockTimestamp, event.blockNumber);
+      }
+    });
+  }
+
+  history.lastBlock = best.number;
+  pruneObservations(history);
+}
+
+/**
+ * Refresh every watched pair (called on each new block by the trading bot)
+ * @param network The network to use
+ */
+export async function updatePriceOracle(network: NetworkContext = getNetworkContext()): Promise<void> {
+  const prefix = `${network.name}:`;
+  await Promise.all(Array.from(histories.entries())
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([, history]) => refreshPair(history.pair, network)));
+}
+
+/**
+ * Drop observations of blocks after a number in every watched pair (chain reorganization)
+ * The next refresh re-reads the blocks of the new branch.
+ * @param blockNumber Last block that stays canonical
+ * @param network The network
+ */
+export function rollbackPriceOracle(blockNumber: number, network: NetworkContext = getNetworkContext()): void {
+  const prefix = `${network.name}:`;
+  histories.forEach((history, key) => {
+    if (!key.startsWith(prefix)) {
+      return;
+    }
+    history.observations = history.observations.filter(observation => observation.blockNumber <= blockNumber);
+    history.lastBlock = Math.min(history.lastBlock, blockNumber);
+  });
+}
+
+/**
+ * Get the time-weighted average price of a watched pair
+ * @param pair Pair address
+ * @param windowSeconds Averaging window
+ * @param network The network
+ * @param now End of the window (defaults to the current time)
+ * @returns TWAP, or undefined when the pair is not watched or no time has been observed yet
+ */
+export function getTwap(
+  pair: string,
+  windowSeconds: number = DEFAULT_TWAP_WINDOW_SECONDS,
+  network: NetworkContext = getNetworkContext(),
+  now: number = Math.floor(Date.now() / 1000)
+): Twap | undefined {
+  const history = histories.get(historyKey(pair, network));
+  if (!history || history.observations.length === 0) {
+    return undefined;
+  }
+  const { observations } = history;
+  const end = Math.max(now, observations[observations.length - 1].timestamp);
+
+  // Start at the window start, or at the first observation when the history is shorter
+  const start = Math.max(end - windowSeconds, observations[0].timestamp);
+  const covered = end - start;
+  if (covered <= 0) {
+    return undefined;
+  }
+
+  const at = (timestamp: number) => {
+    let index = observations.length - 1;
+    while (index > 0 && observations[index].timestamp > timestamp) {
+      index--;
+    }
+    return cumulativeAt(observations[index], timestamp);
+  };
+  const [start0, start1] = at(start);
+  const [end0, end1] = at(end);
+
+  return {
+    pair,
+    source: history.source,
+    windowSeconds,
+    coveredSeconds: covered,
+    complete: covered >= windowSeconds,
+    price0: Number(end0 - start0) / covered / Number(Q112),
+    price1: Number(end1 - start1) / covered / Number(Q112),
+    observations: observations.filter(observation => observation.timestamp >= start).length + 1
+  };
+}
+
+/**
+ * Get how far the spot price of a pair is from its TWAP
+ * @param state Current pair state
+ * @param twap TWAP of the same pair
+ * @returns Relative deviation (0.05 = 5%)
+ */
+export function getSpotDeviation(state: PairState, twap: Twap): number {
+  if (state.reserve0 === 0n || twap.price0 === 0) {
+    return Infinity;
+  }
+  const spot = Number(state.reserve1) / Number(state.reserve0);
+  return Math.abs(spot / twap.price0 - 1);
+}
+
+/**
+ * Get the configured maximum spot deviation from the TWAP
+ * @returns Percentage, or undefined when the check is disabled
+ */
+export function getMaxTwapDeviationPercent(): number | undefined {
+  return MAX_TWAP_DEVIATION_PERCENT;
+}
+
+/**
+ * Check the pairs a trade goes through against their TWAP
+ * @param pairs Pair addresses
+ * @param maxDeviationPercent Maximum allowed deviation (defaults to MAX_TWAP_DEVIATION_PERCENT; unset disables the check)
+ * @param windowSeconds TWAP window
+ * @param network The network to use
+ * @returns Promise with an error message when a pair deviates too much, undefined otherwise
+ */
+export async function checkTwapDeviation(
+  pairs: string[],
+  maxDeviationPercent: number | undefined = MAX_TWAP_DEVIATION_PERCENT,
+  windowSeconds: number = DEFAULT_TWAP_WINDOW_SECONDS,
+  network: NetworkContext = getNetworkContext()
+): Promise<string | undefined> {
+  if (maxDeviationPercent === undefined || pairs.length === 0) {
+    return undefined;
+  }
+
+  for (const pair of pairs) {
+    await watchPair(pair, windowSeconds, network);
+    await refreshPair(pair, network);
+  }
+  const states = await getPairStates(pairs, network);
+
+  for (const state of states) {
+    const twap = getTwap(state.pair, windowSeconds, network);
+    if (!twap) {
+      console.warn(`⚠️ No TWAP yet for ${state.pair}; skipping the deviation check`);
+      continue;
+    }
+    if (!twap.complete) {
+      console.warn(`⚠️ TWAP for ${state.pair} only covers ${twap.coveredSeconds}s of the ${windowSeconds}s window`);
+    }
+    const deviation = getSpotDeviation(state, twap);
+    console.log(`TWAP check ${state.pair}: spot deviates ${(deviation * 100).toFixed(2)}% from the ${windowSeconds}s TWAP`);
+    if (deviation * 100 > maxDeviationPercent) {
+      return `Spot price of ${state.pair} deviates ${(deviation * 100).toFixed(2)}% from its TWAP (max ${maxDeviationPercent}%)`;
+    }
+  }
+  return undefined;
+}
+
+// Allow direct execution of this file to print the TWAP of a pair:
+// npx ts-node src/core/trading/price-oracle.ts <pair> [windowSeconds]
+if (require.main === module) {
+  (async () => {
+    const pair = process.argv[2];
+    if (!pair) {
+      throw new Error("Usage: price-oracle.ts <pair> [windowSeconds]");
+    }
+    const windowSeconds = process.argv[3] ? Number(process.argv[3]) : DEFAULT_TWAP_WINDOW_SECONDS;
+
+    await watchPair(pair, windowSeconds);
+    const twap = getTwap(pair, windowSeconds);
+    if (!twap) {
+      console.log(`No TWAP available yet for ${pair} (source: ${TWAP_SOURCE})`);
+      return;
+    }
+    const deviation = getSpotDeviation(await getPairState(pair), twap);
+    console.log(`\n----- TWAP ${pair} (${twap.source}) -----`);
+    console.log(`Window: ${twap.coveredSeconds}s of ${twap.windowSeconds}s from ${twap.observations} observation(s)`);
+    console.log(`price0 (token1 per token0, raw): ${twap.price0}`);
+    console.log(`price1 (token0 per token1, raw): ${twap.price1}`);
+    console.log(`Spot deviation: ${(deviation * 100).toFixed(2)}%`);
+  })()
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error('Price oracle failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,30 @@
+import { getAmountIn, getAmountOut, priceTrade } from './reserve-pricing';
+
+const RESERVE_IN = 1_000_000n * 10n ** 18n;
+const RESERVE_OUT = 500_000n * 10n ** 18n;
+
+describe('reserve pricing', () => {
+  it.each([0n, 30n, 25n, 100n])('getAmountIn is the smallest input getting the output with a %d bps fee', feeBps => {
+    const amountOut = 1234n * 10n ** 18n;
+    const amountIn = getAmountIn(amountOut, RESERVE_IN, RESERVE_OUT, feeBps);
+
+    expect(getAmountOut(amountIn, RESERVE_IN, RESERVE_OUT, feeBps)).toBeGreaterThanOrEqual(amountOut);
+    expect(getAmountOut(amountIn - 1n, RESERVE_IN, RESERVE_OUT, feeBps)).toBeLessThan(amountOut);
+  });
+
+  it('defaults both directions to the Uniswap V2 0.3% fee', () => {
+    const amountOut = 10n ** 18n;
+    expect(getAmountIn(amountOut, RESERVE_IN, RESERVE_OUT)).toBe(getAmountIn(amountOut, RESERVE_IN, RESERVE_OUT, 30n));
+    expect(getAmountOut(amountOut, RESERVE_IN, RESERVE_OUT)).toBe(getAmountOut(amountOut, RESERVE_IN, RESERVE_OUT, 30n));
+  });
+
+  it('prices trades with the pool fee', () => {
+    const state = { pair: '0xpair', token0: '0xa', token1: '0xb', reserve0: RESERVE_IN, reserve1: RESERVE_OUT, blockTimestampLast: 0 };
+    const amountIn = 10n ** 21n;
+
+    const pricing = priceTrade(state, '0xa', amountIn, 18, 18, 100n);
+
+    expect(pricing.amountOut).toBe(getAmountOut(amountIn, RESERVE_IN, RESERVE_OUT, 100n));
+    expect(pricing.marginalPrice).toBeCloseTo(((Number(RESERVE_OUT) - Number(pricing.amountOut)) / (Number(RESERVE_IN) + Number(amountIn))) * 0.99, 12);
+  });
+});
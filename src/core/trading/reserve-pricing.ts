@@ -0,0 +1,244 @@
+import { createContractInterface, multiContractCallPlain } from '../../utils/contracts/contract-reader';
+import "../../utils/wallet-management/env-loader";
+import { RouterABI } from '../../utils/abis/router';
+import { factoryABI } from '../../utils/abis/factory';
+import { pairABI } from '../../utils/abis/pair';
+import { getDexByRouter } from './dex-registry';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+import { BPS_DENOMINATOR } from '../../utils/amounts/token-amount';
+
+// Uniswap V2 swap fee (0.3%) expressed in basis points
+const SWAP_FEE_BPS = 30n;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Interface for the on-chain state of a pair, oriented by token0/token1
+ */
+export interface PairState {
+  pair: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  blockTimestampLast: number;
+}
+
+/**
+ * Interface for prices of a single trade computed from reserves
+ */
+export interface TradePricing {
+  amountIn: bigint;
+  amountOut: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  spotPrice: number;       // Output per input before the trade, without fee
+  marginalPrice: number;   // Output per input for the next unit after the trade, with fee
+  executionPrice: number;  // Average output per input actually received
+  priceImpact: number;     // Fraction of value lost vs the spot price (0.01 = 1%)
+}
+
+// Caches for immutable lookups (router -> factory, factory + tokens -> pair)
+const factoryCache = new Map<string, string>();
+const pairCache = new Map<string, string>();
+
+/**
+ * Get the factory address a router was deployed with
+ * @param router Router address
+ * @param network The network to use
+ * @returns Promise with the factory address
+ */
+export async function getFactoryAddress(router: string, network: NetworkContext = getNetworkContext()): Promise<string> {
+  const cacheKey = `${network.name}:${router.toLowerCase()}`;
+  const cached = factoryCache.get(cacheKey) || getDexByRouter(router, network)?.factory;
+  if (cached) {
+    return cached;
+  }
+
+  const RouterContract = createContractInterface(router, RouterABI, network);
+  const factory = String(await RouterContract.callPlain("factory"));
+  factoryCache.set(cacheKey, factory);
+  return factory;
+}
+
+/**
+ * Resolve the pair address for two tokens through the factory
+ * @param factory Factory address
+ * @param tokenA First token address
+ * @param tokenB Second token address
+ * @param network The network to use
+ * @returns Promise with the pair address
+ */
+export async function getPairAddress(
+  factory: string,
+  tokenA: string,
+  tokenB: string,
+  network: NetworkContext = getNetworkContext()
+): Promise<string> {
+  const [a, b] = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort();
+  const cacheKey = `${network.name}:${factory.toLowerCase()}:${a}:${b}`;
+  const cached = pairCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const FactoryContract = createContractInterface(factory, factoryABI, network);
+  const pair = String(await FactoryContract.callPlain("getPair", tokenA, tokenB));
+  if (pair.toLowerCase() === ZERO_ADDRESS) {
+    throw new Error(`No pair exists for ${tokenA} and ${tokenB} on factory ${factory}`);
+  }
+  pairCache.set(cacheKey, pair);
+  return pair;
+}
+
+/**
+ * Read reserves and token ordering of a pair in a single call
+ * @param pair Pair address
+ * @param network The network to use
+ * @returns Promise with the pair state
+ */
+export async function getPairState(pair: string, network: NetworkContext = getNetworkContext()): Promise<PairState> {
+  const [state] = await getPairStates([pair], network);
+  return state;
+}
+
+/**
+ * Read reserves and token ordering of several pairs in a single request
+ * @param pairs Pair addresses
+ * @param network The network to use
+ * @returns Promise with the pair states, in input order
+ */
+export async function getPairStates(pairs: string[], network: NetworkContext = getNetworkContext()): Promise<PairState[]> {
+  const results = await multiContractCallPlain(
+    pairs.flatMap(pair => [
+      { address: pair, abi: pairABI, methodName: "getReserves" },
+      { address: pair, abi: pairABI, methodName: "token0" },
+      { address: pair, abi: pairABI, methodName: "token1" }
+    ]),
+    network
+  );
+
+  return pairs.map((pair, index) => {
+    const [reserves, token0, token1] = results.slice(index * 3, index * 3 + 3);
+    const [reserve0, reserve1, blockTimestampLast] = reserves as unknown[];
+    return {
+      pair,
+      token0: String(token0),
+      token1: String(token1),
+      reserve0: BigInt(reserve0 as string | bigint),
+      reserve1: BigInt(reserve1 as string | bigint),
+      blockTimestampLast: Number(blockTimestampLast)
+    };
+  });
+}
+
+/**
+ * Resolve and read the pair for two tokens traded on a router
+ * @param tokenIn Input token address
+ * @param tokenOut Output token address
+ * @param router Router address
+ * @param network The network to use
+ * @returns Promise with the pair state
+ */
+export async function loadPairState(
+  tokenIn: string,
+  tokenOut: string,
+  router: string,
+  network: NetworkContext = getNetworkContext()
+): Promise<PairState> {
+  const factory = await getFactoryAddress(router, network);
+  const pair = await getPairAddress(factory, tokenIn, tokenOut, network);
+  return getPairState(pair, network);
+}
+
+/**
+ * Get reserves ordered as (reserveIn, reserveOut) for a given input token
+ * @param state Pair state
+ * @param tokenIn Input token address
+ * @returns Tuple of input and output reserves
+ */
+export function getOrientedReserves(state: PairState, tokenIn: string): [bigint, bigint] {
+  if (tokenIn.toLowerCase() === state.token0.toLowerCase()) {
+    return [state.reserve0, state.reserve1];
+  }
+  if (tokenIn.toLowerCase() === state.token1.toLowerCase()) {
+    return [state.reserve1, state.reserve0];
+  }
+  throw new Error(`Token ${tokenIn} is not part of pair ${state.pair}`);
+}
+
+/**
+ * Constant-product output amount including the swap fee (same as UniswapV2Library.getAmountOut)
+ * @param amountIn Input amount
+ * @param reserveIn Input token reserve
+ * @param reserveOut Output token reserve
+ * @param feeBps Swap fee in basis points (defaults to the Uniswap V2 0.3%)
+ * @returns Output amount
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint = SWAP_FEE_BPS): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) {
+    return 0n;
+  }
+  const amountInWithFee = amountIn * (BPS_DENOMINATOR - feeBps);
+  return (amountInWithFee * reserveOut) / (reserveIn * BPS_DENOMINATOR + amountInWithFee);
+}
+
+/**
+ * Constant-product input amount required for an exact output (same as UniswapV2Library.getAmountIn)
+ * @param amountOut Desired output amount
+ * @param reserveIn Input token reserve
+ * @param reserveOut Output token reserve
+ * @param feeBps Swap fee in basis points (defaults to the Uniswap V2 0.3%)
+ * @returns Required input amount
+ */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint = SWAP_FEE_BPS): bigint {
+  if (amountOut <= 0n || reserveIn <= 0n || amountOut >= reserveOut) {
+    throw new Error("Insufficient liquidity for requested output amount");
+  }
+  const numerator = reserveIn * amountOut * BPS_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * (BPS_DENOMINATOR - feeBps);
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Compute spot, marginal and execution prices and price impact for a trade, without network calls
+ * @param state Pair state
+ * @param tokenIn Input token address
+ * @param amountIn Input amount
+ * @param decimalsIn Input token decimals
+ * @param decimalsOut Output token decimals
+ * @param feeBps Swap fee in basis points (defaults to the Uniswap V2 0.3%)
+ * @returns Pricing details for the trade
+ */
+export function priceTrade(
+  state: PairState,
+  tokenIn: string,
+  amountIn: bigint,
+  decimalsIn: number = 18,
+  decimalsOut: number = 18,
+  feeBps: bigint = SWAP_FEE_BPS
+): TradePricing {
+  const [reserveIn, reserveOut] = getOrientedReserves(state, tokenIn);
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, feeBps);
+
+  // Scale factor to express prices in whole tokens
+  const scale = Math.pow(10, decimalsIn - decimalsOut);
+  const ratio = (numerator: bigint, denominator: bigint) =>
+    denominator === 0n ? 0 : (Number(numerator) / Number(denominator)) * scale;
+
+  const spotPrice = ratio(reserveOut, reserveIn);
+  const executionPrice = ratio(amountOut, amountIn);
+  const feeFactor = Number(BPS_DENOMINATOR - feeBps) / Number(BPS_DENOMINATOR);
+  const marginalPrice = ratio(reserveOut - amountOut, reserveIn + amountIn) * feeFactor;
+
+  return {
+    amountIn,
+    amountOut,
+    reserveIn,
+    reserveOut,
+    spotPrice,
+    marginalPrice,
+    executionPrice,
+    priceImpact: spotPrice === 0 ? 0 : 1 - executionPrice / spotPrice
+  };
+}
@@ -0,0 +1,257 @@
+import { createContractInterface, multiContractCallPlain } from '../../utils/contracts/contract-reader';
+import "../../utils/wallet-management/env-loader";
+import { RouterABI } from '../../utils/abis/router';
+import { factoryABI } from '../../utils/abis/factory';
+import { pairABI } from '../../utils/abis/pair';
+import { getAmountOut, getFactoryAddress, getOrientedReserves, getPairStates, PairState } from './reserve-pricing';
+import { PricingSource, resolvePathToken } from './market-data';
+import { isNativeVET } from '../tokens/token-metadata';
+import { getApprovalTarget, getDexByRouter } from './dex-registry';
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+
+// Maximum number of contract calls sent in one request while indexing pairs
+const INDEX_BATCH_SIZE = 100;
+
+// Default maximum number of hops (pairs) in a route
+const DEFAULT_MAX_HOPS = 3;
+
+/**
+ * Interface for an edge of the token graph (one pair connecting two tokens)
+ */
+export interface PairEdge {
+  pair: string;
+  token0: string;
+  token1: string;
+}
+
+/**
+ * Interface for the pairs known to a factory, indexed by token
+ */
+export interface PairIndex {
+  factory: string;
+  pairs: PairEdge[];
+  graph: Map<string, PairEdge[]>; // Lower-cased token address -> pairs containing it
+}
+
+/**
+ * Interface for a candidate route and its expected output
+ */
+export interface Route {
+  router: string;
+  path: string[];       // Token addresses, ready for the router swap functions
+  pairs: string[];      // Pair address for each hop
+  amounts: bigint[];    // Amount at each step of the path (amounts[0] is the input)
+  amountIn: bigint;
+  amountOut: bigint;
+  nativeIn: boolean;    // Input is native VET (path starts with the router's WETH)
+  nativeOut: boolean;   // Output is native VET (path ends with the router's WETH)
+  approvalTarget?: string; // Spender to approve for the input token (defaults to the router)
+}
+
+/**
+ * Interface for route search parameters
+ */
+export interface RouteRequest {
+  tokenIn: string;          // Token address or NATIVE_VET
+  tokenOut: string;         // Token address or NATIVE_VET
+  amountIn: bigint;
+  router: string;
+  maxHops?: number;
+  network?: NetworkContext;
+  source?: PricingSource;   // How candidate paths are evaluated (defaults to reserves)
+}
+
+// Pair index cache keyed by network and factory; refreshed incrementally
+const pairIndexCache = new Map<string, PairIndex>();
+
+/**
+ * Load all pairs of a factory, reusing the cached index and only fetching newly created pairs
+ * @param factory Factory address
+ * @param network The network to use
+ * @returns Promise with the pair index
+ */
+export async function loadPairIndex(factory: string, network: NetworkContext = getNetworkContext()): Promise<PairIndex> {
+  const cacheKey = `${network.name}:${factory.toLowerCase()}`;
+  const index = pairIndexCache.get(cacheKey) || { factory, pairs: [], graph: new Map<string, PairEdge[]>() };
+
+  const FactoryContract = createContractInterface(factory, factoryABI, network);
+  const pairCount = Number(await FactoryContract.callPlain("allPairsLength"));
+
+  for (let start = index.pairs.length; start < pairCount; start += INDEX_BATCH_SIZE) {
+    const end = Math.min(start + INDEX_BATCH_SIZE, pairCount);
+    const indices = Array.from({ length: end - start }, (_, i) => start + i);
+
+    // Pair addresses for this batch
+    const pairAddresses = (await FactoryContract.multiCallPlain(
+      indices.map(i => ({ methodName: "allPairs", params: [i] }))
+    )).map(String);
+
+    // Tokens of every pair in this batch
+    const tokens = await multiContractCallPlain(
+      pairAddresses.flatMap(pair => [
+        { address: pair, abi: pairABI, methodName: "token0" },
+        { address: pair, abi: pairABI, methodName: "token1" }
+      ]),
+      network
+    );
+
+    pairAddresses.forEach((pair, i) => {
+      addEdge(index, { pair, token0: String(tokens[i * 2]), token1: String(tokens[i * 2 + 1]) });
+    });
+  }
+
+  pairIndexCache.set(cacheKey, index);
+  return index;
+}
+
+/**
+ * Add a pair to the index and its token graph
+ * @param index Pair index to update
+ * @param edge Pair to add
+ */
+function addEdge(index: PairIndex, edge: PairEdge): void {
+  index.pairs.push(edge);
+  for (const token of [edge.token0, edge.token1]) {
+    const key = token.toLowerCase();
+    const edges = index.graph.get(key) || [];
+    edges.push(edge);
+    index.graph.set(key, edges);
+  }
+}
+
+/**
+ * Enumerate all simple paths between two tokens up to a number of hops
+ * @param index Pair index
+ * @param tokenIn Input token address
+ * @param tokenOut Output token address
+ * @param maxHops Maximum number of pairs in a path
+ * @returns Candidate paths as token and pair address lists
+ */
+export function enumeratePaths(
+  index: PairIndex,
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number = DEFAULT_MAX_HOPS
+): { path: string[]; pairs: string[] }[] {
+  const target = tokenOut.toLowerCase();
+  const results: { path: string[]; pairs: string[] }[] = [];
+
+  const visit = (token: string, path: string[], pairs: string[]) => {
+    if (pairs.length >= maxHops) {
+      return;
+    }
+    for (const edge of index.graph.get(token.toLowerCase()) || []) {
+      const next = edge.token0.toLowerCase() === token.toLowerCase() ? edge.token1 : edge.token0;
+      // Skip tokens already on the path to keep paths simple
+      if (path.some(step => step.toLowerCase() === next.toLowerCase())) {
+        continue;
+      }
+      if (next.toLowerCase() === target) {
+        results.push({ path: [...path, next], pairs: [...pairs, edge.pair] });
+      } else {
+        visit(next, [...path, next], [...pairs, edge.pair]);
+      }
+    }
+  };
+
+  visit(tokenIn, [tokenIn], []);
+  return results;
+}
+
+/**
+ * Compute the amounts along a path from pair reserves, without network calls
+ * @param path Token addresses
+ * @param pairs Pair address for each hop
+ * @param states Pair states keyed by lower-cased pair address
+ * @param amountIn Input amount
+ * @returns Amount at each step of the path
+ */
+export function getAmountsOutFromReserves(
+  path: string[],
+  pairs: string[],
+  states: Map<string, PairState>,
+  amountIn: bigint
+): bigint[] {
+  const amounts = [amountIn];
+  for (let i = 0; i < pairs.length; i++) {
+    const state = states.get(pairs[i].toLowerCase());
+    if (!state) {
+      throw new Error(`Missing reserves for pair ${pairs[i]}`);
+    }
+    const [reserveIn, reserveOut] = getOrientedReserves(state, path[i]);
+    amounts.push(getAmountOut(amounts[i], reserveIn, reserveOut));
+  }
+  return amounts;
+}
+
+/**
+ * Find all routes for a trade, ranked by output amount (best first)
+ * @param request Tokens, amount, router and search limits
+ * @returns Promise with the ranked routes (empty if the tokens are not connected)
+ */
+export async function findRoutes(request: RouteRequest): Promise<Route[]> {
+  const network = request.network || getNetworkContext();
+  const { router, amountIn } = request;
+
+  const [tokenIn, tokenOut, factory] = await Promise.all([
+    resolvePathToken(request.tokenIn, router, network),
+    resolvePathToken(request.tokenOut, router, network),
+    getFactoryAddress(router, network)
+  ]);
+
+  const dex = getDexByRouter(router, network);
+  const native = {
+    nativeIn: isNativeVET(request.tokenIn),
+    nativeOut: isNativeVET(request.tokenOut),
+    approvalTarget: dex ? getApprovalTarget(dex) : undefined
+  };
+  const index = await loadPairIndex(factory, network);
+  const candidates = enumeratePaths(index, tokenIn, tokenOut, request.maxHops ?? DEFAULT_MAX_HOPS);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  let routes: Route[];
+  if ((request.source || 'reserves') === 'reserves') {
+    // Read every pair involved once, then evaluate all paths locally
+    const pairAddresses = Array.from(new Set(candidates.flatMap(candidate => candidate.pairs.map(p => p.toLowerCase()))));
+    const states = new Map<string, PairState>();
+    (await getPairStates(pairAddresses, network)).forEach(state => states.set(state.pair.toLowerCase(), state));
+
+    routes = candidates.map(candidate => {
+      const amounts = getAmountsOutFromReserves(candidate.path, candidate.pairs, states, amountIn);
+      return { router, ...candidate, ...native, amounts, amountIn, amountOut: amounts[amounts.length - 1] };
+    });
+  } else {
+    // Ask the router for every path in parallel, skipping paths it cannot quote
+    const RouterContract = createContractInterface(router, RouterABI, network);
+    const results = await Promise.allSettled(candidates.map(candidate =>
+      RouterContract.callPlain("getAmountsOut", amountIn.toString(), candidate.path)
+    ));
+
+    routes = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        const amounts = (result.value as unknown[]).map(value => BigInt(value as string | bigint));
+        routes.push({ router, ...candidates[i], ...native, amounts, amountIn, amountOut: amounts[amounts.length - 1] });
+      }
+    });
+  }
+
+  return routes
+    .filter(route => route.amountOut > 0n)
+    .sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : a.path.length - b.path.length));
+}
+
+/**
+ * Find the route with the best output for a trade
+ * @param request Tokens, amount, router and search limits
+ * @returns Promise with the best route
+ */
+export async function findBestRoute(request: RouteRequest): Promise<Route> {
+  const [best] = await findRoutes(request);
+  if (!best) {
+    throw new Error(`No route found from ${request.tokenIn} to ${request.tokenOut} within ${request.maxHops ?? DEFAULT_MAX_HOPS} hops`);
+  }
+  return best;
+}
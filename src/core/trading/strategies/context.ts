@@ -0,0 +1,112 @@
+import { VTHO_ADDRESS } from '@vechain/sdk-core';
+import "../../../utils/wallet-management/env-loader";
+import { getQuote } from '../market-data';
+import { getTokenMetadata, NATIVE_VET } from '../../tokens/token-metadata';
+import { getWalletBalances } from '../../tokens/wallet-balances';
+import { getCandles } from '../../indexing/candle-builder';
+import { BlockInfo, MarketSnapshot, Position, StrategyContext, StrategyFill, TradingPair } from './types';
+import { getNetworkContext, NetworkContext } from '../../../utils/contracts/network-context';
+
+// The market traded by the original bot: VTHO priced in native VET
+export const VTHO_VET_PAIR: TradingPair = { base: VTHO_ADDRESS, quote: NATIVE_VET, symbol: 'VTHO/VET' };
+
+/**
+ * Get the display name of a pair
+ * @param pair Trading pair
+ * @returns Pair symbol, or the token addresses when no symbol is set
+ */
+export function pairName(pair: TradingPair): string {
+  return pair.symbol || `${pair.base}/${pair.quote}`;
+}
+
+/**
+ * Check whether two pair definitions refer to the same market
+ * @param a First pair
+ * @param b Second pair
+ * @returns True if base and quote tokens match
+ */
+export function isSamePair(a: TradingPair, b: TradingPair): boolean {
+  return a.base.toLowerCase() === b.base.toLowerCase() && a.quote.toLowerCase() === b.quote.toLowerCase();
+}
+
+/**
+ * Get the market state of a pair by quoting a sale of base for quote
+ * @param pair Trading pair
+ * @param referenceAmount Raw base amount to quote (defaults to one whole base token)
+ * @param network The network to use
+ * @returns Promise with the market snapshot
+ */
+export async function getMarketSnapshot(
+  pair: TradingPair,
+  referenceAmount?: bigint,
+  network: NetworkContext = getNetworkContext()
+): Promise<MarketSnapshot> {
+  const amountIn = referenceAmount ?? 10n ** BigInt((await getTokenMetadata(pair.base, network)).decimals);
+  const quote = await getQuote({ tokenIn: pair.base, tokenOut: pair.quote, amountIn, network });
+  return { pair, ratio: quote.ratio, quote };
+}
+
+/**
+ * Interface for the inputs used to build a strategy context
+ */
+export interface StrategyContextRequest {
+  block: BlockInfo;
+  pairs: TradingPair[];
+  positions: Position[];
+  walletAddress?: string;   // Balances are empty when no wallet is configured
+  network?: NetworkContext;
+}
+
+/**
+ * Snapshot every market and the wallet balances for one block
+ * Markets that fail to quote are left out so one broken pair does not stop the others.
+ * @param request Block, pairs, positions and wallet
+ * @returns Promise with the strategy context
+ */
+export async function buildStrategyContext(request: StrategyContextRequest): Promise<StrategyContext> {
+  const network = request.network || getNetworkContext();
+
+  // Deduplicate pairs shared by several strategies
+  const pairs = request.pairs.filter((pair, i) => request.pairs.findIndex(other => isSamePair(pair, other)) === i);
+
+  const results = await Promise.allSettled(pairs.map(pair => getMarketSnapshot(pair, undefined, network)));
+  const markets: MarketSnapshot[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      markets.push(result.value);
+    } else {
+      console.warn(`⚠️ Could not snapshot ${pairName(pairs[i])}:`, result.reason);
+    }
+  });
+
+  const tokens = pairs.flatMap(pair => [pair.base, pair.quote]);
+  const balances = request.walletAddress
+    ? await getWalletBalances(request.walletAddress, tokens, network)
+    : {};
+
+  return { block: request.block, markets, balances, positions: request.positions, candles: getCandles };
+}
+
+/**
+ * Apply a fill to the open positions
+ * @param positions Current positions (updated in place)
+ * @param fill Executed order
+ * @returns The updated position of the fill's pair
+ */
+export function applyFill(positions: Position[], fill: StrategyFill): Position {
+  let position = positions.find(existing => isSamePair(existing.pair, fill.order.pair));
+  if (!position) {
+    position = { pair: fill.order.pair, baseAmount: 0n, quoteAmount: 0n, fills: 0 };
+    positions.push(position);
+  }
+
+  if (fill.order.side === 'sell') {
+    position.baseAmount -= fill.amountIn;
+    position.quoteAmount += fill.amountOut;
+  } else {
+    position.quoteAmount -= fill.amountIn;
+    position.baseAmount += fill.amountOut;
+  }
+  position.fills += 1;
+  return position;
+}
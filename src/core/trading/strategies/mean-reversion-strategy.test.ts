@@ -0,0 +1,136 @@
+import { VTHO_VET_PAIR } from './context';
+import { createMeanReversionStrategy } from './mean-reversion-strategy';
+import { Strategy, StrategyContext, StrategyOrder } from './types';
+
+// vetPerVtho recorded every 10 seconds: a calm stretch, a dip, a recovery and a spike
+const RECORDED_PRICES = [
+  0.0360, 0.0361, 0.0359, 0.0360, 0.0362, 0.0361, 0.0360, 0.0359, 0.0361, 0.0360,
+  0.0348, 0.0352, 0.0356, 0.0359, 0.0360, 0.0361, 0.0360, 0.0374, 0.0371, 0.0362
+];
+
+const VTHO_AMOUNT = 10n ** 19n;
+
+/**
+ * Build the context of one recorded observation
+ */
+function contextAt(index: number, price: number): StrategyContext {
+  return {
+    block: { number: index, timestamp: index * 10 },
+    markets: [{
+      pair: VTHO_VET_PAIR,
+      ratio: {
+        tokenIn: 'VTHO',
+        tokenOut: 'VET',
+        amountIn: { raw: 10n ** 18n, decimals: 18 },
+        amountOut: { raw: BigInt(Math.round(price * 1e18)), decimals: 18 },
+        inputAmount: 1,
+        outputAmount: price,
+        outputPerInput: price,
+        inputPerOutput: 1 / price
+      }
+    }],
+    balances: {},
+    positions: []
+  };
+}
+
+/**
+ * Replay the recorded series through a strategy
+ * @returns Orders by observation index
+ */
+async function replay(strategy: Strategy, onOrder?: (order: StrategyOrder, index: number) => void): Promise<Map<number, StrategyOrder[]>> {
+  const orders = new Map<number, StrategyOrder[]>();
+  strategy.init();
+  for (const [index, price] of RECORDED_PRICES.entries()) {
+    const placed = await strategy.onBlock(contextAt(index, price));
+    if (placed.length > 0) {
+      orders.set(index, placed);
+      placed.forEach(order => onOrder?.(order, index));
+    }
+  }
+  return orders;
+}
+
+describe('mean-reversion strategy', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('buys VET on the dip and sells it on the spike', async () => {
+    const strategy = createMeanReversionStrategy({
+      windowSize: 10,
+      bandWidth: 2,
+      minTradeIntervalSeconds: 60,
+      vthoAmount: VTHO_AMOUNT.toString()
+    });
+
+    const orders = await replay(strategy);
+
+    expect([...orders.keys()]).toEqual([10, 17]);
+    expect(orders.get(10)).toEqual([expect.objectContaining({ side: 'sell', pair: VTHO_VET_PAIR, size: VTHO_AMOUNT })]);
+    // Default VET size is the VET value of the VTHO amount at the spike price
+    expect(orders.get(17)).toEqual([expect.objectContaining({ side: 'buy', pair: VTHO_VET_PAIR, size: 374_000_000_000_000_000n })]);
+  });
+
+  it('suppresses orders within minTradeIntervalSeconds of the last one', async () => {
+    const strategy = createMeanReversionStrategy({
+      windowSize: 10,
+      bandWidth: 2,
+      minTradeIntervalSeconds: 120,
+      vthoAmount: VTHO_AMOUNT.toString()
+    });
+
+    const orders = await replay(strategy);
+
+    // The spike 70 seconds after the dip order is ignored
+    expect([...orders.keys()]).toEqual([10]);
+  });
+
+  it('does not count a failed order towards the trade interval', async () => {
+    const strategy = createMeanReversionStrategy({
+      windowSize: 10,
+      bandWidth: 2,
+      minTradeIntervalSeconds: 120,
+      vthoAmount: VTHO_AMOUNT.toString()
+    });
+
+    const orders = await replay(strategy, order => {
+      strategy.onError({ error: new Error('swap reverted'), order });
+    });
+
+    expect([...orders.keys()]).toEqual([10, 17]);
+  });
+
+  it('keeps the trade interval after an error unrelated to an order', async () => {
+    const strategy = createMeanReversionStrategy({
+      windowSize: 10,
+      bandWidth: 2,
+      minTradeIntervalSeconds: 120,
+      vthoAmount: VTHO_AMOUNT.toString()
+    });
+
+    const orders = await replay(strategy, () => {
+      strategy.onError({ error: new Error('market data unavailable') });
+    });
+
+    expect([...orders.keys()]).toEqual([10]);
+  });
+
+  it('skips orders the wallet cannot cover', async () => {
+    const strategy = createMeanReversionStrategy({ windowSize: 10, bandWidth: 2, vthoAmount: VTHO_AMOUNT.toString() });
+    strategy.init();
+
+    const placed: StrategyOrder[] = [];
+    for (const [index, price] of RECORDED_PRICES.entries()) {
+      const context = contextAt(index, price);
+      context.balances = { [VTHO_VET_PAIR.base]: VTHO_AMOUNT - 1n };
+      placed.push(...await strategy.onBlock(context));
+    }
+
+    expect(placed.filter(order => order.side === 'sell')).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { getTradeParameters } from '../market-data';
+import { isSamePair, VTHO_VET_PAIR } from './context';
+import { NATIVE_VET } from '../../tokens/token-metadata';
+import { Strategy, StrategyContext, StrategyFactory, StrategyOrder } from './types';
+
+/**
+ * Interface for mean-reversion strategy configuration
+ */
+export interface MeanReversionConfig {
+  windowSize?: number;              // Number of price observations in the rolling window (default 20)
+  bandWidth?: number;               // Band distance from the moving average in standard deviations (default 2)
+  minTradeIntervalSeconds?: number; // Minimum time between two orders (default 300)
+  vthoAmount?: string;              // Raw VTHO sold when buying VET (defaults to TRADE_AMOUNT_VTHO)
+  vetAmount?: string;               // Raw VET sold when selling VET (defaults to vthoAmount at the current price)
+  slippageBps?: number;
+}
+
+/**
+ * Interface for the bands computed from a price window
+ */
+export interface PriceBands {
+  mean: number;
+  stddev: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Compute the moving average and standard deviation bands of a price window
+ * @param prices Price observations
+ * @param bandWidth Band distance from the mean in standard deviations
+ * @returns Mean, population standard deviation and band edges
+ */
+export function computeBands(prices: number[], bandWidth: number): PriceBands {
+  const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+  const variance = prices.reduce((sum, price) => sum + (price - mean) ** 2, 0) / prices.length;
+  const stddev = Math.sqrt(variance);
+  return { mean, stddev, lower: mean - bandWidth * stddev, upper: mean + bandWidth * stddev };
+}
+
+/**
+ * Create a mean-reversion strategy on the VTHO/VET market
+ * It keeps a rolling window of vetPerVtho observations. When the price falls below the lower band it buys VET
+ * (sells VTHO), when it rises above the upper band it sells VET (buys VTHO). Orders are at least
+ * minTradeIntervalSeconds apart and are skipped when the wallet cannot cover them.
+ * @param config Strategy configuration
+ * @returns Strategy instance
+ */
+export const createMeanReversionStrategy: StrategyFactory = (config = {}) => {
+  const options = config as MeanReversionConfig;
+  const windowSize = options.windowSize ?? 20;
+  const bandWidth = options.bandWidth ?? 2;
+  const minTradeInterval = options.minTradeIntervalSeconds ?? 300;
+  const vthoAmount = BigInt(options.vthoAmount || getTradeParameters().TRADE_AMOUNT_VTHO);
+  const vetAmount = options.vetAmount ? BigInt(options.vetAmount) : undefined;
+
+  if (windowSize < 2) {
+    throw new Error(`Mean-reversion windowSize must be at least 2, got ${windowSize}`);
+  }
+
+  const prices: number[] = [];
+  let lastOrderAt: number | undefined;
+  let previousOrderAt: number | undefined;
+
+  /**
+   * Skip orders the wallet cannot pay for (balances are empty when no wallet is configured)
+   */
+  const canAfford = (context: StrategyContext, token: string, amount: bigint): boolean => {
+    const balance = context.balances[token];
+    return balance === undefined || balance >= amount;
+  };
+
+  const strategy: Strategy = {
+    name: 'mean-reversion',
+    pairs: [VTHO_VET_PAIR],
+
+    init() {
+      prices.length = 0;
+      lastOrderAt = undefined;
+      console.log(`📉 Mean-reversion strategy: ${windowSize} observation window, ${bandWidth}σ bands, ${minTradeInterval}s between trades`);
+    },
+
+    onBlock(context) {
+      const market = context.markets.find(snapshot => isSamePair(snapshot.pair, VTHO_VET_PAIR));
+      const price = market?.ratio.outputPerInput;
+      if (!price) {
+        return [];
+      }
+
+      // Compare against the window before adding the new observation
+      const full = prices.length >= windowSize;
+      const bands = full ? computeBands(prices, bandWidth) : undefined;
+      prices.push(price);
+      if (prices.length > windowSize) {
+        prices.shift();
+      }
+
+      if (!bands || bands.stddev === 0) {
+        return [];
+      }
+      if (lastOrderAt !== undefined && context.block.timestamp - lastOrderAt < minTradeInterval) {
+        return [];
+      }
+
+      let order: StrategyOrder | undefined;
+      if (price < bands.lower) {
+        if (canAfford(context, VTHO_VET_PAIR.base, vthoAmount)) {
+          order = {
+            side: 'sell',
+            pair: VTHO_VET_PAIR,
+            size: vthoAmount,
+            slippageBps: options.slippageBps,
+            reason: `price ${price.toFixed(8)} below lower band ${bands.lower.toFixed(8)}: buy VET`
+          };
+        }
+      } else if (price > bands.upper) {
+        // Default VET size spends the VET value of the configured VTHO amount
+        const size = vetAmount ?? (vthoAmount * BigInt(Math.round(price * 1e9))) / 1_000_000_000n;
+        if (size > 0n && canAfford(context, NATIVE_VET, size)) {
+          order = {
+            side: 'buy',
+            pair: VTHO_VET_PAIR,
+            size,
+            slippageBps: options.slippageBps,
+            reason: `price ${price.toFixed(8)} above upper band ${bands.upper.toFixed(8)}: sell VET`
+          };
+        }
+      }
+
+      if (!order) {
+        return [];
+      }
+      previousOrderAt = lastOrderAt;
+      lastOrderAt = context.block.timestamp;
+      return [order];
+    },
+
+    onFill() {},
+
+    onError({ order }) {
+      // A failed order does not count towards the trade interval
+      if (order) {
+        lastOrderAt = previousOrderAt;
+      }
+    }
+  };
+  return strategy;
+};
@@ -0,0 +1,53 @@
+import { decideToTrade, getTradeParameters } from '../market-data';
+import { isSamePair, VTHO_VET_PAIR } from './context';
+import { Strategy, StrategyFactory } from './types';
+
+/**
+ * Interface for random strategy configuration
+ */
+export interface RandomStrategyConfig {
+  probability?: number;     // Chance to trade on each block (defaults to TRADE_PROBABILITY)
+  amount?: string;          // Raw VTHO amount sold per trade (defaults to TRADE_AMOUNT_VTHO)
+  slippageBps?: number;
+}
+
+/**
+ * Create the original bot strategy: sell a fixed amount of VTHO for VET with a fixed probability per block
+ * @param config Strategy configuration
+ * @returns Strategy instance
+ */
+export const createRandomStrategy: StrategyFactory = (config = {}) => {
+  const { TRADE_AMOUNT_VTHO, TRADE_PROBABILITY } = getTradeParameters();
+  const options = config as RandomStrategyConfig;
+  const probability = options.probability ?? TRADE_PROBABILITY;
+  const size = BigInt(options.amount || TRADE_AMOUNT_VTHO);
+
+  const strategy: Strategy = {
+    name: 'random',
+    pairs: [VTHO_VET_PAIR],
+
+    init() {
+      console.log(`🎲 Random strategy: ${probability * 100}% chance to sell ${size} VTHO per block`);
+    },
+
+    onBlock(context) {
+      // Never trade blind when the market could not be read
+      const market = context.markets.find(snapshot => isSamePair(snapshot.pair, VTHO_VET_PAIR));
+      if (!market || market.ratio.outputPerInput === 0 || !decideToTrade(probability)) {
+        return [];
+      }
+      return [{
+        side: 'sell',
+        pair: VTHO_VET_PAIR,
+        size,
+        slippageBps: options.slippageBps,
+        reason: `random trade (${probability * 100}% chance)`
+      }];
+    },
+
+    onFill() {},
+
+    onError() {}
+  };
+  return strategy;
+};
@@ -0,0 +1,61 @@
+import { createMeanReversionStrategy } from './mean-reversion-strategy';
+import { createRandomStrategy } from './random-strategy';
+import { Strategy, StrategyFactory } from './types';
+
+// Strategy factories by name
+const STRATEGY_REGISTRY = new Map<string, StrategyFactory>();
+
+/**
+ * Add or replace a strategy factory
+ * @param name Name used to select the strategy in configuration
+ * @param factory Factory creating the strategy from its configuration
+ */
+export function registerStrategy(name: string, factory: StrategyFactory): void {
+  STRATEGY_REGISTRY.set(name, factory);
+}
+
+/**
+ * Get the names of all registered strategies
+ * @returns Array of strategy names
+ */
+export function getRegisteredStrategies(): string[] {
+  return Array.from(STRATEGY_REGISTRY.keys());
+}
+
+/**
+ * Create a registered strategy by name
+ * @param name Strategy name
+ * @param config Strategy configuration
+ * @returns Strategy instance
+ */
+export function createStrategy(name: string, config?: Record<string, unknown>): Strategy {
+  const factory = STRATEGY_REGISTRY.get(name);
+  if (!factory) {
+    throw new Error(`Unknown strategy "${name}". Registered strategies: ${getRegisteredStrategies().join(', ')}`);
+  }
+  return factory(config);
+}
+
+/**
+ * Create the strategies selected by the STRATEGY and STRATEGY_CONFIG environment variables
+ * STRATEGY is a comma-separated list of names (defaults to "mean-reversion"); STRATEGY_CONFIG is a JSON object
+ * of strategy name to configuration, e.g. {"random":{"probability":0.5}}
+ * @returns Array of strategy instances
+ */
+export function loadStrategiesFromEnv(): Strategy[] {
+  const names = (process.env.STRATEGY || 'mean-reversion').split(',').map(name => name.trim()).filter(Boolean);
+
+  let configs: Record<string, Record<string, unknown>> = {};
+  if (process.env.STRATEGY_CONFIG) {
+    try {
+      configs = JSON.parse(process.env.STRATEGY_CONFIG);
+    } catch (error) {
+      console.warn("⚠️ Ignoring invalid STRATEGY_CONFIG environment variable:", error);
+    }
+  }
+
+  return names.map(name => createStrategy(name, configs[name]));
+}
+
+registerStrategy('random', createRandomStrategy);
+registerStrategy('mean-reversion', createMeanReversionStrategy);
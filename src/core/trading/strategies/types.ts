@@ -0,0 +1,120 @@
+import { PriceRatio, TokenQuote } from '../market-data';
+import { CandleQuery } from '../../indexing/candle-builder';
+
+/**
+ * Interface for a market a strategy trades: base token priced in quote token
+ * Tokens are addresses or NATIVE_VET
+ */
+export interface TradingPair {
+  base: string;
+  quote: string;
+  symbol?: string;          // Display name, e.g. "VTHO/VET"
+}
+
+/**
+ * Interface for the market state of one pair at a block
+ */
+export interface MarketSnapshot {
+  pair: TradingPair;
+  ratio: PriceRatio;        // Selling base for quote (outputPerInput = price of base in quote)
+  quote?: TokenQuote;       // Underlying quote, with pair reserves when priced from reserves
+}
+
+/**
+ * Interface for the net exposure built up by fills on a pair
+ */
+export interface Position {
+  pair: TradingPair;
+  baseAmount: bigint;       // Base received minus base sold
+  quoteAmount: bigint;      // Quote received minus quote spent
+  fills: number;
+}
+
+/**
+ * Interface for the block a strategy is evaluated on
+ */
+export interface BlockInfo {
+  number: number;
+  id?: string;
+  timestamp: number;        // Unix seconds
+}
+
+/**
+ * Interface for everything a strategy sees on each block
+ */
+export interface StrategyContext {
+  block: BlockInfo;
+  markets: MarketSnapshot[];
+  balances: Record<string, bigint>;  // Token address (or NATIVE_VET) -> raw wallet balance
+  positions: Position[];
+  candles?: CandleQuery;    // OHLCV bars of tracked pairs, e.g. candles(pair, '5m', { limit: 20 })
+}
+
+/**
+ * Interface for an order returned by a strategy
+ * - sell: spend `size` of the base token for the quote token
+ * - buy: spend `size` of the quote token for the base token
+ */
+export interface StrategyOrder {
+  side: 'buy' | 'sell';
+  pair: TradingPair;
+  size: bigint;             // Raw amount of the token being spent
+  limitPrice?: number;      // Worst acceptable price of base in quote (min for sells, max for buys)
+  slippageBps?: number;     // Slippage tolerance in basis points (defaults to the bot setting)
+  reason?: string;          // Shown in logs
+}
+
+/**
+ * Interface for an executed order reported back to a strategy
+ */
+export interface StrategyFill {
+  order: StrategyOrder;
+  amountIn: bigint;
+  amountOut: bigint;
+  price: number;            // Price of base in quote at execution
+  transactionId?: string;
+  block: BlockInfo;
+}
+
+/**
+ * Interface for an error reported back to a strategy
+ */
+export interface StrategyError {
+  error: Error;
+  order?: StrategyOrder;    // Set when executing an order failed
+  block?: BlockInfo;
+}
+
+/**
+ * Interface every trading strategy implements
+ */
+export interface Strategy {
+  readonly name: string;
+  readonly pairs: TradingPair[];  // Markets the bot must snapshot for this strategy
+
+  /**
+   * Called once before the first block
+   */
+  init(): Promise<void> | void;
+
+  /**
+   * Called on every block with fresh market data
+   * @returns Orders to execute (empty to wait)
+   */
+  onBlock(context: StrategyContext): Promise<StrategyOrder[]> | StrategyOrder[];
+
+  /**
+   * Called after one of this strategy's orders was executed
+   */
+  onFill(fill: StrategyFill): Promise<void> | void;
+
+  /**
+   * Called when evaluating the strategy or executing one of its orders failed
+   */
+  onError(error: StrategyError): Promise<void> | void;
+}
+
+/**
+ * Factory creating a strategy from its configuration
+ */
+export type StrategyFactory = (config?: Record<string, unknown>) => Strategy;
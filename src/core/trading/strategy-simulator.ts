@@ -1,37 +1,95 @@
-import { getVETVTHORatio, decideToTrade, formatRatioOutput, getTradeParameters, PriceRatio } from './market-data';
+import { getVETVTHORatioQuote, formatRatioOutput, getTradeParameters, VETVTHORatio, TokenQuote } from './market-data';
+import { buildStrategyContext, pairName } from './strategies/context';
+import { createStrategy } from './strategies/registry';
+import { BlockInfo, Position, Strategy, StrategyOrder } from './strategies/types';
+
+/**
+ * Interface for an order together with the strategy that produced it
+ */
+export interface StrategyDecision {
+  strategy: Strategy;
+  order: StrategyOrder;
+}
 
 /**
  * Interface for trade decision result
  */
 export interface TradeDecision {
   shouldTrade: boolean;
-  ratio: PriceRatio;
+  ratio: VETVTHORatio;
+  quote?: TokenQuote;       // Reserve-based quote, reusable to size trades locally
+  orders: StrategyDecision[];
+  block: BlockInfo;
   tradingMessage: string;
 }
 
 /**
- * Simulate a trading decision based on current market conditions
+ * Describe an order for logs
+ * @param order Strategy order
+ * @returns Human readable order summary
+ */
+export function describeOrder(order: StrategyOrder): string {
+  const spent = order.side === 'sell' ? 'base' : 'quote';
+  const limit = order.limitPrice !== undefined ? `, limit ${order.limitPrice}` : '';
+  return `${order.side.toUpperCase()} ${pairName(order.pair)}: spend ${order.size} ${spent}${limit}${order.reason ? ` (${order.reason})` : ''}`;
+}
+
+/**
+ * Run strategies against the current market conditions
+ * @param strategies Initialized strategies to evaluate (defaults to the random strategy)
+ * @param block Block being evaluated (defaults to the current time)
+ * @param positions Open positions built up by previous fills
+ * @param walletAddress Wallet whose balances are passed to the strategies
  * @returns Promise with trading decision and details
  */
-export async function simulateTradingDecision(): Promise<TradeDecision> {
-  // Get current VET/VTHO ratio
-  const ratio = await getVETVTHORatio();
+export async function simulateTradingDecision(
+  strategies: Strategy[] = [createStrategy('random')],
+  block: BlockInfo = { number: 0, timestamp: Math.floor(Date.now() / 1000) },
+  positions: Position[] = [],
+  walletAddress?: string
+): Promise<TradeDecision> {
+  // Get current VET/VTHO ratio (and the pair state when priced from reserves)
+  const { ratio, quote } = await getVETVTHORatioQuote();
   
-  // Make trading decision
-  const { TRADE_PROBABILITY } = getTradeParameters();
-  const shouldTrade = decideToTrade(TRADE_PROBABILITY);
+  // Snapshot every market the strategies trade
+  const context = await buildStrategyContext({
+    block,
+    pairs: strategies.flatMap(strategy => strategy.pairs),
+    positions,
+    walletAddress
+  });
+  
+  // Collect orders; a failing strategy is told about it and skipped for this block
+  const orders: StrategyDecision[] = [];
+  for (const strategy of strategies) {
+    try {
+      const strategyOrders = await strategy.onBlock(context);
+      strategyOrders.forEach(order => orders.push({ strategy, order }));
+    } catch (error) {
+      console.error(`Strategy ${strategy.name} failed on block ${block.number}:`, error);
+      await strategy.onError({ error: error instanceof Error ? error : new Error(String(error)), block });
+    }
+  }
   
   // Create trading message
   let tradingMessage = '';
-  if (shouldTrade) {
-    tradingMessage = `✅ TRADE SIMULATION: Would swap 10 VTHO for ${ratio.outputVET.toFixed(8)} VET`;
+  if (orders.length > 0) {
+    tradingMessage = orders
+      .map(({ strategy, order }) => `✅ TRADE SIMULATION [${strategy.name}]: Would ${describeOrder(order)}`)
+      .join('\n');
+    if (quote?.pricing) {
+      tradingMessage += `\nVTHO/VET price impact at reference size: ${(quote.pricing.priceImpact * 100).toFixed(4)}%`;
+    }
   } else {
     tradingMessage = '❌ NO TRADE: Waiting for next block';
   }
   
   return {
-    shouldTrade,
+    shouldTrade: orders.length > 0,
     ratio,
+    quote,
+    orders,
+    block,
     tradingMessage
   };
 }
@@ -58,12 +116,15 @@ export async function runStandaloneTradingSimulation(): Promise<void> {
   console.log('Running stand-alone trading simulation...');
   
   try {
-    const decision = await simulateTradingDecision();
+    const strategy = createStrategy('random');
+    await strategy.init();
+    const decision = await simulateTradingDecision([strategy]);
     displayTradeInformation(decision);
     
     // Additional trading data that could be useful for analytics
     console.log('\n----- Trading Data -----');
     console.log(`Probability of trade: ${getTradeParameters().TRADE_PROBABILITY * 100}%`);
+    console.log(`Orders: ${decision.orders.length}`);
     console.log(`Decision made: ${decision.shouldTrade ? 'TRADE' : 'WAIT'}`);
     console.log(`VET/VTHO ratio: ${decision.ratio.vetPerVtho.toFixed(8)}`);
   } catch (error) {
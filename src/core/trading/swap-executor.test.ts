@@ -0,0 +1,117 @@
+import { useSimulatorFixture } from '../devnet/simulator-fixture';
+import { NATIVE_VET } from '../tokens/token-metadata';
+import { executeSwap, SwapOrder } from './swap-executor';
+
+const ONE = 10n ** 18n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+describe('swap executor', () => {
+  // The executor signs with the testnet key of the environment
+  const fixture = useSimulatorFixture({ name: 'swap-executor-test', vtho: 1_000n * ONE, signerFromEnv: true });
+  const { simulator } = fixture;
+  const { router, vVET } = simulator.contracts as { router: string; vVET: string };
+  let token: string;
+  let feeToken: string;
+  let wallet: string;
+  let initialState: ReturnType<typeof simulator.snapshot>;
+
+  const order = (overrides: Partial<SwapOrder>): SwapOrder => ({
+    tokenIn: token,
+    tokenOut: NATIVE_VET,
+    kind: 'exactIn',
+    amount: 100n * ONE,
+    mode: 'sequential',
+    dryRun: false,
+    network: simulator.network,
+    ...overrides
+  });
+
+  beforeAll(() => {
+    wallet = fixture.wallet;
+    token = simulator.addToken({ symbol: 'TST' });
+    simulator.addPool(token, vVET, 100_000n * ONE, 10_000n * ONE);
+    simulator.mint(token, wallet, 1_000n * ONE);
+    feeToken = simulator.addToken({ symbol: 'FEE', transferFeeBps: 200 });
+    simulator.addPool(feeToken, vVET, 100_000n * ONE, 10_000n * ONE);
+    simulator.mint(feeToken, wallet, 1_000n * ONE);
+    simulator.setVetBalance(wallet, 1_000n * ONE);
+    initialState = simulator.snapshot();
+  });
+
+  beforeEach(() => simulator.restore(initialState));
+
+  it('approves the router, then swaps tokens for the quoted VET minus the slippage', async () => {
+    const vetBefore = simulator.getVetBalance(wallet);
+
+    const result = await executeSwap(order({ slippageBps: 100 }));
+
+    expect(result.success).toBe(true);
+    expect(result.details).toEqual(expect.objectContaining({ function: 'swapExactTokensForETH', path: [token, vVET] }));
+    expect(result.details!.limit).toBe(result.details!.expected * 9_900n / 10_000n);
+    expect(simulator.allowance(token, wallet, router)).toBe(MAX_UINT256);
+    expect(simulator.balanceOf(token, wallet)).toBe(900n * ONE);
+    expect(simulator.getVetBalance(wallet) - vetBefore).toBe(result.details!.expected);
+  });
+
+  it('sends the approval for the exact amount in the swap transaction in atomic mode', async () => {
+    const sendTransaction = jest.spyOn(simulator.thorClient.transactions, 'sendTransaction');
+
+    const result = await executeSwap(order({ mode: 'atomic' }));
+
+    expect(result.success).toBe(true);
+    expect(sendTransaction).toHaveBeenCalledTimes(1);
+    expect(simulator.allowance(token, wallet, router)).toBe(0n);
+    sendTransaction.mockRestore();
+  });
+
+  it('swaps VET for an exact token output and refunds the unspent VET', async () => {
+    const vetBefore = simulator.getVetBalance(wallet);
+
+    const result = await executeSwap(order({ tokenIn: NATIVE_VET, tokenOut: token, kind: 'exactOut', amount: 10n * ONE }));
+
+    expect(result.success).toBe(true);
+    expect(result.details!.function).toBe('swapETHForExactTokens');
+    expect(simulator.balanceOf(token, wallet)).toBe(1_010n * ONE);
+    expect(vetBefore - simulator.getVetBalance(wallet)).toBe(result.details!.expected);
+  });
+
+  it('reports a slippage error and sends nothing when the minimum output cannot be met', async () => {
+    const sendTransaction = jest.spyOn(simulator.thorClient.transactions, 'sendTransaction');
+
+    const result = await executeSwap(order({ mode: 'atomic', limit: 1_000n * ONE }));
+
+    expect(result).toEqual(expect.objectContaining({ success: false, errorCode: 'slippage' }));
+    expect(sendTransaction).not.toHaveBeenCalled();
+    expect(simulator.balanceOf(token, wallet)).toBe(1_000n * ONE);
+    sendTransaction.mockRestore();
+  });
+
+  it('only simulates the swap in dry-run mode', async () => {
+    const result = await executeSwap(order({ dryRun: true }));
+
+    expect(result).toEqual(expect.objectContaining({ success: true, dryRun: true }));
+    expect(result.transactionId).toBeUndefined();
+    expect(result.simulatedAmounts).toEqual([[100n * ONE, result.details!.expected]]);
+    expect(simulator.balanceOf(token, wallet)).toBe(1_000n * ONE);
+    expect(simulator.allowance(token, wallet, router)).toBe(0n);
+  });
+
+  it('refuses fee-on-transfer orders with neither a limit nor a transfer fee', async () => {
+    const result = await executeSwap(order({ tokenIn: feeToken, feeOnTransfer: true }));
+
+    expect(result).toEqual(expect.objectContaining({ success: false, error: expect.stringMatching(/need a limit or a transferFeeBps/) }));
+    expect(simulator.balanceOf(feeToken, wallet)).toBe(1_000n * ONE);
+  });
+
+  it('deducts the transfer fee from the quote before applying the slippage', async () => {
+    const ignoringFee = await executeSwap(order({ tokenIn: feeToken, feeOnTransfer: true, transferFeeBps: 0, slippageBps: 100 }));
+    expect(ignoringFee).toEqual(expect.objectContaining({ success: false, errorCode: 'slippage' }));
+
+    const result = await executeSwap(order({ tokenIn: feeToken, feeOnTransfer: true, transferFeeBps: 200, slippageBps: 100 }));
+
+    expect(result.success).toBe(true);
+    expect(result.details!.function).toBe('swapExactTokensForETHSupportingFeeOnTransferTokens');
+    expect(result.details!.limit).toBe(result.details!.expected * 9_900n / 10_000n);
+    expect(simulator.balanceOf(feeToken, wallet)).toBe(900n * ONE);
+  });
+});
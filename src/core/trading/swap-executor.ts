@@ -1,34 +1,410 @@
-import { createTransactionManager } from "../../utils/contracts/contract-writer";
-import { createSignerFromEnv } from "../../utils/wallet-management/key-utils";
-import { VTHO_ADDRESS } from "@vechain/sdk-core";
-import { getTradeParameters, PriceRatio } from "./market-data";
-import { createContractInterface } from "../../utils/contracts/contract-reader";
+import { createTransactionManager, describeGasPayer, GasPayer, TransactionManager, TransactionSigner, TransactionSimulation } from "../../utils/contracts/contract-writer";
+import { createGasPayerFromEnv, createSignerFromEnv } from "../../utils/wallet-management/key-utils";
+import { ABIContract, ABIFunction, Hex, TransactionClause, VTHO_ADDRESS } from "@vechain/sdk-core";
+import { getQuote, getTradeParameters, RankedQuote, resolvePathToken, TokenQuote, toVETVTHORatio, VETVTHORatio } from "./market-data";
+import { DexConfig, getApprovalTarget, getDexByRouter } from "./dex-registry";
+import { isNativeVET } from "../tokens/token-metadata";
 import "../../utils/wallet-management/env-loader";
 import { RouterABI } from '../../utils/abis/router';
-import { checkAndApproveVTHOAllowance } from "../tokens/erc20-approve";
+import { buildApprovalClauseIfNeeded, checkAndApproveTokenAllowance, checkAndApproveVTHOAllowance } from "../tokens/erc20-approve";
+import { Route } from "./route-finder";
+import { SplitPlan } from "./order-splitter";
+import { StrategyOrder } from "./strategies/types";
+import { applySlippageBps, applySlippageBpsUp, formatTokenAmount, tokenAmount } from "../../utils/amounts/token-amount";
+import { checkTwapDeviation, getMaxTwapDeviationPercent } from "./price-oracle";
+import { getFactoryAddress, getPairAddress } from "./reserve-pricing";
+import { getNetworkContext, NetworkContext } from '../../utils/contracts/network-context';
+import { createContractInterface } from "../../utils/contracts/contract-reader";
+import { getTransactionTracker } from "../../utils/contracts/transaction-tracker";
+import { TransactionReceipt } from "@vechain/sdk-network";
+
+
+/**
+ * Interface for the details of a VTHO to VET swap (executeVTHOtoVETSwap, executeTrade)
+ */
+export interface VTHOSwapDetails {
+  approvalIncluded: boolean;            // An approve clause was sent in the swap transaction
+}
+
+/**
+ * Interface for the details of a swap order (executeSwap)
+ */
+export interface SwapDetails {
+  function: SwapFunction;
+  path: string[];
+  expected: bigint;                     // Quoted output (exactIn, net of transferFeeBps) or input (exactOut)
+  limit: bigint;                        // Minimum output (exactIn) or maximum input (exactOut) sent to the router
+}
+
+/**
+ * Interface for the details of a strategy order (executeOrder)
+ */
+export interface OrderDetails {
+  amountIn: bigint;                     // Quoted input
+  amountOut: bigint;                    // Quoted output
+  price: number;                        // Price of base in quote
+}
+
+/**
+ * Interface for the details of one venue of a split order (executeSplitOrder)
+ */
+export interface SplitLegDetails {
+  dex: string;
+  amountIn: string;
+  amountOut: string;
+}
 
+/**
+ * Details returned with a trade result, depending on the execute function
+ */
+export type TradeDetails = VTHOSwapDetails | SwapDetails | OrderDetails | SplitLegDetails[];
 
 /**
  * Interface for trade execution results
  */
-export interface TradeExecutionResult {
+export interface TradeExecutionResult<TDetails extends TradeDetails = TradeDetails> {
   success: boolean;
   transactionId?: string;
-  receipt?: any;
+  receipt?: TransactionReceipt | null;  // Receipt of the swap transaction, once included
   error?: string;
-  details?: any;
+  errorCode?: TradeErrorCode;           // Set when success is false
+  revertReason?: string;                // Decoded revert reason of a reverted simulation or transaction
+  details?: TDetails;
+  dryRun?: boolean;                     // Only simulated; nothing was sent
+  simulation?: TransactionSimulation;   // Pre-flight simulation of the transaction
+  simulatedAmounts?: bigint[][];        // Per swap clause, the amount of every hop in the simulation (not returned by fee-on-transfer swaps)
+}
+
+/**
+ * Why a trade failed
+ * - noSigner: no wallet credentials are configured
+ * - priceDeviation: a pool's spot price is too far from its TWAP
+ * - priceLimit: the quoted price is worse than the order's limit price
+ * - approvalFailed: the approval transaction failed
+ * - slippage: the router's minimum output (or maximum input) was not met (INSUFFICIENT_OUTPUT_AMOUNT, EXCESSIVE_INPUT_AMOUNT)
+ * - deadline: the swap deadline passed before the swap executed (router EXPIRED)
+ * - insufficientEnergy: the wallet (or its gas payer) has too little VTHO for the gas
+ * - delegationFailed: the gas payer service refused to pay for the transaction
+ * - reverted: the swap reverted for another reason
+ * - expired: the transaction was not included before its expiration block
+ * - dropped: the transaction has no receipt although it has not expired
+ * - unknown: any other error (e.g. no node reachable)
+ */
+export type TradeErrorCode =
+  | 'noSigner'
+  | 'priceDeviation'
+  | 'priceLimit'
+  | 'approvalFailed'
+  | 'slippage'
+  | 'deadline'
+  | 'insufficientEnergy'
+  | 'delegationFailed'
+  | 'reverted'
+  | 'expired'
+  | 'dropped'
+  | 'unknown';
+
+/**
+ * How token approvals are sent relative to the swap
+ * - sequential (default): a separate approval transaction (max allowance) is confirmed before the swap transaction
+ * - atomic (opt-in): an approve clause for exactly the needed amount is sent in the same transaction as the swap,
+ *   so both succeed or both revert
+ */
+export type ExecutionMode = 'sequential' | 'atomic';
+const DEFAULT_EXECUTION_MODE: ExecutionMode = process.env.EXECUTION_MODE === 'atomic' ? 'atomic' : 'sequential';
+
+// Simulate swaps without sending them (DRY_RUN=true or --dry-run); approvals are then simulated in the swap transaction
+const DEFAULT_DRY_RUN = process.env.DRY_RUN === 'true' || process.argv.includes('--dry-run');
+
+// Function entries of the router ABI
+type RouterFunctionFragment = Extract<(typeof RouterABI)[number], { type: 'function' }>;
+
+// Router swap functions that return the amounts of every hop, by selector
+const routerContract = ABIContract.ofAbi(RouterABI);
+const SWAP_RESULT_FUNCTIONS = new Map<string, ABIFunction>(
+  RouterABI
+    .filter((entry): entry is RouterFunctionFragment => entry.type === 'function')
+    .filter(entry => entry.name.startsWith('swap') && entry.outputs.length > 0)
+    .map(entry => {
+      const fn = routerContract.getFunction(entry.name);
+      return [fn.signatureHash.toLowerCase(), fn];
+    })
+);
+
+/**
+ * Interface for a token allowance a swap depends on
+ */
+interface ApprovalRequirement {
+  token: string;
+  spender: string;
+  amount: bigint;
+}
+
+/**
+ * Whether a swap fixes its input amount (exactIn) or its output amount (exactOut)
+ */
+export type SwapKind = 'exactIn' | 'exactOut';
+
+/**
+ * Router swap functions
+ */
+export type SwapFunction =
+  | 'swapExactTokensForTokens'
+  | 'swapTokensForExactTokens'
+  | 'swapExactETHForTokens'
+  | 'swapETHForExactTokens'
+  | 'swapExactTokensForETH'
+  | 'swapTokensForExactETH'
+  | 'swapExactTokensForTokensSupportingFeeOnTransferTokens'
+  | 'swapExactETHForTokensSupportingFeeOnTransferTokens'
+  | 'swapExactTokensForETHSupportingFeeOnTransferTokens';
+
+/**
+ * Interface for a swap order
+ * The amount is the input for exactIn orders and the output for exactOut orders; the limit is the minimum
+ * output (exactIn) or maximum input (exactOut) and is derived from a router quote and the slippage when omitted.
+ * Router quotes ignore transfer fees, so fee-on-transfer orders need a limit or their transferFeeBps.
+ */
+export interface SwapOrder {
+  tokenIn: string;              // Token address or NATIVE_VET
+  tokenOut: string;             // Token address or NATIVE_VET
+  kind: SwapKind;
+  amount: bigint;               // Raw amount of tokenIn (exactIn) or tokenOut (exactOut)
+  limit?: bigint;               // Raw minimum output (exactIn) or maximum input (exactOut)
+  slippageBps?: number;         // Used to derive the limit (defaults to 500)
+  via?: string[];               // Intermediate tokens of the path
+  feeOnTransfer?: boolean;      // Use the SupportingFeeOnTransferTokens variants (exactIn only)
+  transferFeeBps?: number;      // Share of the output lost to transfer fees, deducted from the quote (feeOnTransfer without a limit)
+  router?: string;              // Defaults to the network's router
+  recipient?: string;           // Defaults to the wallet
+  deadline?: number;            // Unix timestamp (defaults to 5 minutes from now)
+  mode?: ExecutionMode;         // How the input token approval is sent
+  dryRun?: boolean;             // Only simulate the swap (defaults to DRY_RUN)
+  gasPayer?: GasPayer;          // VIP-191 gas payer (defaults to the network's configured gas payer, if any)
+  network?: NetworkContext;
+}
+
+/**
+ * Interface for a swap ready to be turned into a router clause
+ */
+export interface SwapPlan {
+  router: string;
+  path: string[];               // Token addresses, native VET replaced by the router's WETH
+  kind: SwapKind;
+  nativeIn: boolean;
+  nativeOut: boolean;
+  feeOnTransfer: boolean;
+  amount: bigint;               // Exact input (exactIn) or exact output (exactOut)
+  limit: bigint;                // Minimum output (exactIn) or maximum input (exactOut)
+  recipient: string;
+  deadline: number;
+}
+
+/**
+ * Make sure the allowances a swap needs are in place
+ * In sequential mode approvals are sent as separate transactions; in atomic mode approve clauses are returned
+ * to be prepended to the swap transaction.
+ * @param requirements Allowances needed by the swap
+ * @param walletAddress Wallet that owns the tokens
+ * @param mode Execution mode
+ * @param network The network to use
+ * @returns Promise with the approve clauses to include (atomic mode) or an error
+ */
+async function prepareApprovals(
+  requirements: ApprovalRequirement[],
+  walletAddress: string,
+  mode: ExecutionMode,
+  network: NetworkContext
+): Promise<{ clauses: TransactionClause[]; error?: string }> {
+  const clauses: TransactionClause[] = [];
+  
+  for (const requirement of requirements) {
+    if (mode === 'atomic') {
+      const clause = await buildApprovalClauseIfNeeded(
+        requirement.token,
+        walletAddress,
+        requirement.spender,
+        requirement.amount.toString(),
+        network
+      );
+      if (clause) {
+        clauses.push(clause);
+      }
+      continue;
+    }
+    
+    const approvalResult = await checkAndApproveTokenAllowance(
+      requirement.token,
+      requirement.spender,
+      requirement.amount.toString(),
+      network
+    );
+    if (!approvalResult.success) {
+      return { clauses, error: `Approval failed: ${approvalResult.error}` };
+    }
+  }
+  
+  return { clauses };
+}
+
+/**
+ * Classify a trade error from its message (a thrown error, node rejection or revert reason)
+ * @param message Error message
+ * @returns Error code
+ */
+export function classifyTradeError(message: string): TradeErrorCode {
+  if (/INSUFFICIENT_OUTPUT_AMOUNT|EXCESSIVE_INPUT_AMOUNT/.test(message)) {
+    return 'slippage';
+  }
+  if (/\bEXPIRED\b/.test(message)) {
+    return 'deadline';
+  }
+  if (/insufficient energy/i.test(message)) {
+    return 'insufficientEnergy';
+  }
+  if (/^Gas payer service /.test(message)) {
+    return 'delegationFailed';
+  }
+  return /revert/i.test(message) ? 'reverted' : 'unknown';
+}
+
+/**
+ * Classify the revert of a simulation or transaction
+ * @param reason Decoded revert reason, when known
+ * @returns Error code (reverted when the reason is unknown)
+ */
+function classifyRevertReason(reason?: string): TradeErrorCode {
+  const code = classifyTradeError(reason || '');
+  return code === 'unknown' ? 'reverted' : code;
+}
+
+/**
+ * Build the result of a trade that threw
+ * @param error Thrown error
+ * @returns Failed trade result with the classified error
+ */
+function tradeFailure(error: unknown): TradeExecutionResult<never> {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    success: false,
+    error: message,
+    errorCode: classifyTradeError(message),
+    revertReason: message.match(/simulation reverted at clause \d+: (.*)$/)?.[1]
+  };
+}
+
+/**
+ * Decode the hop amounts returned by the swap clauses of a simulation
+ * @param clauses Clauses of the transaction
+ * @param simulation Simulation of the clauses
+ * @returns Amounts of every hop, per swap clause that returns them
+ */
+function decodeSwapAmounts(clauses: TransactionClause[], simulation: TransactionSimulation): bigint[][] {
+  if (simulation.reverted) {
+    return [];
+  }
+  return clauses.flatMap((clause, i) => {
+    const fn = SWAP_RESULT_FUNCTIONS.get(clause.data.slice(0, 10).toLowerCase());
+    const output = simulation.clauses[i]?.data;
+    return fn && output && output !== '0x' ? [(fn.decodeOutputAsArray(Hex.of(output))[0] as bigint[]).map(BigInt)] : [];
+  });
+}
+
+/**
+ * Send a swap transaction after simulating it, or only simulate it in dry-run mode
+ * A reverting simulation aborts the send (executeTransaction throws), and the simulated gas sets the gas limit.
+ * @param txManager Transaction manager
+ * @param clauses Approve and swap clauses
+ * @param signer Signer of the transaction
+ * @param network The network, whose transaction tracker resubmits the swap if it expires unmined
+ * @param dryRun Only simulate the transaction
+ * @param details Details returned with the result
+ * @param gasPayer VIP-191 gas payer (defaults to the one configured for the network, see createGasPayerFromEnv)
+ * @returns Promise with trade result
+ */
+async function sendSwapTransaction<TDetails extends TradeDetails>(
+  txManager: TransactionManager,
+  clauses: TransactionClause[],
+  signer: TransactionSigner,
+  network: NetworkContext,
+  dryRun: boolean,
+  details?: TDetails,
+  gasPayer: GasPayer | undefined = createGasPayerFromEnv(network.name)
+): Promise<TradeExecutionResult<TDetails>> {
+  console.log(dryRun ? "🧪 DRY RUN - simulating swap transaction, nothing will be sent..." : "Executing swap transaction...");
+  if (gasPayer && !dryRun) {
+    console.log(`⛽ Gas paid by ${describeGasPayer(gasPayer)}`);
+  }
+  const result = await txManager.executeTransaction(clauses, signer, {
+    waitForReceipt: true,
+    gasPriceCoef: 0,    // Base gas price
+    dryRun,
+    tracker: getTransactionTracker(network),
+    gasPayer
+  });
+
+  if (dryRun && result.simulation) {
+    const simulation = result.simulation;
+    const simulatedAmounts = decodeSwapAmounts(clauses, simulation);
+    if (simulation.reverted) {
+      console.log(`❌ Simulation reverted at clause ${simulation.revertedClause}: ${simulation.revertReason || simulation.vmError}`);
+    } else {
+      console.log(`✅ Simulation succeeded, ${simulation.gasUsed} gas`);
+      simulatedAmounts.forEach(amounts => console.log(`Simulated amounts: ${amounts.join(' -> ')}`));
+    }
+    return {
+      success: !simulation.reverted,
+      error: simulation.reverted ? `Simulation reverted: ${simulation.revertReason || simulation.vmError || 'no revert reason'}` : undefined,
+      errorCode: simulation.reverted ? classifyRevertReason(simulation.revertReason || simulation.vmError) : undefined,
+      revertReason: simulation.revertReason,
+      details,
+      dryRun: true,
+      simulation,
+      simulatedAmounts
+    };
+  }
+
+  // Included but reverted, or never included
+  if (result.status && result.status !== 'confirmed') {
+    const error = `Transaction ${result.transactionId} ${result.status}${result.revertReason ? `: ${result.revertReason}` : ''}`;
+    console.error(`❌ ${error}`);
+    return {
+      success: false,
+      transactionId: result.transactionId,
+      receipt: result.receipt,
+      error,
+      errorCode: result.status === 'reverted' ? classifyRevertReason(result.revertReason) : result.status,
+      revertReason: result.revertReason,
+      details,
+      simulation: result.simulation
+    };
+  }
+
+  console.log("✅ Swap transaction executed!");
+  console.log(`Transaction ID: ${result.transactionId}`);
+  return {
+    success: true,
+    transactionId: result.transactionId,
+    receipt: result.receipt,
+    details,
+    simulation: result.simulation
+  };
 }
 
 /**
  * Execute swap from VTHO to VET
- * @param slippageTolerance Percentage of slippage tolerance
+ * @param slippageToleranceBps Slippage tolerance in basis points (500 = 5%)
  * @param expectedRatio Current price ratio from DEX
+ * @param includeApproval Add an approve clause to the swap transaction when the allowance is insufficient
+ * @param dryRun Only simulate the swap
  * @returns Promise with trade result
  */
 export async function executeVTHOtoVETSwap(
-  slippageTolerance: number = 5,
-  expectedRatio?: PriceRatio
-): Promise<TradeExecutionResult> {
+  slippageToleranceBps: number = 500,
+  expectedRatio?: VETVTHORatio,
+  includeApproval: boolean = false,
+  dryRun: boolean = DEFAULT_DRY_RUN
+): Promise<TradeExecutionResult<VTHOSwapDetails>> {
   console.log("\n🔄 Preparing VTHO to VET swap...");
   
   try {
@@ -36,15 +412,16 @@ export async function executeVTHOtoVETSwap(
     const { DEX_ROUTER_ADDRESS, TRADE_AMOUNT_VTHO, vVET_ADDRESS, VTHO_ADDRESS } = getTradeParameters();
     
     // Get network from environment
-    const network = process.env.NETWORK || "testnet";
-    console.log(`Network: ${network}`);
+    const network = getNetworkContext();
+    console.log(`Network: ${network.name}`);
     
     // Get signer from environment variables
-    const { signer, source } = createSignerFromEnv(network);
+    const { signer, source } = createSignerFromEnv(network.name);
     if (!signer || (!signer.mnemonic && !signer.privateKey)) {
       return { 
         success: false, 
-        error: "No valid signer credentials found in environment"
+        error: "No valid signer credentials found in environment",
+        errorCode: 'noSigner'
       };
     }
     
@@ -59,34 +436,33 @@ export async function executeVTHOtoVETSwap(
     let ratio = expectedRatio;
     if (!ratio) {
       console.log("Getting current VET/VTHO ratio from DEX...");
-      
-      // Create contract interface for router
-      const RouterContract = createContractInterface(DEX_ROUTER_ADDRESS, RouterABI, network);
-      
-      // Get amounts out
-      const amounts = await RouterContract.callPlain("getAmountsOut", TRADE_AMOUNT_VTHO, [VTHO_ADDRESS, vVET_ADDRESS]);
-      
-      // Parse the output amount
-      const amountsArray = Array.isArray(amounts) ? amounts : [amounts];
-      const outputAmount = typeof amountsArray[1] === 'string' ? BigInt(amountsArray[1]) : amountsArray[1] as bigint;
-      
-      // Create a placeholder ratio object
-      ratio = {
-        inputVTHO: Number(BigInt(TRADE_AMOUNT_VTHO)) / 1e18,
-        outputVET: Number(outputAmount) / 1e18,
-        vetPerVtho: (Number(outputAmount) / 1e18) / (Number(BigInt(TRADE_AMOUNT_VTHO)) / 1e18),
-        vthoPerVet: (Number(BigInt(TRADE_AMOUNT_VTHO)) / 1e18) / (Number(outputAmount) / 1e18)
-      };
+      const quote = await getQuote({
+        tokenIn: VTHO_ADDRESS,
+        tokenOut: vVET_ADDRESS,
+        amountIn: TRADE_AMOUNT_VTHO,
+        router: DEX_ROUTER_ADDRESS,
+        network
+      });
+      ratio = toVETVTHORatio(quote.ratio);
     }
     
-    // Calculate output with slippage tolerance
-    const outputAmount = BigInt(Math.floor(ratio.outputVET * 1e18));
-    const slippageFactor = 1 - (slippageTolerance / 100);
-    const minOutput = BigInt(Math.floor(Number(outputAmount) * slippageFactor));
+    // Refuse to trade into a pool whose spot price has moved away from its TWAP
+    if (getMaxTwapDeviationPercent() !== undefined) {
+      const pair = await getPairAddress(await getFactoryAddress(DEX_ROUTER_ADDRESS, network), VTHO_ADDRESS, vVET_ADDRESS, network);
+      const deviationError = await checkTwapDeviation([pair], undefined, undefined, network);
+      if (deviationError) {
+        return { success: false, error: deviationError, errorCode: 'priceDeviation' };
+      }
+    }
+    
+    // Calculate output with slippage tolerance (exact bigint math in basis points)
+    const inputAmount = tokenAmount(TRADE_AMOUNT_VTHO, ratio.amountIn.decimals);
+    const outputAmount = ratio.amountOut.raw;
+    const minOutput = tokenAmount(applySlippageBps(outputAmount, slippageToleranceBps), ratio.amountOut.decimals);
     
-    console.log(`Input Amount: ${TRADE_AMOUNT_VTHO} VTHO (${Number(BigInt(TRADE_AMOUNT_VTHO)) / 1e18} VTHO)`);
-    console.log(`Expected Output: ${outputAmount} VET (${ratio.outputVET.toFixed(8)} VET)`);
-    console.log(`Minimum Output (with ${slippageTolerance}% slippage): ${minOutput} VET (${Number(minOutput) / 1e18} VET)`);
+    console.log(`Input Amount: ${inputAmount.raw} VTHO (${formatTokenAmount(inputAmount)} VTHO)`);
+    console.log(`Expected Output: ${outputAmount} VET (${formatTokenAmount(ratio.amountOut, 8)} VET)`);
+    console.log(`Minimum Output (with ${slippageToleranceBps} bps slippage): ${minOutput.raw} VET (${formatTokenAmount(minOutput)} VET)`);
     
     // Calculate deadline (current time + 5 minutes)
     const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes from now
@@ -103,53 +479,52 @@ export async function executeVTHOtoVETSwap(
       DEX_ROUTER_ADDRESS,
       RouterABI,
       "swapExactTokensForETH", 
-      [TRADE_AMOUNT_VTHO, minOutput.toString(), path, walletAddress, deadline]
+      [inputAmount.raw.toString(), minOutput.raw.toString(), path, walletAddress, deadline]
     );
     
-    // Execute the swap transaction
-    console.log("Executing swap transaction...");
-    const result = await txManager.executeTransaction(
-      [swapClause],
-      signer,
-      {
-        waitForReceipt: true,
-        gas: 300000,        // Higher gas limit for swap
-        gasPriceCoef: 0     // Base gas price
-      }
-    );
+    // Prepend the approval in the same transaction when requested
+    const { clauses: approvalClauses } = includeApproval
+      ? await prepareApprovals(
+          [{ token: VTHO_ADDRESS, spender: DEX_ROUTER_ADDRESS, amount: inputAmount.raw }],
+          walletAddress,
+          'atomic',
+          network
+        )
+      : { clauses: [] };
     
-    console.log("✅ Swap transaction executed!");
-    console.log(`Transaction ID: ${result.transactionId}`);
-    
-    return {
-      success: true,
-      transactionId: result.transactionId,
-      receipt: result.receipt
-    };
+    // Execute the swap transaction
+    return await sendSwapTransaction(txManager, [...approvalClauses, swapClause], signer, network, dryRun, {
+      approvalIncluded: approvalClauses.length > 0
+    });
   } catch (error) {
     console.error("❌ Error executing swap:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error)
-    };
+    return tradeFailure(error);
   }
 }
 
 /**
- * Complete trade flow - handle both approval and swap in sequence
- * @param slippageTolerance Percentage of slippage tolerance
+ * Complete trade flow - handle both approval and swap
+ * @param slippageToleranceBps Slippage tolerance in basis points (500 = 5%)
  * @param expectedRatio Current price ratio from DEX
+ * @param mode Send the approval in its own transaction first (sequential) or in the swap transaction (atomic)
+ * @param dryRun Only simulate the trade; the approval is simulated in the swap transaction
  * @returns Promise with trade result
  */
 export async function executeTrade(
-  slippageTolerance: number = 5,
-  expectedRatio?: PriceRatio
-): Promise<TradeExecutionResult> {
-  console.log("🚀 Starting complete trade flow (approval + swap)...");
+  slippageToleranceBps: number = 500,
+  expectedRatio?: VETVTHORatio,
+  mode: ExecutionMode = DEFAULT_EXECUTION_MODE,
+  dryRun: boolean = DEFAULT_DRY_RUN
+): Promise<TradeExecutionResult<VTHOSwapDetails>> {
+  console.log(`🚀 Starting complete trade flow (approval + swap, ${dryRun ? 'dry run' : mode})...`);
+  
+  if (mode === 'atomic' || dryRun) {
+    return executeVTHOtoVETSwap(slippageToleranceBps, expectedRatio, true, dryRun);
+  }
   
   // Get DEX router address and trade amount
   const { DEX_ROUTER_ADDRESS, TRADE_AMOUNT_VTHO } = getTradeParameters();
-  const network = process.env.NETWORK || "testnet";
+  const network = getNetworkContext();
   
   // First, check and approve allowance if needed using the token approval module
   const approvalResult = await checkAndApproveVTHOAllowance(
@@ -161,44 +536,492 @@ export async function executeTrade(
   if (!approvalResult.success) {
     return {
       success: false,
-      error: `Approval failed: ${approvalResult.error}`
+      error: `Approval failed: ${approvalResult.error}`,
+      errorCode: 'approvalFailed'
     };
   }
   
   // If approval was successful or not needed, proceed with swap
   console.log("Proceeding with swap execution...");
-  return executeVTHOtoVETSwap(slippageTolerance, expectedRatio);
+  return executeVTHOtoVETSwap(slippageToleranceBps, expectedRatio, false, dryRun);
+}
+
+/**
+ * Pick the router swap function for the input/output types and swap kind
+ * @param nativeIn Input is native VET
+ * @param nativeOut Output is native VET
+ * @param kind Exact input or exact output
+ * @param feeOnTransfer Use the variant supporting fee-on-transfer tokens
+ * @returns Router function name
+ */
+export function selectSwapFunction(nativeIn: boolean, nativeOut: boolean, kind: SwapKind, feeOnTransfer: boolean = false): SwapFunction {
+  if (nativeIn && nativeOut) {
+    throw new Error("Cannot swap VET for VET");
+  }
+  if (feeOnTransfer && kind === 'exactOut') {
+    throw new Error("Fee-on-transfer swaps only support exact input amounts");
+  }
+  if (kind === 'exactOut') {
+    return nativeIn ? 'swapETHForExactTokens' : nativeOut ? 'swapTokensForExactETH' : 'swapTokensForExactTokens';
+  }
+  const name = nativeIn ? 'swapExactETHForTokens' : nativeOut ? 'swapExactTokensForETH' : 'swapExactTokensForTokens';
+  return (feeOnTransfer ? `${name}SupportingFeeOnTransferTokens` : name) as SwapFunction;
+}
+
+/**
+ * Build the router clause of a swap
+ * VET inputs are sent as the clause value: the exact input, or the maximum input for exact outputs (the router refunds the rest).
+ * @param txManager Transaction manager used to build the clause
+ * @param plan Swap plan
+ * @returns Transaction clause
+ */
+export function buildSwapClause(txManager: TransactionManager, plan: SwapPlan) {
+  const fn = selectSwapFunction(plan.nativeIn, plan.nativeOut, plan.kind, plan.feeOnTransfer);
+  const tail = [plan.path, plan.recipient, plan.deadline];
+
+  if (plan.nativeIn) {
+    const args = plan.kind === 'exactIn' ? [plan.limit.toString(), ...tail] : [plan.amount.toString(), ...tail];
+    const value = plan.kind === 'exactIn' ? plan.amount : plan.limit;
+    return txManager.buildTransactionClause(plan.router, RouterABI, fn, args, tokenAmount(value, 18));
+  }
+  return txManager.buildTransactionClause(plan.router, RouterABI, fn, [plan.amount.toString(), plan.limit.toString(), ...tail]);
+}
+
+/**
+ * Build the router swap clause for a route
+ * Picks swapExactTokensForTokens, swapExactETHForTokens or swapExactTokensForETH from the route's native flags
+ * @param txManager Transaction manager used to build the clause
+ * @param route Route with path, amounts and router
+ * @param minOutput Minimum output amount
+ * @param recipient Address receiving the output
+ * @param deadline Unix timestamp after which the swap reverts
+ * @returns Transaction clause
+ */
+export function buildRouteSwapClause(
+  txManager: TransactionManager,
+  route: Route,
+  minOutput: bigint,
+  recipient: string,
+  deadline: number
+) {
+  return buildSwapClause(txManager, {
+    router: route.router,
+    path: route.path,
+    kind: 'exactIn',
+    nativeIn: route.nativeIn,
+    nativeOut: route.nativeOut,
+    feeOnTransfer: false,
+    amount: route.amountIn,
+    limit: minOutput,
+    recipient,
+    deadline
+  });
+}
+
+/**
+ * Execute a swap along a route found by the route finder
+ * @param route Route with path, amounts and router
+ * @param slippageToleranceBps Slippage tolerance in basis points (500 = 5%)
+ * @param mode How the input token approval is sent (see ExecutionMode)
+ * @param dryRun Only simulate the swap
+ * @returns Promise with trade result
+ */
+export async function executeRouteSwap(
+  route: Route,
+  slippageToleranceBps: number = 500,
+  mode: ExecutionMode = DEFAULT_EXECUTION_MODE,
+  dryRun: boolean = DEFAULT_DRY_RUN
+): Promise<TradeExecutionResult> {
+  console.log(`\n🔄 Preparing ${route.path.length - 1}-hop swap via ${route.router}...`);
+  
+  try {
+    const network = getNetworkContext();
+    
+    // Get signer from environment variables
+    const { signer, source } = createSignerFromEnv(network.name);
+    if (!signer || (!signer.mnemonic && !signer.privateKey)) {
+      return { 
+        success: false, 
+        error: "No valid signer credentials found in environment",
+        errorCode: 'noSigner'
+      };
+    }
+    
+    const txManager = createTransactionManager(network);
+    const walletAddress = txManager.getWalletAddress(signer);
+    console.log(`🔑 Using ${source} wallet: ${walletAddress}`);
+    
+    // Refuse to trade into pools whose spot price has moved away from their TWAP
+    const unchecked = getUncheckedTwapError([route]);
+    if (unchecked) {
+      return { success: false, error: unchecked, errorCode: 'priceDeviation' };
+    }
+    const deviationError = await checkTwapDeviation(route.pairs, undefined, undefined, network);
+    if (deviationError) {
+      return { success: false, error: deviationError, errorCode: 'priceDeviation' };
+    }
+    
+    // Token inputs must be approved for the router
+    const approvals = await prepareApprovals(
+      route.nativeIn ? [] : [{ token: route.path[0], spender: route.approvalTarget || route.router, amount: route.amountIn }],
+      walletAddress,
+      dryRun ? 'atomic' : mode,
+      network
+    );
+    if (approvals.error) {
+      return { success: false, error: approvals.error, errorCode: 'approvalFailed' };
+    }
+    
+    const minOutput = applySlippageBps(route.amountOut, slippageToleranceBps);
+    const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes from now
+    
+    console.log(`Path: ${route.path.join(' -> ')}`);
+    console.log(`Input Amount: ${route.amountIn}`);
+    console.log(`Expected Output: ${route.amountOut}`);
+    console.log(`Minimum Output (with ${slippageToleranceBps} bps slippage): ${minOutput}`);
+    
+    const swapClause = buildRouteSwapClause(txManager, route, minOutput, walletAddress, deadline);
+    
+    return await sendSwapTransaction(txManager, [...approvals.clauses, swapClause], signer, network, dryRun);
+  } catch (error) {
+    console.error("❌ Error executing route swap:", error);
+    return tradeFailure(error);
+  }
 }
 
-// Parse command line arguments for dry run mode
-const isDryRun = process.argv.includes('--dry-run');
+/**
+ * Execute a swap with any of the router's swap functions
+ * The function and clause value follow from the order: VET or token input and output, exact input or exact output,
+ * and fee-on-transfer support. Without a limit, the router is asked for the expected amounts and the slippage applied.
+ * @param order Swap order
+ * @returns Promise with trade result; details hold the function, expected amount and limit
+ */
+export async function executeSwap(order: SwapOrder): Promise<TradeExecutionResult<SwapDetails>> {
+  const network = order.network || getNetworkContext();
+  const router = order.router || getTradeParameters(network).DEX_ROUTER_ADDRESS;
+  const nativeIn = isNativeVET(order.tokenIn);
+  const nativeOut = isNativeVET(order.tokenOut);
+  const slippageBps = order.slippageBps ?? 500;
+  const feeOnTransfer = order.feeOnTransfer ?? false;
+  const dryRun = order.dryRun ?? DEFAULT_DRY_RUN;
+
+  try {
+    const fn = selectSwapFunction(nativeIn, nativeOut, order.kind, feeOnTransfer);
+    if (feeOnTransfer && order.limit === undefined && order.transferFeeBps === undefined) {
+      throw new Error("Fee-on-transfer swaps need a limit or a transferFeeBps: router quotes ignore transfer fees");
+    }
+    console.log(`\n🔄 Preparing ${fn} via ${router}...`);
+
+    // Get signer from environment variables
+    const { signer, source } = createSignerFromEnv(network.name);
+    if (!signer || (!signer.mnemonic && !signer.privateKey)) {
+      return {
+        success: false,
+        error: "No valid signer credentials found in environment",
+        errorCode: 'noSigner'
+      };
+    }
+
+    const txManager = createTransactionManager(network);
+    const walletAddress = txManager.getWalletAddress(signer);
+    console.log(`🔑 Using ${source} wallet: ${walletAddress}`);
+
+    const path = await Promise.all(
+      [order.tokenIn, ...(order.via || []), order.tokenOut].map(token => resolvePathToken(token, router, network))
+    );
+
+    // Expected amount on the other side of the swap, from the router
+    const RouterContract = createContractInterface(router, RouterABI, network);
+    const amounts = await RouterContract.callPlain(
+      order.kind === 'exactIn' ? "getAmountsOut" : "getAmountsIn",
+      order.amount.toString(),
+      path
+    ) as bigint[];
+    const quoted = BigInt(order.kind === 'exactIn' ? amounts[amounts.length - 1] : amounts[0]);
+    const expected = feeOnTransfer ? applySlippageBps(quoted, order.transferFeeBps ?? 0) : quoted;
+    const limit = order.limit ?? (order.kind === 'exactIn' ? applySlippageBps(expected, slippageBps) : applySlippageBpsUp(expected, slippageBps));
+
+    // Refuse to trade into pools whose spot price has moved away from their TWAP
+    if (getMaxTwapDeviationPercent() !== undefined) {
+      const factory = await getFactoryAddress(router, network);
+      const pairs = await Promise.all(path.slice(1).map((token, i) => getPairAddress(factory, path[i], token, network)));
+      const deviationError = await checkTwapDeviation(pairs, undefined, undefined, network);
+      if (deviationError) {
+        return { success: false, error: deviationError, errorCode: 'priceDeviation' };
+      }
+    }
+
+    // Token inputs must be approved for up to the maximum the swap can spend
+    const venue = getDexByRouter(router, network);
+    const approvals = await prepareApprovals(
+      nativeIn ? [] : [{ token: path[0], spender: venue ? getApprovalTarget(venue) : router, amount: order.kind === 'exactIn' ? order.amount : limit }],
+      walletAddress,
+      dryRun ? 'atomic' : order.mode || DEFAULT_EXECUTION_MODE,
+      network
+    );
+    if (approvals.error) {
+      return { success: false, error: approvals.error, errorCode: 'approvalFailed' };
+    }
+
+    console.log(`Path: ${path.join(' -> ')}`);
+    if (order.kind === 'exactIn') {
+      console.log(`Input Amount: ${order.amount}`);
+      console.log(`Expected Output: ${expected}`);
+      console.log(`Minimum Output: ${limit}`);
+    } else {
+      console.log(`Output Amount: ${order.amount}`);
+      console.log(`Expected Input: ${expected}`);
+      console.log(`Maximum Input: ${limit}`);
+    }
+
+    const swapClause = buildSwapClause(txManager, {
+      router,
+      path,
+      kind: order.kind,
+      nativeIn,
+      nativeOut,
+      feeOnTransfer,
+      amount: order.amount,
+      limit,
+      recipient: order.recipient || walletAddress,
+      deadline: order.deadline ?? Math.floor(Date.now() / 1000) + 300 // 5 minutes from now
+    });
+
+    return await sendSwapTransaction(txManager, [...approvals.clauses, swapClause], signer, network, dryRun, {
+      function: fn,
+      path,
+      expected,
+      limit
+    }, order.gasPayer);
+  } catch (error) {
+    console.error("❌ Error executing swap:", error);
+    return tradeFailure(error);
+  }
+}
+
+/**
+ * Execute a quote on the DEX that produced it (e.g. the winner of getBestQuote)
+ * @param quote Quote to execute, with the DEX it came from
+ * @param slippageToleranceBps Slippage tolerance in basis points (500 = 5%)
+ * @param mode How the input token approval is sent (see ExecutionMode)
+ * @param dryRun Only simulate the swap
+ * @returns Promise with trade result
+ */
+export async function executeQuoteSwap(
+  quote: RankedQuote,
+  slippageToleranceBps: number = 500,
+  mode: ExecutionMode = DEFAULT_EXECUTION_MODE,
+  dryRun: boolean = DEFAULT_DRY_RUN
+): Promise<TradeExecutionResult> {
+  console.log(`Executing on ${quote.dex.name} (${quote.router})`);
+  return executeRouteSwap(await quoteToRoute(quote, quote.dex), slippageToleranceBps, mode, dryRun);
+}
+
+/**
+ * Convert a single-hop quote to a route for execution
+ * Quotes priced by the router carry no pair state; their pairs are resolved through the router's factory.
+ * @param quote Quote from getQuote
+ * @param dex DEX the quote came from (looked up by router when omitted)
+ * @returns Promise with the route with the quote's path and amounts
+ */
+async function quoteToRoute(quote: TokenQuote, dex?: DexConfig): Promise<Route> {
+  const network = getNetworkContext();
+  const venue = dex || getDexByRouter(quote.router, network);
+  return {
+    router: quote.router,
+    path: quote.path,
+    pairs: quote.pairState ? [quote.pairState.pair] : await resolveRoutePairs(quote.path, quote.router, network),
+    amounts: [quote.amountIn, quote.amountOut],
+    amountIn: quote.amountIn,
+    amountOut: quote.amountOut,
+    nativeIn: isNativeVET(quote.tokenIn.address),
+    nativeOut: isNativeVET(quote.tokenOut.address),
+    approvalTarget: venue ? getApprovalTarget(venue) : undefined
+  };
+}
+
+/**
+ * Resolve the pair of every hop of a path on a router's factory
+ * @param path Token path
+ * @param router Router address
+ * @param network The network to use
+ * @returns Promise with the pair addresses, empty when they cannot be resolved
+ */
+async function resolveRoutePairs(path: string[], router: string, network: NetworkContext): Promise<string[]> {
+  try {
+    const factory = await getFactoryAddress(router, network);
+    return await Promise.all(path.slice(1).map((token, i) => getPairAddress(factory, path[i], token, network)));
+  } catch (error) {
+    console.warn(`⚠️ Could not resolve the pairs of ${path.join(' -> ')} on ${router}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Check that the TWAP guard knows the pair of every hop of the routes it must check
+ * @param routes Routes about to be executed
+ * @returns Error message when the guard is enabled and a route's pairs are unknown, undefined otherwise
+ */
+function getUncheckedTwapError(routes: Route[]): string | undefined {
+  if (getMaxTwapDeviationPercent() === undefined) {
+    return undefined;
+  }
+  const unchecked = routes.find(route => route.pairs.length !== route.path.length - 1);
+  return unchecked ? `Cannot check the TWAP of ${unchecked.path.join(' -> ')}: its pairs are unknown` : undefined;
+}
+
+/**
+ * Execute an order returned by a strategy
+ * Sells spend the base token for the quote token, buys spend the quote token for the base token.
+ * The order is re-quoted and refused when the price is worse than its limit price.
+ * @param order Strategy order
+ * @param slippageToleranceBps Slippage tolerance used when the order does not set one
+ * @param mode How the input token approval is sent (see ExecutionMode)
+ * @param dryRun Only simulate the swap
+ * @returns Promise with trade result; details hold the quoted amountIn, amountOut and price of base in quote
+ */
+export async function executeOrder(
+  order: StrategyOrder,
+  slippageToleranceBps: number = 500,
+  mode: ExecutionMode = DEFAULT_EXECUTION_MODE,
+  dryRun: boolean = DEFAULT_DRY_RUN
+): Promise<TradeExecutionResult<OrderDetails>> {
+  const { pair, side, size } = order;
+  const label = pair.symbol || `${pair.base}/${pair.quote}`;
+  console.log(`\n📋 Executing ${side} order on ${label}: ${size} in${order.reason ? ` (${order.reason})` : ''}`);
+
+  try {
+    const quote = await getQuote({
+      tokenIn: side === 'sell' ? pair.base : pair.quote,
+      tokenOut: side === 'sell' ? pair.quote : pair.base,
+      amountIn: size
+    });
+
+    // Price of the base token in the quote token, whichever side is spent
+    const price = side === 'sell' ? quote.ratio.outputPerInput : quote.ratio.inputPerOutput;
+    if (order.limitPrice !== undefined) {
+      const withinLimit = side === 'sell' ? price >= order.limitPrice : price <= order.limitPrice;
+      if (!withinLimit) {
+        return {
+          success: false,
+          error: `Price ${price} is worse than the ${side} limit ${order.limitPrice}`,
+          errorCode: 'priceLimit',
+          details: { amountIn: quote.amountIn, amountOut: quote.amountOut, price }
+        };
+      }
+    }
+
+    const result = await executeRouteSwap(await quoteToRoute(quote), order.slippageBps ?? slippageToleranceBps, mode, dryRun);
+    return { ...result, details: { amountIn: quote.amountIn, amountOut: quote.amountOut, price } };
+  } catch (error) {
+    console.error("❌ Error executing order:", error);
+    return tradeFailure(error);
+  }
+}
+
+/**
+ * Execute a split order as one multi-clause transaction with one swap clause per venue
+ * @param plan Split plan from planSplitOrder
+ * @param slippageToleranceBps Slippage tolerance in basis points, applied to each leg
+ * @param mode How the input token approvals are sent (see ExecutionMode)
+ * @param dryRun Only simulate the split swap
+ * @returns Promise with trade result
+ */
+export async function executeSplitOrder(
+  plan: SplitPlan,
+  slippageToleranceBps: number = 500,
+  mode: ExecutionMode = DEFAULT_EXECUTION_MODE,
+  dryRun: boolean = DEFAULT_DRY_RUN
+): Promise<TradeExecutionResult<SplitLegDetails[]>> {
+  console.log(`\n🔄 Preparing split order across ${plan.legs.length} DEX(es)...`);
+  
+  try {
+    const network = getNetworkContext();
+    
+    // Get signer from environment variables
+    const { signer, source } = createSignerFromEnv(network.name);
+    if (!signer || (!signer.mnemonic && !signer.privateKey)) {
+      return { 
+        success: false, 
+        error: "No valid signer credentials found in environment",
+        errorCode: 'noSigner'
+      };
+    }
+    
+    const txManager = createTransactionManager(network);
+    const walletAddress = txManager.getWalletAddress(signer);
+    console.log(`🔑 Using ${source} wallet: ${walletAddress}`);
+    
+    // Refuse to trade into pools whose spot price has moved away from their TWAP
+    const unchecked = getUncheckedTwapError(plan.legs.map(leg => leg.route));
+    if (unchecked) {
+      return { success: false, error: unchecked, errorCode: 'priceDeviation' };
+    }
+    const deviationError = await checkTwapDeviation(plan.legs.flatMap(leg => leg.route.pairs), undefined, undefined, network);
+    if (deviationError) {
+      return { success: false, error: deviationError, errorCode: 'priceDeviation' };
+    }
+    
+    // Each venue needs its own approval for token inputs
+    const approvals = await prepareApprovals(
+      plan.legs
+        .filter(leg => !leg.route.nativeIn)
+        .map(leg => ({ token: leg.route.path[0], spender: leg.route.approvalTarget || leg.route.router, amount: leg.route.amountIn })),
+      walletAddress,
+      dryRun ? 'atomic' : mode,
+      network
+    );
+    if (approvals.error) {
+      return { success: false, error: approvals.error, errorCode: 'approvalFailed' };
+    }
+    
+    const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes from now
+    
+    // One swap clause per venue, each with its own slippage bound
+    const clauses = plan.legs.map(leg => {
+      const minOutput = applySlippageBps(leg.route.amountOut, slippageToleranceBps);
+      console.log(`${leg.dex.name}: ${leg.route.amountIn} in, ${leg.route.amountOut} expected, ${minOutput} minimum`);
+      return buildRouteSwapClause(txManager, leg.route, minOutput, walletAddress, deadline);
+    });
+    console.log(`Total: ${plan.amountIn} in, ${plan.amountOut} expected`);
+    
+    return await sendSwapTransaction(
+      txManager,
+      [...approvals.clauses, ...clauses],
+      signer,
+      network,
+      dryRun,
+      plan.legs.map(leg => ({ dex: leg.dex.name, amountIn: leg.route.amountIn.toString(), amountOut: leg.route.amountOut.toString() }))
+    );
+  } catch (error) {
+    console.error("❌ Error executing split order:", error);
+    return tradeFailure(error);
+  }
+}
 
 // Allow direct execution of this file for testing
+// npx ts-node src/core/trading/swap-executor.ts [--dry-run]
 if (require.main === module) {
-  if (isDryRun) {
-    console.log("🧪 DRY RUN MODE - No transactions will be sent");
-    console.log("Simulating trade execution flow...");
-    
-    // In dry run mode, just log what would happen
-    console.log("1. Would check VTHO allowance");
-    console.log("2. Would approve VTHO spending if needed");
-    console.log("3. Would execute VTHO to VET swap with 5% slippage tolerance");
-    process.exit(0);
-  } else {
-    executeTrade()
-      .then(result => {
-        if (result.success) {
-          console.log("\n✅ Trade executed successfully!");
-          console.log("Transaction ID:", result.transactionId);
-          console.log("Receipt:", result.receipt);
-        } else {
-          console.error("\n❌ Trade execution failed:", result.error);
+  executeTrade()
+    .then(result => {
+      if (result.dryRun) {
+        console.log(`\n🧪 Dry run ${result.success ? 'succeeded' : 'failed'} - no transaction was sent`);
+        console.log("Gas used:", result.simulation?.gasUsed);
+        if (result.error) {
+          console.log("Revert reason:", result.error);
         }
-        process.exit(result.success ? 0 : 1);
-      })
-      .catch(error => {
-        console.error("Unexpected error in trade execution:", error);
-        process.exit(1);
-      });
-  }
-} 
\ No newline at end of file
+        console.log("Simulated amounts:", result.simulatedAmounts?.map(amounts => amounts.join(' -> ')));
+      } else if (result.success) {
+        console.log("\n✅ Trade executed successfully!");
+        console.log("Transaction ID:", result.transactionId);
+        console.log("Receipt:", result.receipt);
+      } else {
+        console.error("\n❌ Trade execution failed:", result.error);
+      }
+      process.exit(result.success ? 0 : 1);
+    })
+    .catch(error => {
+      console.error("Unexpected error in trade execution:", error);
+      process.exit(1);
+    });
+}
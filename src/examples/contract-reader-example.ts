@@ -2,19 +2,20 @@ import { createContractInterface } from "../utils/contracts/contract-reader";
 import { ERC20_ABI } from "../utils/abis/erc20";
 import { VTHO_ADDRESS } from "@vechain/sdk-core";
 import "../utils/wallet-management/env-loader"; // This automatically loads environment variables
+import { getNetworkContext } from "../utils/contracts/network-context";
 
 // Example token address (VTHO on Testnet)
 const tokenAddress = VTHO_ADDRESS;
 
 // Get network from environment variable or default to testnet
-const network = process.env.NETWORK || "testnet";
+const network = getNetworkContext();
 
 /**
  * Example of how to read from a contract using the contract interface
  */
 async function main() {
   try {
-    console.log(`Running contract read example on ${network}...`);
+    console.log(`Running contract read example on ${network.name}...`);
     
     // Create contract interface for token
     const tokenContract = createContractInterface(
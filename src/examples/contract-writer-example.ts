@@ -3,6 +3,7 @@ import { createSignerFromEnv } from "../utils/wallet-management/key-utils";
 import { ERC20_ABI } from "../utils/abis/erc20";
 import { VTHO_ADDRESS } from "@vechain/sdk-core";
 import "../utils/wallet-management/env-loader";
+import { getNetworkContext } from "../utils/contracts/network-context";
 
 // Example token address (VTHO on Testnet)
 const tokenAddress = VTHO_ADDRESS;
@@ -11,20 +12,20 @@ const tokenAddress = VTHO_ADDRESS;
 const spenderAddress = "0xD8B5B792A4C8EecF6830718E7b974a8E09DDC05a"; // Example DEX router
 
 // Get network from environment variable or default to testnet
-const network = process.env.NETWORK || "testnet";
+const network = getNetworkContext();
 
 /**
  * Example of how to write to a contract using the transaction manager
  */
 async function main() {
   try {
-    console.log(`Running contract write example on ${network}...`);
+    console.log(`Running contract write example on ${network.name}...`);
     
     // Create transaction manager
     const txManager = createTransactionManager(network);
     
     // Get signer from environment variables
-    const { signer, source } = createSignerFromEnv(network);
+    const { signer, source } = createSignerFromEnv(network.name);
     if (!signer) {
       console.error("❌ No valid signer found in environment variables");
       console.log("Please set PRIVATE_KEY or MNEMONIC in your .env file");
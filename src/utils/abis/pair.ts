@@ -893,5 +893,5 @@ const pairABI  = [
         "stateMutability": "view",
         "type": "function"
     }
-]
+] as const
 export {pairABI};
\ No newline at end of file
@@ -0,0 +1,137 @@
+// Basis points in 100%
+export const BPS_DENOMINATOR = 10000n;
+
+/**
+ * Token details needed to interpret raw amounts
+ */
+export type TokenDecimals = { decimals: number; symbol?: string };
+
+/**
+ * Interface for an exact token amount in the token's smallest unit
+ */
+export interface TokenAmount {
+  raw: bigint;
+  decimals: number;
+  symbol?: string;
+}
+
+/**
+ * Create a TokenAmount from a raw on-chain value
+ * @param raw Raw amount in the token's smallest unit
+ * @param token Token metadata (or just its decimals)
+ * @returns TokenAmount
+ */
+export function tokenAmount(raw: bigint | string | number, token: TokenDecimals | number): TokenAmount {
+  const value = typeof raw === 'bigint' ? raw : BigInt(raw);
+  if (typeof token === 'number') {
+    return { raw: value, decimals: token };
+  }
+  return { raw: value, decimals: token.decimals, symbol: token.symbol };
+}
+
+/**
+ * Parse a human-readable decimal string (e.g. "10.5") into a TokenAmount without floating point
+ * @param value Decimal amount as a string (numbers are converted with String())
+ * @param token Token metadata (or just its decimals)
+ * @returns TokenAmount
+ */
+export function parseTokenAmount(value: string | number, token: TokenDecimals | number): TokenAmount {
+  const decimals = typeof token === 'number' ? token : token.decimals;
+  const text = String(value).trim();
+
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new Error(`Invalid token amount: "${text}"`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = match[2] || '';
+  if (fraction.length > decimals && /[1-9]/.test(fraction.slice(decimals))) {
+    throw new Error(`Token amount "${text}" has more than ${decimals} decimal places`);
+  }
+
+  const raw = BigInt(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+  return tokenAmount(raw, token);
+}
+
+/**
+ * Format a TokenAmount as a human-readable decimal string without floating point
+ * @param amount The token amount
+ * @param maxFractionDigits Optional number of fraction digits to keep (truncated)
+ * @returns Decimal string, e.g. "10.5"
+ */
+export function formatTokenAmount(amount: TokenAmount, maxFractionDigits?: number): string {
+  const negative = amount.raw < 0n;
+  const digits = (negative ? -amount.raw : amount.raw).toString().padStart(amount.decimals + 1, '0');
+
+  const whole = digits.slice(0, digits.length - amount.decimals);
+  let fraction = digits.slice(digits.length - amount.decimals);
+  if (maxFractionDigits !== undefined) {
+    fraction = fraction.slice(0, maxFractionDigits);
+  }
+  fraction = fraction.replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Convert a TokenAmount to a JavaScript number, for display and statistics only
+ * @param amount The token amount
+ * @returns Approximate numeric value in whole tokens
+ */
+export function toDisplayNumber(amount: TokenAmount): number {
+  return Number(formatTokenAmount(amount));
+}
+
+/**
+ * Compute the price of one whole input token in output tokens
+ * @param amountIn Input amount
+ * @param amountOut Output amount
+ * @returns Output per input as a number (0 if the input is zero)
+ */
+export function priceOf(amountIn: TokenAmount, amountOut: TokenAmount): number {
+  if (amountIn.raw === 0n) {
+    return 0;
+  }
+  // Scale to 18 fraction digits in bigint before converting to a number
+  const precision = 10n ** 18n;
+  const scaled = (amountOut.raw * 10n ** BigInt(amountIn.decimals) * precision) /
+    (amountIn.raw * 10n ** BigInt(amountOut.decimals));
+  return toDisplayNumber({ raw: scaled, decimals: 18 });
+}
+
+/**
+ * Convert a slippage percentage (e.g. 0.5 for 0.5%) to basis points
+ * @param percent Slippage percentage
+ * @returns Slippage in basis points
+ */
+export function percentToBps(percent: number): number {
+  return Math.round(percent * 100);
+}
+
+/**
+ * Minimum amount to accept after applying a slippage tolerance (rounded down)
+ * @param amount Expected amount
+ * @param slippageBps Slippage tolerance in basis points (500 = 5%)
+ * @returns Minimum acceptable amount
+ */
+export function applySlippageBps(amount: bigint, slippageBps: number): bigint {
+  if (slippageBps < 0 || slippageBps > Number(BPS_DENOMINATOR)) {
+    throw new Error(`Invalid slippage tolerance: ${slippageBps} bps`);
+  }
+  return (amount * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+}
+
+/**
+ * Maximum amount to spend after applying a slippage tolerance (rounded up)
+ * @param amount Expected amount
+ * @param slippageBps Slippage tolerance in basis points (500 = 5%)
+ * @returns Maximum acceptable amount
+ */
+export function applySlippageBpsUp(amount: bigint, slippageBps: number): bigint {
+  if (slippageBps < 0) {
+    throw new Error(`Invalid slippage tolerance: ${slippageBps} bps`);
+  }
+  const numerator = amount * (BPS_DENOMINATOR + BigInt(slippageBps));
+  return (numerator + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+}
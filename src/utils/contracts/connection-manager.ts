@@ -0,0 +1,251 @@
+import { ThorClient, TESTNET_URL, MAINNET_URL, THOR_SOLO_URL } from "@vechain/sdk-network";
+import "../../utils/wallet-management/env-loader"; // This automatically loads environment variables
+
+// Built-in node URLs per network; NODE_URLS adds to these
+const DEFAULT_NODE_URLS: Record<string, string[]> = {
+  testnet: [TESTNET_URL],
+  mainnet: [MAINNET_URL],
+  solo: [process.env.THOR_SOLO_URL || THOR_SOLO_URL]
+};
+
+// Exponential backoff bounds for failed nodes and reconnects
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60000;
+
+// Time allowed for a health probe
+const HEALTH_PROBE_TIMEOUT_MS = 5000;
+
+// Node errors that mean the node is unreachable or failing, rather than rejecting the request
+const CONNECTION_ERROR_PATTERN = /fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|aborted|timed? ?out|HTTP 5\d\d/i;
+
+/**
+ * Interface for the health of one node
+ */
+export interface NodeState {
+  url: string;
+  healthy: boolean;
+  failures: number;         // Consecutive failures
+  retryAt: number;          // Time (ms) before which an unhealthy node is skipped
+  lastError?: string;
+}
+
+// Node health per network (keyed by network name, or by URL for custom networks)
+const nodeStates = new Map<string, NodeState[]>();
+
+// One client per node URL
+const clients = new Map<string, ThorClient>();
+
+/**
+ * Load extra node URLs from the NODE_URLS environment variable
+ * Format: {"testnet":["https://..."],"mainnet":["https://..."],"solo":["http://..."]}; listed nodes are tried before the defaults.
+ * @returns Node URLs per network
+ */
+function loadNodeUrls(): Record<string, string[]> {
+  const urls: Record<string, string[]> = { ...DEFAULT_NODE_URLS };
+  if (!process.env.NODE_URLS) {
+    return urls;
+  }
+  try {
+    const configured = JSON.parse(process.env.NODE_URLS) as Record<string, unknown>;
+    Object.entries(configured).forEach(([network, list]) => {
+      if (!Array.isArray(list) || list.some(url => typeof url !== 'string')) {
+        console.warn(`⚠️ Ignoring invalid NODE_URLS entry for ${network}`);
+        return;
+      }
+      urls[network] = [...list, ...(urls[network] || []).filter(url => !list.includes(url))];
+    });
+  } catch (error) {
+    console.warn("⚠️ Ignoring invalid NODE_URLS:", error);
+  }
+  return urls;
+}
+
+const NODE_URLS = loadNodeUrls();
+
+/**
+ * Get the node URLs of a network, in failover order
+ * @param network Network name, or a custom node URL
+ * @returns Node URLs
+ */
+export function getNodeUrls(network: string): string[] {
+  return NODE_URLS[network] || [network];
+}
+
+/**
+ * Get the node states of a network
+ * @param network Network name, or a custom node URL
+ * @returns Node states, in failover order
+ */
+export function getNodeStates(network: string): NodeState[] {
+  let states = nodeStates.get(network);
+  if (!states) {
+    states = getNodeUrls(network).map(url => ({ url, healthy: true, failures: 0, retryAt: 0 }));
+    nodeStates.set(network, states);
+  }
+  return states;
+}
+
+/**
+ * Get the client of a node, created once per URL
+ * @param url Node URL
+ * @returns Thor client
+ */
+export function getNodeClient(url: string): ThorClient {
+  let client = clients.get(url);
+  if (!client) {
+    client = ThorClient.at(url);
+    clients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * Get an exponential backoff delay with full jitter
+ * @param attempt Number of failed attempts so far (0 for the first retry)
+ * @param baseMs Delay of the first retry
+ * @param maxMs Maximum delay
+ * @returns Delay in milliseconds, random between 0 and min(maxMs, baseMs * 2^attempt)
+ */
+export function backoffDelay(attempt: number, baseMs: number = BACKOFF_BASE_MS, maxMs: number = BACKOFF_MAX_MS): number {
+  return Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+/**
+ * Get the node to use for a network: the first healthy one, or the first whose retry time has passed
+ * @param network Network name, or a custom node URL
+ * @returns Node URL
+ */
+export function getActiveNodeUrl(network: string): string {
+  const states = getNodeStates(network);
+  const now = Date.now();
+  const available = states.find(state => state.healthy) || states.find(state => state.retryAt <= now);
+  if (available) {
+    return available.url;
+  }
+  // Every node is backing off: use the one that becomes available first
+  return states.reduce((first, state) => (state.retryAt < first.retryAt ? state : first)).url;
+}
+
+/**
+ * Record a failure of a node; it is skipped until its backoff expires
+ * @param network Network name, or a custom node URL
+ * @param url Node URL
+ * @param error Failure cause
+ */
+export function markNodeFailed(network: string, url: string, error?: unknown): void {
+  const state = getNodeStates(network).find(candidate => candidate.url === url);
+  if (!state) {
+    return;
+  }
+  state.healthy = false;
+  state.retryAt = Date.now() + backoffDelay(state.failures);
+  state.failures += 1;
+  state.lastError = error instanceof Error ? error.message : error !== undefined ? String(error) : undefined;
+}
+
+/**
+ * Record a success of a node
+ * @param network Network name, or a custom node URL
+ * @param url Node URL
+ */
+export function markNodeHealthy(network: string, url: string): void {
+  const state = getNodeStates(network).find(candidate => candidate.url === url);
+  if (state) {
+    state.healthy = true;
+    state.failures = 0;
+    state.retryAt = 0;
+    state.lastError = undefined;
+  }
+}
+
+/**
+ * Check whether a node answers and is in sync (best block recent enough)
+ * @param url Node URL
+ * @returns Promise resolving to true for a healthy node
+ */
+export async function probeNode(url: string): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), HEALTH_PROBE_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([getNodeClient(url).nodes.isHealthy(), timeout]);
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Probe every node of a network and update their health
+ * @param network Network name, or a custom node URL
+ * @returns Promise with the updated node states
+ */
+export async function probeNodes(network: string): Promise<NodeState[]> {
+  const states = getNodeStates(network);
+  const results = await Promise.all(states.map(state => probeNode(state.url)));
+  results.forEach((healthy, i) => {
+    if (healthy) {
+      markNodeHealthy(network, states[i].url);
+    } else if (states[i].healthy || states[i].retryAt <= Date.now()) {
+      markNodeFailed(network, states[i].url, 'Health probe failed');
+    }
+  });
+  return states;
+}
+
+/**
+ * Check whether an error means the node could not serve the request (as opposed to rejecting it)
+ * @param error Error thrown by a node request
+ * @returns True for connection failures, timeouts and 5xx responses
+ */
+export function isConnectionError(error: unknown): boolean {
+  for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+    const message = current instanceof Error ? `${current.name} ${current.message}` : String(current);
+    if (CONNECTION_ERROR_PATTERN.test(message)) {
+      return true;
+    }
+    if (!(current instanceof Error)) {
+      break;
+    }
+  }
+  return false;
+}
+
+/**
+ * Run a node request, failing over to the next node of the network on connection errors
+ * Errors other than connection failures (e.g. a rejected transaction) are thrown immediately.
+ * @param network Network name, or a custom node URL
+ * @param operation Request to run against a node
+ * @param maxAttempts Maximum number of attempts (defaults to two rounds over the node list)
+ * @returns Promise with the request result
+ */
+export async function withFailover<T>(
+  network: string,
+  operation: (thorClient: ThorClient, url: string) => Promise<T>,
+  maxAttempts: number = 2 * getNodeStates(network).length
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const url = getActiveNodeUrl(network);
+    try {
+      const result = await operation(getNodeClient(url), url);
+      markNodeHealthy(network, url);
+      return result;
+    } catch (error) {
+      if (!isConnectionError(error)) {
+        throw error;
+      }
+      lastError = error;
+      markNodeFailed(network, url, error);
+      console.warn(`⚠️ Node ${url} failed (${error instanceof Error ? error.message : error}); trying ${getActiveNodeUrl(network)}`);
+
+      // Back off once every node has failed
+      if (getNodeStates(network).every(state => !state.healthy)) {
+        await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt)));
+      }
+    }
+  }
+  throw lastError;
+}
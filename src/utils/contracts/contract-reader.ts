@@ -1,34 +1,54 @@
-import { ThorClient } from "@vechain/sdk-network";
-import { TESTNET_URL, MAINNET_URL } from "@vechain/sdk-network";
 import "../../utils/wallet-management/env-loader"; // This automatically loads environment variables
+import { getNetworkContext, NetworkContext } from "./network-context";
+
+/**
+ * Interface for a read call against any contract
+ */
+export interface ContractCall {
+  address: string;
+  abi: any;
+  methodName: string;
+  params?: any[];
+}
+
+/**
+ * Execute read calls against several contracts in a single request
+ * @param calls Array of calls, each with its own contract address and ABI
+ * @param network The network to connect to (defaults to NETWORK or testnet)
+ * @returns Array of plain result values, in call order
+ */
+export async function multiContractCallPlain(calls: ContractCall[], network: NetworkContext = getNetworkContext()): Promise<unknown[]> {
+  if (calls.length === 0) {
+    return [];
+  }
+  return network.withFailover(async thorClient => {
+    const clauses = calls.map(call => {
+      const contract = thorClient.contracts.load(call.address, call.abi);
+      return contract.clause[call.methodName](...(call.params || []));
+    });
+
+    const results = await thorClient.contracts.executeMultipleClausesCall(clauses);
+    return results.map(result => result.result.plain);
+  });
+}
 
 /**
  * Creates a contract interface to interact with any contract on VeChain
  * @param contractAddress The address of the contract to interact with
  * @param abi The ABI of the contract
- * @param network The network to connect to (defaults to testnet)
+ * @param network The network to connect to (defaults to NETWORK or testnet)
  * @returns An object with methods to interact with the contract
  */
 export function createContractInterface(
   contractAddress: string, 
   abi: any, 
-  network: string = "testnet"
+  network: NetworkContext = getNetworkContext()
 ) {
-  // Set network URL based on parameter or environment variable
-  let networkUrl: string;
-  
-  if (network === "testnet" || network === TESTNET_URL) {
-    networkUrl = TESTNET_URL;
-  } else if (network === "mainnet" || network === MAINNET_URL) {
-    networkUrl = MAINNET_URL;
-  } else {
-    // If a custom URL is provided, use it directly
-    networkUrl = network;
-  }
-
-  // Create Thor client with the specified network
-  const thorClient = ThorClient.at(networkUrl);
-  const contract = thorClient.contracts.load(contractAddress, abi);
+  // Calls go to the active node of the network and fail over to the next one on connection errors
+  const execute = (buildClauses: (contract: any) => any[]) =>
+    network.withFailover(thorClient =>
+      thorClient.contracts.executeMultipleClausesCall(buildClauses(thorClient.contracts.load(contractAddress, abi)))
+    );
   
   return {
     /**
@@ -38,8 +58,7 @@ export function createContractInterface(
      * @returns The result of the method call
      */
     call: async (methodName: string, ...params: any[]) => {
-      const clause = contract.clause[methodName](...params);
-      const result = await thorClient.contracts.executeMultipleClausesCall([clause]);
+      const result = await execute(contract => [contract.clause[methodName](...params)]);
       return result[0];
     },
     
@@ -50,8 +69,7 @@ export function createContractInterface(
      * @returns The plain result value
      */
     callPlain: async (methodName: string, ...params: any[]) => {
-      const clause = contract.clause[methodName](...params);
-      const result = await thorClient.contracts.executeMultipleClausesCall([clause]);
+      const result = await execute(contract => [contract.clause[methodName](...params)]);
       return result[0].result.plain;
     },
     
@@ -62,8 +80,7 @@ export function createContractInterface(
      * @returns The result as a number
      */
     callNumber: async (methodName: string, ...params: any[]) => {
-      const clause = contract.clause[methodName](...params);
-      const result = await thorClient.contracts.executeMultipleClausesCall([clause]);
+      const result = await execute(contract => [contract.clause[methodName](...params)]);
       const value = result[0].result.plain;
       return typeof value === 'bigint' ? Number(value) : 
              typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : 
@@ -76,11 +93,9 @@ export function createContractInterface(
      * @returns The results of all method calls
      */
     multiCall: async (methodCalls: {methodName: string, params?: any[]}[]) => {
-      const clauses = methodCalls.map(call => {
+      const results = await execute(contract => methodCalls.map(call => {
         return contract.clause[call.methodName](...(call.params || []));
-      });
-      
-      const results = await thorClient.contracts.executeMultipleClausesCall(clauses);
+      }));
       return results;
     },
     
@@ -90,22 +105,20 @@ export function createContractInterface(
      * @returns Array of plain result values
      */
     multiCallPlain: async (methodCalls: {methodName: string, params?: any[]}[]) => {
-      const clauses = methodCalls.map(call => {
+      const results = await execute(contract => methodCalls.map(call => {
         return contract.clause[call.methodName](...(call.params || []));
-      });
-      
-      const results = await thorClient.contracts.executeMultipleClausesCall(clauses);
+      }));
       return results.map(result => result.result.plain);
     },
     
     /**
-     * Get the raw contract instance for advanced operations
+     * Get the raw contract instance (bound to the active node) for advanced operations
      */
-    getContract: () => contract,
+    getContract: () => network.getThorClient().contracts.load(contractAddress, abi),
     
     /**
-     * Get the Thor client instance
+     * Get the Thor client of the active node
      */
-    getThorClient: () => thorClient
+    getThorClient: () => network.getThorClient()
   };
 }
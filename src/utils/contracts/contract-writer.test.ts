@@ -0,0 +1,78 @@
+import { ERC20_ABI, VTHO_ADDRESS } from '@vechain/sdk-core';
+import { startTestGasPayer, TestGasPayer, useSimulatorFixture } from '../../core/devnet/simulator-fixture';
+
+describe('contract writer', () => {
+  const fixture = useSimulatorFixture({ name: 'contract-writer-test' });
+  const { simulator, txManager } = fixture;
+  let privateKey: Uint8Array;
+  let token: string;
+
+  const transferClause = () => txManager.buildTransactionClause(token, ERC20_ABI, 'transfer', [simulator.contracts.router!, 1n]);
+
+  beforeAll(() => {
+    privateKey = fixture.privateKey;
+    token = simulator.addToken({ symbol: 'TST' });
+    simulator.mint(token, fixture.wallet, 10n ** 18n);
+  });
+
+  it('waits for the receipt until one block after the transaction expires', async () => {
+    const waitForTransaction = jest.spyOn(simulator.thorClient.transactions, 'waitForTransaction');
+
+    const result = await txManager.executeTransaction([transferClause()], { privateKey }, { expiration: 18 });
+
+    expect(result.status).toBe('confirmed');
+    expect(waitForTransaction).toHaveBeenCalledWith(result.transactionId, { timeoutMs: 190_000 });
+    waitForTransaction.mockRestore();
+  });
+
+  it('reports a transaction without a receipt after the timeout as expired once past its last valid block', async () => {
+    const waitForTransaction = jest.spyOn(simulator.thorClient.transactions, 'waitForTransaction')
+      .mockImplementation(async () => {
+        simulator.mine(4);
+        return null;
+      });
+
+    const result = await txManager.executeTransaction([transferClause()], { privateKey }, { expiration: 2 });
+
+    expect(result).toEqual(expect.objectContaining({ receipt: null, status: 'expired' }));
+    waitForTransaction.mockRestore();
+  });
+
+  describe('with a delegator service', () => {
+    let service: TestGasPayer;
+
+    beforeAll(async () => {
+      service = await startTestGasPayer({}, simulator);
+    });
+
+    afterAll(() => service.close());
+
+    it('has the service co-sign and pay for the transaction', async () => {
+      const walletEnergy = simulator.balanceOf(VTHO_ADDRESS, fixture.wallet);
+
+      const result = await txManager.executeTransaction([transferClause()], { privateKey }, { gasPayer: { gasPayerServiceUrl: service.url } });
+
+      expect(result.status).toBe('confirmed');
+      expect(result.receipt?.gasPayer.toLowerCase()).toBe(service.gasPayer.toLowerCase());
+      expect(simulator.balanceOf(VTHO_ADDRESS, fixture.wallet)).toBe(walletEnergy);
+    });
+
+    it('reports the HTTP answer of a refusing service', async () => {
+      const refusing = await startTestGasPayer({ privateKey: service.privateKey, allowedOrigins: [service.gasPayer] });
+
+      const send = txManager.executeTransaction([transferClause()], { privateKey }, { gasPayer: { gasPayerServiceUrl: refusing.url } });
+
+      await expect(send).rejects.toThrow(/^Gas payer service .* refused the transaction: HTTP 403 .*Not paying for/);
+      await refusing.close();
+    });
+
+    it('reports an unreachable service', async () => {
+      const closed = await startTestGasPayer({ privateKey: service.privateKey });
+      await closed.close();
+
+      const send = txManager.executeTransaction([transferClause()], { privateKey }, { gasPayer: { gasPayerServiceUrl: closed.url } });
+
+      await expect(send).rejects.toThrow(/^Gas payer service .* is unreachable/);
+    });
+  });
+});
@@ -11,12 +11,20 @@ import {
   HexUInt,
   Mnemonic,
   ABIContract,
-  ABIFunction
+  ABIFunction,
+  ABI,
+  Hex,
+  Secp256k1,
+  Units
 } from "@vechain/sdk-core";
 
-import { ThorClient, TESTNET_URL, MAINNET_URL, network, TransactionBodyOptions } from "@vechain/sdk-network";
+import { TransactionBodyOptions, TransactionReceipt, TransactionSimulationResult } from "@vechain/sdk-network";
 import { createContractInterface } from "./contract-reader";
+import { getNetworkContext, NetworkContext } from "./network-context";
 import { ClauseOptions } from "@vechain/sdk-core";
+import { parseTokenAmount, TokenAmount } from "../amounts/token-amount";
+import type { TransactionTracker } from "./transaction-tracker";
+import axios, { AxiosResponse } from "axios";
 
 
 
@@ -34,6 +42,26 @@ export type TransactionSigner = {
   mnemonic?: string[];
 };
 
+/**
+ * VIP-191 fee delegation: the account paying the gas of a transaction instead of its sender
+ * Either the gas payer's private key, or the URL of a delegator service that co-signs transactions (VIP-201 protocol:
+ * POST {origin, raw} returns {signature}).
+ */
+export type GasPayer =
+  | { gasPayerPrivateKey: Uint8Array; gasPayerServiceUrl?: never }
+  | { gasPayerServiceUrl: string; gasPayerPrivateKey?: never };
+
+/**
+ * Describe who pays the gas, for logs
+ * @param gasPayer Gas payer
+ * @returns Delegator service URL, or the address of the gas payer's private key
+ */
+export function describeGasPayer(gasPayer: GasPayer): string {
+  return gasPayer.gasPayerServiceUrl === undefined
+    ? Address.ofPrivateKey(gasPayer.gasPayerPrivateKey).toString()
+    : gasPayer.gasPayerServiceUrl;
+}
+
 /**
  * Options for transaction execution
  */
@@ -42,21 +70,145 @@ export type TransactionExecutionOptions = TransactionBodyOptions & {
    * Whether to wait for transaction receipt
    */
   waitForReceipt?: boolean;
+  /**
+   * Whether to simulate the clauses before sending (defaults to true); a reverting simulation aborts the send
+   */
+  simulate?: boolean;
+  /**
+   * Only simulate the clauses and return the simulation, without signing or sending
+   */
+  dryRun?: boolean;
+  /**
+   * Share of gas added to the simulated gas (defaults to 0.2), since state can change before inclusion
+   */
+  gasPadding?: number;
+  /**
+   * Send through a transaction tracker, which resubmits the transaction when it expires unmined
+   */
+  tracker?: TransactionTracker;
+  /**
+   * Account paying the gas (the transaction is then built as delegated)
+   */
+  gasPayer?: GasPayer;
 };
 
+/**
+ * Result of simulating clauses against the current chain state
+ */
+export type TransactionSimulation = {
+  /**
+   * Whether a clause reverted
+   */
+  reverted: boolean;
+  /**
+   * Index of the reverted clause
+   */
+  revertedClause?: number;
+  /**
+   * Decoded revert reason (require message or panic code)
+   */
+  revertReason?: string;
+  /**
+   * VM error of the reverted clause (e.g. "execution reverted", "out of gas")
+   */
+  vmError?: string;
+  /**
+   * Gas the transaction would use, including intrinsic gas
+   */
+  gasUsed: number;
+  /**
+   * Per-clause results, with the ABI-encoded return data of each clause
+   */
+  clauses: TransactionSimulationResult[];
+};
+
+/**
+ * Outcome of a sent transaction
+ * - confirmed: included and executed
+ * - reverted: included, but a clause reverted (the gas is still paid)
+ * - expired: not included before its expiration block
+ * - dropped: no receipt although the transaction has not expired (e.g. evicted from the node's pool)
+ */
+export type TransactionStatus = 'confirmed' | 'reverted' | 'expired' | 'dropped';
+
+/**
+ * Result of executeTransaction
+ */
+export type TransactionExecutionResult = {
+  transactionId?: string;               // Not set for dry runs
+  receipt?: TransactionReceipt | null;  // Set when waiting for the receipt
+  simulation?: TransactionSimulation;   // Pre-flight simulation
+  status?: TransactionStatus;           // Set when waiting for the receipt
+  revertReason?: string;                // Decoded by re-simulating a reverted transaction on its parent block
+};
+
+/**
+ * Get the last block in which a transaction can be included
+ * @param blockRef Block reference of the transaction (its first 4 bytes are the block number)
+ * @param expiration Expiration of the transaction in blocks
+ * @returns Block number
+ */
+export function getLastValidBlock(blockRef: string, expiration: number): number {
+  return parseInt(blockRef.slice(2, 10), 16) + expiration;
+}
+
+// Gas charged once when a transaction invokes the VM (as in the SDK's gas estimation)
+const VM_INVOCATION_GAS = 15000;
+
+// Default share of gas added to the simulated gas
+const DEFAULT_GAS_PADDING = 0.2;
+
+// Thor's block interval, used to bound the wait for a receipt by the transaction's expiration
+const BLOCK_INTERVAL_MS = 10_000;
+
+// Time a delegator service gets to co-sign a transaction
+const GAS_PAYER_TIMEOUT_MS = Number(process.env.GAS_PAYER_TIMEOUT_MS || 10_000);
+
+/**
+ * Decode the revert reason returned by a reverted clause
+ * @param data Return data of the clause
+ * @returns Require message or panic code, undefined when the data holds neither
+ */
+function decodeRevertReason(data: string): string | undefined {
+  try {
+    if (data.startsWith('0x08c379a0')) {
+      return ABI.ofEncoded([{ type: 'string', name: '' }], `0x${data.slice(10)}`).getFirstDecodedValue<string>();
+    }
+    if (data.startsWith('0x4e487b71')) {
+      return `Panic(0x${BigInt(`0x${data.slice(10)}`).toString(16)})`;
+    }
+  } catch (error) {
+    console.warn(`⚠️ Ignoring undecodable revert data ${data}:`, error);
+  }
+  return undefined;
+}
+
+/**
+ * Convert a whole-VET number, decimal string or exact TokenAmount to a VET value
+ * @param amount Amount to convert
+ * @returns VET value
+ */
+function toVET(amount: string | number | TokenAmount): VET {
+  return typeof amount === 'object' ? VET.of(amount.raw, Units.wei) : VET.of(parseTokenAmount(amount, 18).raw, Units.wei);
+}
+
+/**
+ * Convert a whole-VTHO number, decimal string or exact TokenAmount to a VTHO value
+ * @param amount Amount to convert
+ * @returns VTHO value
+ */
+function toVTHO(amount: string | number | TokenAmount): VTHO {
+  return typeof amount === 'object' ? VTHO.of(amount.raw, Units.wei) : VTHO.of(parseTokenAmount(amount, 18).raw, Units.wei);
+}
+
 /**
  * Creates a transaction manager for signing and sending transactions on VeChain
- * @param network The network URL to connect to (defaults to testnet)
+ * @param network The network to connect to (defaults to NETWORK or testnet)
  * @returns An object with methods for transaction building and signing
  */
-export function createTransactionManager(network:string) {
-    if(network === "mainnet"){
-        network = MAINNET_URL;
-    }else{
-        network = TESTNET_URL;
-    }
-  const thorClient = ThorClient.at(network);
-  
+export function createTransactionManager(network: NetworkContext = getNetworkContext()) {
+  // Requests go to the active node of the network and fail over to the next one on connection errors
+
   const manager = {
 
 
@@ -65,7 +217,7 @@ export function createTransactionManager(network:string) {
       abi: any, 
       functionName: string, 
       params: unknown[], 
-      value?: number,
+      value?: number | TokenAmount,
       clauseOptions?: ClauseOptions
     ): TransactionClause => {
       // Convert contract address to Address type
@@ -76,7 +228,7 @@ export function createTransactionManager(network:string) {
       const functionAbi = contractInterface.getFunction(functionName);
       
       // Build amount of VET to send (default to 0)
-      const vetAmount = value ? VET.of(value) : undefined;
+      const vetAmount = value ? toVET(value) : undefined;
       
       // Call the function using Clause.callFunction
       return Clause.callFunction(
@@ -90,39 +242,115 @@ export function createTransactionManager(network:string) {
 
 
 
+    /**
+     * Simulate clauses as if sent by the caller, without sending anything
+     * @param clauses Array of transaction clauses
+     * @param caller Address the clauses are sent from
+     * @param revision Block the simulation runs on top of (defaults to the best block)
+     * @returns Simulation with revert status, decoded revert reason, gas and per-clause return data
+     */
+    simulate: async (clauses: TransactionClause[], caller: string, revision?: string | number): Promise<TransactionSimulation> => {
+      const results = await network.withFailover(thorClient =>
+        thorClient.transactions.simulateTransaction(clauses, { caller, revision: revision?.toString() })
+      );
+      const executionGas = results.reduce((sum, result) => sum + result.gasUsed, 0);
+      const revertedClause = results.findIndex(result => result.reverted);
+      const reverted = revertedClause !== -1;
+      return {
+        reverted,
+        revertedClause: reverted ? revertedClause : undefined,
+        revertReason: reverted ? decodeRevertReason(results[revertedClause].data) : undefined,
+        vmError: reverted ? results[revertedClause].vmError : undefined,
+        gasUsed: Number(Transaction.intrinsicGas(clauses).wei) + (executionGas > 0 ? executionGas + VM_INVOCATION_GAS : 0),
+        clauses: results
+      };
+    },
+
     /**
      * Builds a transaction with the given clauses
      * @param clauses Array of transaction clauses
      * @param options Additional transaction options
+     * @param gas Gas limit (estimated by the node when omitted)
      * @returns Transaction body object
      */
     buildTransaction: async (
       clauses: TransactionClause[],
-      options?: TransactionBodyOptions  
+      options?: TransactionBodyOptions,
+      gas?: number
     ) => {
-      // Estimate gas for the transaction
-      const gasResult = await thorClient.gas.estimateGas(
-        clauses      
-    );
-      
-      // Get transaction body using the SDK method
-      return await thorClient.transactions.buildTransactionBody(
-        clauses,
-        gasResult.totalGas,
-        options
-      );
+      const [txBody, chainTag] = await Promise.all([
+        network.withFailover(async thorClient => {
+          // Estimate gas for the transaction
+          const totalGas = gas ?? (await thorClient.gas.estimateGas(
+            clauses      
+          )).totalGas;
+          
+          // Get transaction body using the SDK method
+          return await thorClient.transactions.buildTransactionBody(
+            clauses,
+            totalGas,
+            options
+          );
+        }),
+        network.getChainTag()
+      ]);
+
+      // A body built by a node of another chain would be rejected (or replayed) elsewhere
+      if (txBody.chainTag !== chainTag) {
+        throw new Error(`Node ${network.getNodeUrl()} returned chain tag ${txBody.chainTag}, expected ${chainTag} for ${network.name}`);
+      }
+      return txBody;
     },
     
     /**
      * Signs a transaction using the provided private key
+     * Delegated transactions are co-signed by the gas payer, locally or through its delegator service.
      * @param txBody Transaction body
      * @param privateKey Private key for signing
+     * @param gasPayer Gas payer of a delegated transaction
      * @returns Signed transaction
      */
-    signTransaction: async (txBody: TransactionBody, privateKey: Uint8Array) => {
+    signTransaction: async (txBody: TransactionBody, privateKey: Uint8Array, gasPayer?: GasPayer) => {
         const tx = Transaction.of(txBody);
-        const signedTx = tx.sign(privateKey);
-        return signedTx;
+        if (!gasPayer) {
+          return tx.sign(privateKey);
+        }
+        if (gasPayer.gasPayerServiceUrl === undefined) {
+          return tx.signAsSenderAndGasPayer(privateKey, gasPayer.gasPayerPrivateKey);
+        }
+        
+        const origin = Address.ofPrivateKey(privateKey).toString();
+        const gasPayerSignature = await manager.requestGasPayerSignature(tx, origin, gasPayer.gasPayerServiceUrl);
+        const senderSignature = Secp256k1.sign(tx.getTransactionHash().bytes, privateKey);
+        return Transaction.of(txBody, new Uint8Array([...senderSignature, ...gasPayerSignature]));
+    },
+
+    /**
+     * Ask a delegator service to pay for a transaction
+     * @param tx Unsigned delegated transaction
+     * @param origin Sender of the transaction
+     * @param serviceUrl Delegator service URL
+     * @returns Promise with the gas payer's signature
+     */
+    requestGasPayerSignature: async (tx: Transaction, origin: string, serviceUrl: string): Promise<Uint8Array> => {
+      let response: AxiosResponse<{ signature?: string; error?: string }>;
+      try {
+        response = await axios.post(serviceUrl, { origin, raw: Hex.of(tx.encoded).toString() }, {
+          timeout: GAS_PAYER_TIMEOUT_MS,
+          validateStatus: () => true    // HTTP errors are reported below with the service's answer
+        });
+      } catch (error) {
+        throw new Error(`Gas payer service ${serviceUrl} is unreachable: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (response.status < 200 || response.status >= 300) {
+        const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+        throw new Error(`Gas payer service ${serviceUrl} refused the transaction: HTTP ${response.status} ${body}`);
+      }
+      const { signature } = response.data;
+      if (!signature) {
+        throw new Error(`Gas payer service ${serviceUrl} returned no signature`);
+      }
+      return HexUInt.of(signature).bytes;
     },
     
     /**
@@ -131,16 +359,17 @@ export function createTransactionManager(network:string) {
      * @returns Transaction result
      */
     sendTransaction: async (signedTx: Transaction) => {
-      return await thorClient.transactions.sendTransaction(signedTx);
+      return network.withFailover(thorClient => thorClient.transactions.sendTransaction(signedTx));
     },
     
     /**
      * Waits for a transaction to be confirmed
      * @param txId Transaction ID
-     * @returns Transaction receipt
+     * @param timeoutMs Give up after this many milliseconds (the SDK waits forever by default)
+     * @returns Transaction receipt, null when the timeout passed first
      */
-    waitForTransaction: async (txId: string) => {
-      return await thorClient.transactions.waitForTransaction(txId);
+    waitForTransaction: async (txId: string, timeoutMs?: number) => {
+      return network.withFailover(thorClient => thorClient.transactions.waitForTransaction(txId, { timeoutMs }));
     },
     
     /**
@@ -190,17 +419,19 @@ export function createTransactionManager(network:string) {
     },
     
     /**
-     * Builds, signs, and sends a transaction in one operation
+     * Simulates, builds, signs, and sends a transaction in one operation
+     * The clauses are simulated from the signer's address first: a revert aborts the send, and the simulated gas
+     * (plus padding) becomes the gas limit. With dryRun only the simulation is returned.
      * @param clauses Array of transaction clauses
      * @param signer Either a private key or mnemonic for signing
      * @param options Additional transaction options
-     * @returns Transaction result
+     * @returns Transaction result with the simulation
      */
     executeTransaction: async (
       clauses: TransactionClause[],
       signer: TransactionSigner,
       options?: TransactionExecutionOptions
-    ) => {
+    ): Promise<TransactionExecutionResult> => {
     
       // Set default options if not provided
       options = {
@@ -208,80 +439,153 @@ export function createTransactionManager(network:string) {
         gasPriceCoef: 127, // Default gas price coefficient
         ...options
       };
+      if (options.gasPayer) {
+        options.isDelegated = true;
+      }
       
       // Default to waiting for receipt if not specified
       const waitForReceipt = options?.waitForReceipt ?? true;
       
       // Get private key from signer options
       const privateKey = manager.getPrivateKey(signer);
+      
+      // 1. Simulate the clauses from the signer's address
+      const simulation = options.simulate === false && !options.dryRun
+        ? undefined
+        : await manager.simulate(clauses, manager.getWalletAddress(signer));
+      if (options.dryRun) {
+        return { simulation };
+      }
+      if (simulation?.reverted) {
+        throw new Error(`Transaction simulation reverted at clause ${simulation.revertedClause}: ${simulation.revertReason || simulation.vmError || 'no revert reason'}`);
+      }
         
-      // 1. Build transaction
-      const txBody = await manager.buildTransaction(clauses, options);
+      const gas = simulation ? Math.ceil(simulation.gasUsed * (1 + (options.gasPadding ?? DEFAULT_GAS_PADDING))) : undefined;
+      const caller = manager.getWalletAddress(signer);
+      
+      // 2. With a tracker: send through it and wait until included or expired for good (following resubmissions)
+      if (options.tracker) {
+        const submitted = await options.tracker.submit(clauses, signer, options, gas);
+        if (!waitForReceipt) {
+          return { transactionId: submitted.id, simulation };
+        }
+        const tracked = await options.tracker.waitFor(submitted.id);
+        const receipt = tracked.receipt ?? null;
+        return {
+          transactionId: tracked.id,
+          receipt,
+          simulation,
+          status: tracked.status === 'expired' ? 'expired' : (receipt?.reverted ? 'reverted' : 'confirmed'),
+          revertReason: receipt?.reverted ? await manager.getRevertReason(clauses, caller, receipt) : undefined
+        };
+      }
+      
+      // 3. Build transaction, with the simulated gas when available
+      const txBody = await manager.buildTransaction(clauses, options, gas);
       
-      // 2. Sign transaction
-      const signedTx = await manager.signTransaction(txBody, privateKey);
+      // 4. Sign transaction
+      const signedTx = await manager.signTransaction(txBody, privateKey, options.gasPayer);
       
-      // 3. Send transaction
+      // 5. Send transaction
       const sendResult = await manager.sendTransaction(signedTx);
       
-      // 4. Wait for receipt if requested
+      // 6. Wait for receipt if requested, until one block after the transaction can no longer be included
       if (waitForReceipt) {
-        const receipt = await manager.waitForTransaction(sendResult.id);
+        const receipt = await manager.waitForTransaction(sendResult.id, (txBody.expiration + 1) * BLOCK_INTERVAL_MS);
+        const status = receipt
+          ? (receipt.reverted ? 'reverted' : 'confirmed')
+          : await manager.getUnconfirmedStatus(txBody.blockRef, txBody.expiration);
+        
         return {
           transactionId: sendResult.id,
-          receipt
+          receipt,
+          simulation,
+          status,
+          revertReason: receipt?.reverted ? await manager.getRevertReason(clauses, caller, receipt) : undefined
         };
       }
       return {
-        transactionId: sendResult.id
+        transactionId: sendResult.id,
+        simulation
       };
     },
+
+    /**
+     * Decode why an included transaction reverted
+     * Receipts carry no revert data, so the clauses are replayed on the parent block of the transaction.
+     * @param clauses Clauses of the transaction
+     * @param caller Sender of the transaction
+     * @param receipt Receipt of the reverted transaction
+     * @returns Promise with the revert reason, undefined when the replay does not revert
+     */
+    getRevertReason: async (clauses: TransactionClause[], caller: string, receipt: TransactionReceipt): Promise<string | undefined> => {
+      const replay = await manager.simulate(clauses, caller, receipt.meta.blockNumber - 1).catch(() => undefined);
+      const revertReason = replay?.revertReason || replay?.vmError;
+      console.warn(`⚠️ Transaction ${receipt.meta.txID} reverted: ${revertReason || 'unknown reason'}`);
+      return revertReason;
+    },
+
+    /**
+     * Classify a transaction that has no receipt
+     * @param blockRef Block reference of the transaction
+     * @param expiration Expiration of the transaction in blocks
+     * @returns Promise with 'expired' once the best block is past the transaction's last valid block, 'dropped' before
+     */
+    getUnconfirmedStatus: async (blockRef: string, expiration: number): Promise<TransactionStatus> => {
+      const best = await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed());
+      return best && best.number > getLastValidBlock(blockRef, expiration) ? 'expired' : 'dropped';
+    },
     
     /**
      * Create a VET transfer clause
      * @param toAddress Recipient address
-     * @param amount Amount of VET to transfer
+     * @param amount Amount of VET to transfer (whole VET, or an exact TokenAmount)
      * @returns Transaction clause
      */
-    vetTransferClause: (toAddress: string, amount: number) => {
+    vetTransferClause: (toAddress: string, amount: number | TokenAmount) => {
       return Clause.transferVET(
         Address.of(toAddress),
-        VET.of(amount)
+        toVET(amount)
       ) as TransactionClause;
     },
     
     /**
      * Create a VTHO transfer clause
      * @param toAddress Recipient address
-     * @param amount Amount of VTHO to transfer
+     * @param amount Amount of VTHO to transfer (whole VTHO, or an exact TokenAmount)
      * @returns Transaction clause
      */
-    vthoTransferClause: (toAddress: string, amount: number) => {
+    vthoTransferClause: (toAddress: string, amount: number | TokenAmount) => {
       return Clause.transferVTHOToken(
         Address.of(toAddress),
-        VTHO.of(amount)
+        toVTHO(amount)
       ) as TransactionClause;
     },
     
     /**
      * Create an ERC20 token transfer clause
      * @param toAddress Recipient address
-     * @param amount Amount to transfer
+     * @param amount Amount to transfer (decimal string/number in whole tokens, or an exact TokenAmount)
      * @param tokenAddress Token contract address
      * @param decimals Token decimals (defaults to 18)
      * @returns Transaction clause
      */
-    tokenTransferClause: async (toAddress: string, amount: number, tokenAddress: string, decimals?: number) => {
+    tokenTransferClause: async (toAddress: string, amount: string | number | TokenAmount, tokenAddress: string, decimals?: number) => {
       // Handle VTHO tokens with their built-in support
       if (tokenAddress.toLowerCase() === VTHO_ADDRESS.toLowerCase()) {
         return Clause.transferVTHOToken(
           Address.of(toAddress),
-          VTHO.of(amount)
+          toVTHO(amount)
         ) as TransactionClause;
       }
       
       // For ERC20 tokens, use the contract directly
-      const tokenContract = thorClient.contracts.load(tokenAddress, ERC20_ABI);
+      const tokenContract = network.getThorClient().contracts.load(tokenAddress, ERC20_ABI);
+      
+      // Exact amounts are already in the token's smallest unit
+      if (typeof amount === 'object') {
+        return tokenContract.clause.transfer(toAddress, amount.raw.toString());
+      }
       
       // Get decimals from the contract if not provided
       let tokenDecimals = decimals ?? 18; // Default to 18 if not provided
@@ -298,8 +602,8 @@ export function createTransactionManager(network:string) {
         }
       }
       
-      // Convert amount to wei based on decimals (10^decimals)
-      const amountInWei = (amount * Math.pow(10, tokenDecimals)).toString();
+      // Convert amount to wei based on decimals, without floating point
+      const amountInWei = parseTokenAmount(amount, tokenDecimals).raw.toString();
       return tokenContract.clause.transfer(toAddress, amountInWei);
     },
     
@@ -327,15 +631,20 @@ export function createTransactionManager(network:string) {
      * @returns Contract instance from Thor client
      */
     getContractInstance: (contractAddress: string, abi: any[]) => {
-      return thorClient.contracts.load(contractAddress, abi);
+      return network.getThorClient().contracts.load(contractAddress, abi);
     },
     
     /**
-     * Get the Thor client instance
+     * Get the Thor client of the active node
      */
-    getThorClient: () => thorClient
+    getThorClient: () => network.getThorClient()
   };
   
   return manager;
 }
 
+
+/**
+ * Transaction manager returned by createTransactionManager
+ */
+export type TransactionManager = ReturnType<typeof createTransactionManager>;
@@ -0,0 +1,268 @@
+import { MAINNET_NETWORK, SOLO_NETWORK, TESTNET_NETWORK } from "@vechain/sdk-core";
+import { ThorClient } from "@vechain/sdk-network";
+import * as fs from 'fs';
+import * as path from 'path';
+import "../../utils/wallet-management/env-loader"; // This automatically loads environment variables
+import {
+  getActiveNodeUrl,
+  getNodeClient,
+  getNodeStates,
+  getNodeUrls,
+  markNodeFailed,
+  markNodeHealthy,
+  NodeState,
+  probeNodes,
+  withFailover
+} from "./connection-manager";
+
+// File holding per-network settings written by tools (e.g. the addresses of a deployed test DEX)
+const NETWORK_CONFIG_FILE = process.env.NETWORK_CONFIG_FILE || path.join(process.cwd(), 'data', 'networks.json');
+
+/**
+ * Interface for the DEX contracts deployed on a network
+ */
+export interface NetworkContracts {
+  router?: string;
+  factory?: string;
+  vVET?: string;
+  tokens?: Record<string, string>;   // Extra tokens by symbol (e.g. test tokens)
+}
+
+/**
+ * Interface for the static description of a network
+ */
+export interface NetworkConfig {
+  name: string;             // "mainnet", "testnet", "solo", or the node URL of a custom network
+  genesisId?: string;       // Fetched from the node when not known in advance
+  contracts?: NetworkContracts;
+}
+
+// Built-in networks; their node URLs come from the connection manager (NODE_URLS, THOR_SOLO_URL)
+const NETWORKS: Record<string, NetworkConfig> = {
+  mainnet: { name: 'mainnet', genesisId: MAINNET_NETWORK.genesisBlock.id },
+  testnet: { name: 'testnet', genesisId: TESTNET_NETWORK.genesisBlock.id },
+  solo: { name: 'solo', genesisId: process.env.THOR_SOLO_GENESIS_ID || SOLO_NETWORK.genesisBlock.id }
+};
+
+/**
+ * Read the network config file
+ * Format: {"solo":{"contracts":{"router":"0x...","factory":"0x...","vVET":"0x...","tokens":{"TST":"0x..."}}}}
+ * @returns Settings per network name (or custom node URL)
+ */
+function readNetworkConfigFile(): Record<string, Partial<NetworkConfig>> {
+  if (!fs.existsSync(NETWORK_CONFIG_FILE)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(NETWORK_CONFIG_FILE, 'utf8'));
+  } catch (error) {
+    console.warn(`⚠️ Ignoring invalid network config ${NETWORK_CONFIG_FILE}:`, error);
+    return {};
+  }
+}
+
+const NETWORK_SETTINGS = readNetworkConfigFile();
+
+// One context per network, shared by every module
+const contexts = new Map<string, NetworkContext>();
+
+/**
+ * Get the chain tag of a network: the last byte of its genesis block ID
+ * @param genesisId Genesis block ID
+ * @returns Chain tag
+ */
+export function getChainTagFromGenesisId(genesisId: string): number {
+  return parseInt(genesisId.slice(-2), 16);
+}
+
+/**
+ * Create the context of a network: its node pool, chain identity and failover-aware client access
+ * @param config Network configuration
+ * @param backend Client answering every request instead of the node pool (e.g. an in-memory simulator)
+ * @returns Network context
+ */
+function createNetworkContext(config: NetworkConfig, backend?: ThorClient) {
+  const { name } = config;
+  let genesisId = config.genesisId;
+  let contracts: NetworkContracts = config.contracts || {};
+
+  const context = {
+    name,
+
+    /**
+     * Get the node URLs of the network, in failover order
+     */
+    getNodeUrls: (): string[] => backend ? [name] : getNodeUrls(name),
+
+    /**
+     * Get the node currently in use
+     */
+    getNodeUrl: (): string => backend ? name : getActiveNodeUrl(name),
+
+    /**
+     * Get the pooled client of the node currently in use
+     */
+    getThorClient: (): ThorClient => backend || getNodeClient(getActiveNodeUrl(name)),
+
+    /**
+     * Run a node request, failing over to the next node of the network on connection errors
+     * @param operation Request to run against a node
+     * @param maxAttempts Maximum number of attempts
+     * @returns Promise with the request result
+     */
+    withFailover: <T>(operation: (thorClient: ThorClient, url: string) => Promise<T>, maxAttempts?: number): Promise<T> =>
+      backend ? operation(backend, name) : withFailover(name, operation, maxAttempts),
+
+    /**
+     * Get the health of the network's nodes
+     */
+    getNodeStates: (): NodeState[] => backend ? [] : getNodeStates(name),
+
+    /**
+     * Record a failure of one of the network's nodes (e.g. a dropped websocket)
+     * @param url Node URL
+     * @param error Failure cause
+     */
+    markNodeFailed: (url: string, error?: unknown): void => {
+      if (!backend) {
+        markNodeFailed(name, url, error);
+      }
+    },
+
+    /**
+     * Record a success of one of the network's nodes
+     * @param url Node URL
+     */
+    markNodeHealthy: (url: string): void => {
+      if (!backend) {
+        markNodeHealthy(name, url);
+      }
+    },
+
+    /**
+     * Probe every node of the network and update their health
+     */
+    probeNodes: async (): Promise<NodeState[]> => backend ? [] : probeNodes(name),
+
+    /**
+     * Get the DEX contracts configured for the network (empty when none were deployed or configured)
+     */
+    getContracts: (): NetworkContracts => contracts,
+
+    /**
+     * Replace the DEX contracts of the network for this process (see saveNetworkContracts to persist them)
+     * @param updated Contract addresses
+     */
+    setContracts: (updated: NetworkContracts): void => {
+      contracts = updated;
+    },
+
+    /**
+     * Get the genesis block ID, fetched once from the node for custom networks
+     * @returns Promise with the genesis block ID
+     */
+    getGenesisId: async (): Promise<string> => {
+      if (!genesisId) {
+        const genesis = await context.withFailover(thorClient => thorClient.blocks.getGenesisBlock());
+        if (!genesis) {
+          throw new Error(`Genesis block of ${name} not found`);
+        }
+        genesisId = genesis.id;
+      }
+      return genesisId;
+    },
+
+    /**
+     * Get the chain tag used in transaction bodies
+     * @returns Promise with the chain tag
+     */
+    getChainTag: async (): Promise<number> => getChainTagFromGenesisId(await context.getGenesisId()),
+
+    /**
+     * Check that the node in use belongs to this network (guards against e.g. a solo URL pointing at testnet)
+     * @returns Promise resolving when the node's genesis block matches
+     */
+    verify: async (): Promise<void> => {
+      const expected = await context.getGenesisId();
+      const genesis = await context.withFailover(thorClient => thorClient.blocks.getGenesisBlock());
+      if (genesis?.id.toLowerCase() !== expected.toLowerCase()) {
+        throw new Error(`Node ${context.getNodeUrl()} is not on ${name} (genesis ${genesis?.id}, expected ${expected})`);
+      }
+    }
+  };
+
+  return context;
+}
+
+export type NetworkContext = ReturnType<typeof createNetworkContext>;
+
+/**
+ * Resolve a network name or node URL to its network
+ * A node URL of a named network (e.g. the public testnet node) resolves to that network, so both share node state.
+ * @param network Network name or node URL
+ * @returns Network configuration
+ */
+function resolveNetworkConfig(network: string): NetworkConfig {
+  if (NETWORKS[network]) {
+    return NETWORKS[network];
+  }
+  if (!/^https?:\/\//i.test(network)) {
+    throw new Error(`Unknown network "${network}"; use mainnet, testnet, solo or a node URL`);
+  }
+  const url = network.replace(/\/+$/, '');
+  const named = Object.values(NETWORKS).find(config => getNodeUrls(config.name).some(nodeUrl => nodeUrl.replace(/\/+$/, '') === url));
+  return named || { name: url };
+}
+
+/**
+ * Get the shared context of a network
+ * @param network Network name ("mainnet", "testnet", "solo", or a registered backend), node URL, or an existing context (defaults to NETWORK or testnet)
+ * @returns Network context
+ */
+export function getNetworkContext(network: string | NetworkContext = process.env.NETWORK || "testnet"): NetworkContext {
+  if (typeof network !== 'string') {
+    return network;
+  }
+  const registered = contexts.get(network);
+  if (registered) {
+    return registered;
+  }
+  const config = resolveNetworkConfig(network);
+  let context = contexts.get(config.name);
+  if (!context) {
+    context = createNetworkContext({ ...config, ...NETWORK_SETTINGS[config.name], name: config.name });
+    contexts.set(config.name, context);
+  }
+  return context;
+}
+
+/**
+ * Register a network served by a custom client instead of a node pool (e.g. an in-memory simulator)
+ * The context is shared like the built-in networks: getNetworkContext(name), and NETWORK=name, resolve to it.
+ * @param config Network configuration
+ * @param thorClient Client answering the network's requests
+ * @returns Network context
+ */
+export function createBackendNetworkContext(config: NetworkConfig, thorClient: ThorClient): NetworkContext {
+  if (NETWORKS[config.name] || contexts.has(config.name) || /^https?:\/\//i.test(config.name)) {
+    throw new Error(`Network name "${config.name}" is already in use`);
+  }
+  const context = createNetworkContext(config, thorClient);
+  contexts.set(config.name, context);
+  return context;
+}
+
+/**
+ * Store the DEX contracts of a network in the network config file, so later runs pick them up
+ * @param network The network
+ * @param contracts Contract addresses
+ * @returns Promise resolving when the file is written
+ */
+export async function saveNetworkContracts(network: NetworkContext, contracts: NetworkContracts): Promise<void> {
+  const settings = readNetworkConfigFile();
+  settings[network.name] = { ...settings[network.name], contracts };
+  await fs.promises.mkdir(path.dirname(NETWORK_CONFIG_FILE), { recursive: true });
+  await fs.promises.writeFile(`${NETWORK_CONFIG_FILE}.tmp`, JSON.stringify(settings, null, 2));
+  await fs.promises.rename(`${NETWORK_CONFIG_FILE}.tmp`, NETWORK_CONFIG_FILE);
+  network.setContracts(contracts);
+}
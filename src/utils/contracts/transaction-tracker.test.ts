@@ -0,0 +1,40 @@
+import { ERC20_ABI } from '@vechain/sdk-core';
+import { useSimulatorFixture } from '../../core/devnet/simulator-fixture';
+import { createTransactionTracker } from './transaction-tracker';
+
+describe('transaction tracker', () => {
+  const fixture = useSimulatorFixture({ name: 'transaction-tracker-test' });
+  const { simulator, txManager } = fixture;
+  const tracker = createTransactionTracker(simulator.network, { maxResubmissions: 1, gasPriceCoefStep: 10, pollIntervalMs: 200 });
+  let token: string;
+
+  beforeAll(() => {
+    token = simulator.addToken({ symbol: 'TST' });
+    simulator.mint(token, fixture.wallet, 10n ** 18n);
+  });
+
+  it('keeps a replacement chain followed by waitFor through a prune', async () => {
+    const clause = txManager.buildTransactionClause(token, ERC20_ABI, 'transfer', [simulator.contracts.router!, 1n]);
+    const expired = await tracker.submit([clause], { privateKey: fixture.privateKey }, { expiration: 2 });
+
+    // The first transaction never gets a receipt
+    const getReceipt = simulator.thorClient.transactions.getTransactionReceipt.bind(simulator.thorClient.transactions);
+    const getTransactionReceipt = jest.spyOn(simulator.thorClient.transactions, 'getTransactionReceipt')
+      .mockImplementation(async id => id === expired.id ? null : getReceipt(id));
+
+    // The waiter sleeps after its first poll while another caller resubmits, confirms and prunes the chain
+    const waiting = tracker.waitFor(expired.id);
+    await tracker.poll();
+    simulator.mine(4);
+    await tracker.poll();
+    await tracker.poll();
+    tracker.prune();
+
+    const transaction = await waiting;
+
+    expect(transaction).toEqual(expect.objectContaining({ status: 'confirmed', previousId: expired.id }));
+    tracker.prune();
+    expect(tracker.get(expired.id)).toBeUndefined();
+    getTransactionReceipt.mockRestore();
+  });
+});
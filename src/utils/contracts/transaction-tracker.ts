@@ -0,0 +1,346 @@
+import { TransactionClause } from "@vechain/sdk-core";
+import { TransactionReceipt } from "@vechain/sdk-network";
+import "../../utils/wallet-management/env-loader"; // This automatically loads environment variables
+import { createTransactionManager, getLastValidBlock, TransactionExecutionOptions, TransactionSigner } from "./contract-writer";
+import { getNetworkContext, NetworkContext } from "./network-context";
+
+/**
+ * Interface for the resubmission policy of expired transactions
+ * VeChain has no nonce replacement: a transaction is only resubmitted once it has expired, so the original
+ * and the resubmission can never both be included.
+ */
+export interface ResubmitPolicy {
+  maxResubmissions: number;     // Resubmissions per transaction (0 disables resubmission)
+  gasPriceCoefStep: number;     // Added to gasPriceCoef on each resubmission (capped at 255)
+  pollIntervalMs: number;       // Time between status checks while waiting
+}
+
+/**
+ * Status of a tracked transaction
+ * - pending: sent, no receipt yet, not expired
+ * - confirmed / reverted: included (a reverted transaction still pays for its gas)
+ * - expired: not included before its expiration block, and not resubmitted
+ * - resubmitted: expired and replaced by a new transaction (see replacedBy)
+ */
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'reverted' | 'expired' | 'resubmitted';
+
+/**
+ * Interface for a sent transaction and everything needed to resubmit it
+ */
+export interface TrackedTransaction {
+  id: string;
+  clauses: TransactionClause[];
+  blockRef: string;
+  expiration: number;
+  nonce: string | number;
+  gasPriceCoef: number;
+  gas: string | number;
+  status: TrackedTransactionStatus;
+  resubmissions: number;        // Resubmissions before this transaction in its chain
+  previousId?: string;          // Transaction this one replaced
+  replacedBy?: string;          // Transaction that replaced this one
+  receipt?: TransactionReceipt;
+  error?: string;               // Why an expired transaction was not resubmitted
+}
+
+/**
+ * Interface for a change in the life of a tracked transaction
+ */
+export interface TransactionLifecycleEvent {
+  type: 'sent' | 'confirmed' | 'reverted' | 'expired' | 'resubmitted';
+  transaction: TrackedTransaction;   // For resubmitted: the new transaction
+  previous?: TrackedTransaction;     // For resubmitted: the expired transaction
+}
+
+/**
+ * Interface for what the tracker keeps besides the public record
+ */
+interface TrackedEntry {
+  transaction: TrackedTransaction;
+  signer: TransactionSigner;
+  options: TransactionExecutionOptions;
+}
+
+/**
+ * Read the resubmission policy from the environment
+ * @returns Resubmission policy
+ */
+export function getResubmitPolicyFromEnv(): ResubmitPolicy {
+  return {
+    maxResubmissions: Number(process.env.TX_MAX_RESUBMISSIONS || 1),
+    gasPriceCoefStep: Number(process.env.TX_GAS_PRICE_COEF_STEP || 64),
+    pollIntervalMs: Number(process.env.TX_POLL_INTERVAL_MS || 10000)
+  };
+}
+
+// One tracker per network, shared by every module
+const trackers = new Map<string, TransactionTracker>();
+
+/**
+ * Create a tracker that sends transactions, follows them until they are included or expire, and resubmits
+ * expired ones with a higher gasPriceCoef and a fresh blockRef
+ * @param network The network to use
+ * @param policy Resubmission policy
+ * @returns Transaction tracker
+ */
+export function createTransactionTracker(
+  network: NetworkContext = getNetworkContext(),
+  policy: ResubmitPolicy = getResubmitPolicyFromEnv()
+) {
+  const txManager = createTransactionManager(network);
+  const entries = new Map<string, TrackedEntry>();
+  const listeners = new Set<(event: TransactionLifecycleEvent) => void>();
+
+  /**
+   * Deliver an event to every listener; a failing listener does not stop the others
+   */
+  const emit = (event: TransactionLifecycleEvent) => {
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn(`⚠️ Transaction event listener failed on ${event.type}:`, error);
+      }
+    });
+  };
+
+  /**
+   * Build, sign and send a transaction, and start tracking it
+   */
+  const send = async (
+    clauses: TransactionClause[],
+    signer: TransactionSigner,
+    options: TransactionExecutionOptions,
+    gas?: number,
+    previous?: TrackedTransaction
+  ): Promise<TrackedTransaction> => {
+    const txBody = await txManager.buildTransaction(clauses, { ...options, isDelegated: options.isDelegated || options.gasPayer !== undefined }, gas);
+    const signedTx = await txManager.signTransaction(txBody, txManager.getPrivateKey(signer), options.gasPayer);
+    const { id } = await txManager.sendTransaction(signedTx);
+    const transaction: TrackedTransaction = {
+      id,
+      clauses,
+      blockRef: txBody.blockRef,
+      expiration: txBody.expiration,
+      nonce: txBody.nonce,
+      gasPriceCoef: txBody.gasPriceCoef ?? 0,
+      gas: txBody.gas,
+      status: 'pending',
+      resubmissions: previous ? previous.resubmissions + 1 : 0,
+      previousId: previous?.id
+    };
+    entries.set(id, { transaction, signer, options });
+    return transaction;
+  };
+
+  /**
+   * Resubmit an expired transaction when the policy allows it and its clauses still succeed
+   */
+  const resubmit = async (entry: TrackedEntry): Promise<void> => {
+    const { transaction, signer, options } = entry;
+    if (transaction.resubmissions >= policy.maxResubmissions) {
+      transaction.error = `Expired after ${transaction.resubmissions} resubmission(s)`;
+      return;
+    }
+
+    // State moved on while the transaction waited (e.g. a swap deadline passed): only resubmit what still succeeds
+    const simulation = await txManager.simulate(transaction.clauses, txManager.getWalletAddress(signer));
+    if (simulation.reverted) {
+      transaction.error = `Not resubmitted, clause ${simulation.revertedClause} would revert: ${simulation.revertReason || simulation.vmError}`;
+      return;
+    }
+
+    const gasPriceCoef = Math.min(255, transaction.gasPriceCoef + policy.gasPriceCoefStep);
+    let replacement: TrackedTransaction;
+    try {
+      replacement = await send(
+        transaction.clauses,
+        signer,
+        { ...options, gasPriceCoef, nonce: transaction.nonce },
+        Number(transaction.gas),
+        transaction
+      );
+    } catch (error) {
+      transaction.error = `Resubmission failed: ${error instanceof Error ? error.message : String(error)}`;
+      return;
+    }
+    transaction.status = 'resubmitted';
+    transaction.replacedBy = replacement.id;
+    console.log(`🔁 Resubmitted expired transaction ${transaction.id} as ${replacement.id} (gasPriceCoef ${gasPriceCoef})`);
+    emit({ type: 'resubmitted', transaction: replacement, previous: transaction });
+  };
+
+  /**
+   * Check every pending transaction once
+   */
+  const checkPending = async (): Promise<TrackedTransaction[]> => {
+    const pending = [...entries.values()].filter(entry => entry.transaction.status === 'pending');
+    if (pending.length === 0) {
+      return [];
+    }
+    const best = await network.withFailover(thorClient => thorClient.blocks.getBestBlockCompressed());
+    const changed: TrackedTransaction[] = [];
+
+    for (const entry of pending) {
+      const { transaction } = entry;
+      const receipt = await network.withFailover(thorClient => thorClient.transactions.getTransactionReceipt(transaction.id));
+      if (receipt) {
+        transaction.receipt = receipt;
+        transaction.status = receipt.reverted ? 'reverted' : 'confirmed';
+        emit({ type: transaction.status, transaction });
+        changed.push(transaction);
+        continue;
+      }
+
+      if (best && best.number > getLastValidBlock(transaction.blockRef, transaction.expiration)) {
+        transaction.status = 'expired';
+        console.warn(`⚠️ Transaction ${transaction.id} expired unmined at block ${best.number}`);
+        await resubmit(entry);
+        if (transaction.status === 'expired') {
+          emit({ type: 'expired', transaction });
+        }
+        changed.push(transaction);
+      }
+    }
+    return changed;
+  };
+
+  // Poll in progress, shared by concurrent callers so a transaction is never resubmitted twice
+  let polling: Promise<TrackedTransaction[]> | undefined;
+
+  // Transactions followed by waitFor calls, with the number of calls following each; prune keeps their chains
+  const waiting = new Map<string, number>();
+
+  const tracker = {
+    /**
+     * Listen to lifecycle events (sent, confirmed, reverted, expired, resubmitted)
+     * @param listener Callback receiving each event
+     * @returns Function removing the listener
+     */
+    onEvent: (listener: (event: TransactionLifecycleEvent) => void): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /**
+     * Send a transaction and start tracking it
+     * @param clauses Array of transaction clauses
+     * @param signer Signer of the transaction (kept in memory for resubmissions)
+     * @param options Transaction body options and gas payer, reused for resubmissions
+     * @param gas Gas limit (estimated by the node when omitted)
+     * @returns Promise with the tracked transaction
+     */
+    submit: async (
+      clauses: TransactionClause[],
+      signer: TransactionSigner,
+      options: TransactionExecutionOptions = {},
+      gas?: number
+    ): Promise<TrackedTransaction> => {
+      const transaction = await send(clauses, signer, options, gas);
+      emit({ type: 'sent', transaction });
+      return transaction;
+    },
+
+    /**
+     * Check the status of every pending transaction once, resubmitting the ones that expired
+     * @returns Promise with the transactions whose status changed
+     */
+    poll: (): Promise<TrackedTransaction[]> => {
+      if (!polling) {
+        polling = checkPending().finally(() => {
+          polling = undefined;
+        });
+      }
+      return polling;
+    },
+
+    /**
+     * Wait until a transaction, or the transaction that replaced it, is included or expires for good
+     * @param id Transaction ID
+     * @returns Promise with the last transaction of the chain (confirmed, reverted or expired)
+     */
+    waitFor: async (id: string): Promise<TrackedTransaction> => {
+      let transaction = tracker.get(id);
+      if (!transaction) {
+        throw new Error(`Transaction ${id} is not tracked`);
+      }
+      waiting.set(id, (waiting.get(id) || 0) + 1);
+      try {
+        for (;;) {
+          while (transaction.status === 'resubmitted' && transaction.replacedBy) {
+            const replacement = tracker.get(transaction.replacedBy);
+            if (!replacement) {
+              break;
+            }
+            transaction = replacement;
+          }
+          if (transaction.status !== 'pending') {
+            return transaction;
+          }
+          const changed = await tracker.poll();
+          if (!changed.includes(transaction)) {
+            await new Promise(resolve => setTimeout(resolve, policy.pollIntervalMs));
+          }
+        }
+      } finally {
+        const count = (waiting.get(id) || 1) - 1;
+        if (count > 0) {
+          waiting.set(id, count);
+        } else {
+          waiting.delete(id);
+        }
+      }
+    },
+
+    /**
+     * Get a tracked transaction
+     * @param id Transaction ID
+     * @returns Tracked transaction, undefined when unknown
+     */
+    get: (id: string): TrackedTransaction | undefined => entries.get(id)?.transaction,
+
+    /**
+     * Get the transactions still waiting for a receipt
+     */
+    getPending: (): TrackedTransaction[] =>
+      [...entries.values()].map(entry => entry.transaction).filter(transaction => transaction.status === 'pending'),
+
+    /**
+     * Stop tracking transactions that are included or expired for good
+     * Replacement chains that a waitFor call still follows are kept until it returns.
+     */
+    prune: (): void => {
+      const followed = new Set<string>();
+      waiting.forEach((_, id) => {
+        for (let next: string | undefined = id; next && !followed.has(next); next = entries.get(next)?.transaction.replacedBy) {
+          followed.add(next);
+        }
+      });
+      entries.forEach((entry, id) => {
+        if (entry.transaction.status !== 'pending' && !followed.has(id)) {
+          entries.delete(id);
+        }
+      });
+    }
+  };
+
+  return tracker;
+}
+
+export type TransactionTracker = ReturnType<typeof createTransactionTracker>;
+
+/**
+ * Get the shared transaction tracker of a network
+ * @param network The network to use
+ * @returns Transaction tracker
+ */
+export function getTransactionTracker(network: NetworkContext = getNetworkContext()): TransactionTracker {
+  let tracker = trackers.get(network.name);
+  if (!tracker) {
+    tracker = createTransactionTracker(network);
+    trackers.set(network.name, tracker);
+  }
+  return tracker;
+}
@@ -0,0 +1,34 @@
+import { createGasPayerFromEnv } from './key-utils';
+
+const KEY = `0x${'11'.repeat(32)}`;
+const VARIABLES = ['GAS_PAYER_PRIVATE_KEY', 'GAS_PAYER_SERVICE_URL', 'TESTNET_GAS_PAYER_PRIVATE_KEY', 'TESTNET_GAS_PAYER_SERVICE_URL'];
+
+describe('createGasPayerFromEnv', () => {
+  beforeEach(() => VARIABLES.forEach(name => delete process.env[name]));
+  afterAll(() => VARIABLES.forEach(name => delete process.env[name]));
+
+  it('lets the wallet pay its own gas when no gas payer is set', () => {
+    expect(createGasPayerFromEnv('testnet')).toBeUndefined();
+  });
+
+  it('falls back to the global gas payer', () => {
+    process.env.GAS_PAYER_SERVICE_URL = 'http://127.0.0.1:8670/delegate';
+
+    expect(createGasPayerFromEnv('testnet')).toEqual({ gasPayerServiceUrl: 'http://127.0.0.1:8670/delegate' });
+  });
+
+  it('uses the network gas payer alone over a global one of the other kind', () => {
+    process.env.GAS_PAYER_SERVICE_URL = 'http://127.0.0.1:8670/delegate';
+    process.env.TESTNET_GAS_PAYER_PRIVATE_KEY = KEY;
+
+    expect(createGasPayerFromEnv('testnet')).toEqual({ gasPayerPrivateKey: new Uint8Array(32).fill(0x11) });
+    expect(createGasPayerFromEnv('mainnet')).toEqual({ gasPayerServiceUrl: 'http://127.0.0.1:8670/delegate' });
+  });
+
+  it('refuses a key and a service URL for the same network', () => {
+    process.env.TESTNET_GAS_PAYER_PRIVATE_KEY = KEY;
+    process.env.TESTNET_GAS_PAYER_SERVICE_URL = 'http://127.0.0.1:8670/delegate';
+
+    expect(() => createGasPayerFromEnv('testnet')).toThrow(/not both/);
+  });
+});
@@ -1,9 +1,11 @@
-import { TransactionSigner } from "../contracts/contract-writer";
+import { GasPayer, TransactionSigner } from "../contracts/contract-writer";
 
+// Mnemonic of the prefunded accounts of a Thor Solo node (public, for local development only)
+const THOR_SOLO_MNEMONIC = "denial kitchen pet squirrel other broom bar gas better priority spoil cross";
 
 /**
  * Creates a TransactionSigner from environment variables
- * @param networkType The network type (mainnet or testnet)
+ * @param networkType The network type (mainnet, testnet or solo)
  * @returns TransactionSigner object and source information
  */
 export function createSignerFromEnv(networkType: string = "testnet"): { signer: TransactionSigner; source: string } {
@@ -12,7 +14,20 @@ export function createSignerFromEnv(networkType: string = "testnet"): { signer:
   const isMainnet = networkType === "mainnet";
   
   // Check for network-specific credentials first
-  if (isMainnet) {
+  if (networkType === "solo") {
+    // Thor Solo credentials, falling back to the node's prefunded account
+    if (process.env.SOLO_PRIVATE_KEY) {
+      console.log("Using solo private key from environment");
+      signer.privateKey = parsePrivateKey(process.env.SOLO_PRIVATE_KEY);
+      source = "solo private key";
+      return { signer, source };
+    }
+    const mnemonic = (process.env.SOLO_MNEMONIC || THOR_SOLO_MNEMONIC).trim().split(" ");
+    console.log(`Using ${process.env.SOLO_MNEMONIC ? 'solo mnemonic from environment' : 'Thor Solo default account'}`);
+    signer.mnemonic = mnemonic;
+    source = process.env.SOLO_MNEMONIC ? "solo mnemonic" : "solo default account";
+    return { signer, source };
+  } else if (isMainnet) {
     // Mainnet credentials
     if (process.env.MAINNET_MNEMONIC) {
       const mnemonic = process.env.MAINNET_MNEMONIC.trim().split(" ");
@@ -79,6 +94,36 @@ export function createSignerFromEnv(networkType: string = "testnet"): { signer:
   return { signer, source };
 }
 
+/**
+ * Creates the VIP-191 gas payer of the wallet from environment variables
+ * Network-specific variables (e.g. TESTNET_GAS_PAYER_PRIVATE_KEY) replace the global GAS_PAYER_PRIVATE_KEY and
+ * GAS_PAYER_SERVICE_URL pair as a whole, so each bot can pay its own gas or have it sponsored.
+ * @param networkType The network type (mainnet, testnet or solo)
+ * @returns Gas payer, undefined when the wallet pays its own gas
+ */
+export function createGasPayerFromEnv(networkType: string = "testnet"): GasPayer | undefined {
+  const prefix = networkType.toUpperCase();
+  let privateKey = process.env[`${prefix}_GAS_PAYER_PRIVATE_KEY`];
+  let serviceUrl = process.env[`${prefix}_GAS_PAYER_SERVICE_URL`];
+  
+  // The global pair only applies when the network sets neither variable
+  if (!privateKey && !serviceUrl) {
+    privateKey = process.env.GAS_PAYER_PRIVATE_KEY;
+    serviceUrl = process.env.GAS_PAYER_SERVICE_URL;
+  }
+  
+  if (privateKey && serviceUrl) {
+    throw new Error(`Set either a gas payer private key or a gas payer service URL for ${networkType}, not both`);
+  }
+  if (privateKey) {
+    return { gasPayerPrivateKey: parsePrivateKey(privateKey) };
+  }
+  if (serviceUrl) {
+    return { gasPayerServiceUrl: serviceUrl };
+  }
+  return undefined;
+}
+
 /**
  * Helper function to parse a private key string to Uint8Array
  * @param privateKeyString Private key as hex string